@@ -0,0 +1,253 @@
+/**
+ * Agent turns against a local fake OpenAI-compatible server
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { startFakeOpenAI, lastUserText } from './testing/fake-openai.js';
+import type { FakeOpenAI, FakeScript } from './testing/fake-openai.js';
+import type { RetryInfo } from './types/index.js';
+
+// Keep the user's ~/.zesbe (policy, hooks, sessions, MCP servers) out of the test
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'zesbe-agent-'));
+
+const { Agent } = await import('./agent.js');
+type AgentOptions = ConstructorParameters<typeof Agent>[0];
+
+const servers: FakeOpenAI[] = [];
+async function fakeServer(script: FakeScript): Promise<FakeOpenAI> {
+  const server = await startFakeOpenAI(script);
+  servers.push(server);
+  return server;
+}
+
+function createAgent(server: FakeOpenAI, options: Partial<AgentOptions> = {}) {
+  return new Agent({ provider: 'openai', model: 'gpt-4o', apiKey: 'test', baseUrl: server.url, cwd, ...options });
+}
+
+describe('Agent', () => {
+  after(async () => {
+    await Promise.all(servers.map(server => server.close()));
+    fs.rmSync(cwd, { recursive: true, force: true });
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  describe('retries and failover', () => {
+    const answer = (text: string): FakeScript => () => ({ text });
+    const retryPolicies = { openai: { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 1000, timeoutMs: 500 } };
+
+    async function run(agent: InstanceType<typeof Agent>) {
+      const retries: RetryInfo[] = [];
+      let text = '';
+      let error: Error | null = null;
+      await agent.chat('hello', {
+        onToken: token => { text += token; },
+        onRetry: info => { retries.push(info); },
+        onError: e => { error = e; }
+      });
+      return { text, retries, error: error as Error | null };
+    }
+
+    it('retries 5xx and 429, honouring Retry-After', async () => {
+      const server = await fakeServer((_request, index) => [
+        { status: 503 },
+        { status: 429, headers: { 'retry-after-ms': '20' } }
+      ][index] || { text: 'recovered' });
+      for (const stream of [true, false]) {
+        server.requests.length = 0;
+        const agent = createAgent(server, { retryPolicies, stream });
+        const { retries, error } = await run(agent);
+
+        assert.equal(error, null);
+        assert.equal(agent.history.at(-1)?.content, 'recovered');
+        assert.equal(server.requests.length, 3);
+        assert.deepEqual(retries.map(r => [r.attempt, r.error.slice(0, 8)]), [[1, 'HTTP 503'], [2, 'HTTP 429']]);
+        assert.ok(retries[0].delayMs >= 5 && retries[0].delayMs <= 10, `backoff ${retries[0].delayMs}ms`);
+        assert.equal(retries[1].delayMs, 20);
+        assert.equal(agent.stats.retries, 2);
+        assert.deepEqual(agent.stats.answeredBy, { provider: 'openai', model: 'gpt-4o' });
+      }
+    });
+
+    it('moves down the failover chain when the primary keeps failing', async () => {
+      const primary = await fakeServer(() => ({ status: 500 }));
+      const backup = await fakeServer(answer('from backup'));
+      const agent = createAgent(primary, {
+        retryPolicies: { openai: { ...retryPolicies.openai, maxAttempts: 2 } },
+        failover: [{ provider: 'openai', model: 'gpt-4o-mini', apiKey: 'test', baseUrl: backup.url }]
+      });
+      const { text, retries, error } = await run(agent);
+
+      assert.equal(error, null);
+      assert.equal(text, 'from backup');
+      assert.equal(primary.requests.length, 2);
+      assert.equal(backup.requests[0].model, 'gpt-4o-mini');
+      assert.deepEqual(retries.at(-1)?.failoverTo, { provider: 'openai', model: 'gpt-4o-mini' });
+      assert.deepEqual(agent.stats.answeredBy, { provider: 'openai', model: 'gpt-4o-mini' });
+      assert.equal(agent.stats.failovers, 1);
+    });
+
+    it('skips to the next provider when Retry-After exceeds the backoff cap', async () => {
+      const primary = await fakeServer(() => ({ status: 429, headers: { 'retry-after': '3600' } }));
+      const backup = await fakeServer(answer('from backup'));
+      const agent = createAgent(primary, {
+        retryPolicies,
+        failover: [{ provider: 'openai', model: 'gpt-4o-mini', apiKey: 'test', baseUrl: backup.url }]
+      });
+      const { text, retries } = await run(agent);
+
+      assert.equal(text, 'from backup');
+      assert.equal(primary.requests.length, 1);
+      assert.equal(retries.length, 1);
+      assert.ok(retries[0].failoverTo);
+    });
+
+    it('treats a provider that never answers as failed after the timeout', async () => {
+      const primary = await fakeServer(() => ({ hang: true }));
+      const backup = await fakeServer(answer('from backup'));
+      const agent = createAgent(primary, {
+        retryPolicies: { openai: { ...retryPolicies.openai, maxAttempts: 1, timeoutMs: 200 } },
+        failover: [{ provider: 'openai', model: 'gpt-4o-mini', apiKey: 'test', baseUrl: backup.url }]
+      });
+      const { text, retries } = await run(agent);
+
+      assert.equal(text, 'from backup');
+      assert.match(retries[0].error, /No response from provider/);
+    });
+
+    it('does not retry or fail over on client errors', async () => {
+      const primary = await fakeServer(() => ({ status: 400 }));
+      const backup = await fakeServer(answer('from backup'));
+      const agent = createAgent(primary, {
+        retryPolicies,
+        failover: [{ provider: 'openai', model: 'gpt-4o-mini', apiKey: 'test', baseUrl: backup.url }]
+      });
+      const { retries, error } = await run(agent);
+
+      assert.match(error?.message || '', /fake error 400/);
+      assert.equal(retries.length, 0);
+      assert.equal(primary.requests.length, 1);
+      assert.equal(backup.requests.length, 0);
+    });
+  });
+
+  describe('working directory', () => {
+    it('resolves file tool paths from where bash cd-ed to', async () => {
+      const steps = [
+        { name: 'bash', args: { command: 'mkdir -p sub && cd sub' } },
+        { name: 'write', args: { file_path: 'note.txt', content: 'one\n' } },
+        { name: 'edit', args: { file_path: 'note.txt', old_string: 'one', new_string: 'two' } },
+        { name: 'apply_patch', args: { patch: '--- /dev/null\n+++ b/patched.txt\n@@ -0,0 +1 @@\n+patched\n' } },
+        { name: 'read', args: { file_path: 'note.txt' } },
+        { name: 'grep', args: { pattern: 'patched', output_mode: 'files_with_matches' } }
+      ];
+      const server = await fakeServer((_request, index) => index < steps.length ? { toolCalls: [steps[index]] } : { text: 'done' });
+      const agent = createAgent(server, { yolo: true });
+      const results: Record<string, string> = {};
+      try {
+        await agent.chat('go', {
+          onToolResult: (tool, result) => { results[tool] = typeof result === 'string' ? result : JSON.stringify(result); }
+        });
+      } finally {
+        agent.closeShell();
+      }
+
+      assert.equal(fs.readFileSync(path.join(cwd, 'sub', 'note.txt'), 'utf-8'), 'two\n');
+      assert.equal(fs.readFileSync(path.join(cwd, 'sub', 'patched.txt'), 'utf-8'), 'patched\n');
+      assert.ok(!fs.existsSync(path.join(cwd, 'note.txt')));
+      assert.match(results.read, /two/);
+      assert.equal(results.grep.trim(), 'patched.txt');
+    });
+
+    it('runs git tools and background jobs from where bash cd-ed to', async () => {
+      const steps = [
+        { name: 'bash', args: { command: 'mkdir -p nested/inner && cd nested && git init -q && touch only-here.txt' } },
+        { name: 'git_status', args: {} },
+        { name: 'bash', args: { command: 'pwd > where.txt', cwd: 'inner', run_in_background: true } }
+      ];
+      const server = await fakeServer((_request, index) => index < steps.length ? { toolCalls: [steps[index]] } : { text: 'done' });
+      const agent = createAgent(server, { yolo: true });
+      const results: string[] = [];
+      try {
+        await agent.chat('go', {
+          onToolResult: (_tool, result) => { results.push(typeof result === 'string' ? result : JSON.stringify(result)); }
+        });
+      } finally {
+        agent.closeShell();
+      }
+
+      assert.match(results[1], /only-here\.txt/);
+      const where = path.join(cwd, 'nested', 'inner', 'where.txt');
+      for (let i = 0; i < 50 && !fs.existsSync(where); i++) await new Promise(resolve => setTimeout(resolve, 100));
+      assert.equal(fs.realpathSync(fs.readFileSync(where, 'utf-8').trim()), fs.realpathSync(path.dirname(where)));
+    });
+
+    it('checks path rules against the resolved location', async () => {
+      const outside = fs.mkdtempSync(path.join(home, 'outside-'));   // Removed with the temp home
+      const steps = [
+        { name: 'bash', args: { command: `cd ${outside}` } },
+        { name: 'write', args: { file_path: 'escape.txt', content: 'x' } }
+      ];
+      const server = await fakeServer((_request, index) => index < steps.length ? { toolCalls: [steps[index]] } : { text: 'done' });
+      // YOLO still asks for writes outside the working directory
+      const agent = createAgent(server, { yolo: true });
+      const asked: string[] = [];
+      try {
+        await agent.chat('go', {
+          onPermissionRequest: async (request) => {
+            asked.push(request.toolName);
+            return 'deny';
+          }
+        });
+      } finally {
+        agent.closeShell();
+      }
+
+      assert.deepEqual(asked, ['write']);
+      assert.ok(!fs.existsSync(path.join(outside, 'escape.txt')));
+    });
+  });
+
+  describe('permission prompts', () => {
+    let server: FakeOpenAI;
+
+    before(async () => {
+      // Two bash calls in one step; each would leave a marker file behind
+      server = await fakeServer(request => lastUserText(request)
+        ? { toolCalls: ['first', 'second'].map(name => ({ name: 'bash', args: { command: `touch ${name}.marker` } })) }
+        : { text: 'done' });
+    });
+
+    it('denies calls when the turn is interrupted during the prompt', async () => {
+      const agent = createAgent(server);
+      const controller = new AbortController();
+      const prompted: string[] = [];
+      const results: string[] = [];
+      try {
+        await agent.chat('run both', {
+          onPermissionRequest: async (request) => {
+            prompted.push(String(request.args.command));
+            assert.equal(request.signal, controller.signal);
+            // Ctrl+C while the question is open; a late "yes" must not run the tool
+            controller.abort();
+            return 'allow';
+          },
+          onToolResult: (_tool, result) => { results.push(typeof result === 'string' ? result : JSON.stringify(result)); }
+        }, { signal: controller.signal });
+      } finally {
+        agent.closeShell();
+      }
+
+      assert.equal(prompted.length, 1, 'the queued prompt was still shown');
+      assert.equal(results.length, 2);
+      for (const result of results) assert.match(result, /"status":"denied"/);
+      assert.ok(!fs.existsSync(path.join(cwd, 'first.marker')));
+      assert.ok(!fs.existsSync(path.join(cwd, 'second.marker')));
+    });
+  });
+});
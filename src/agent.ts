@@ -3,18 +3,36 @@
  * Unified multi-provider API with built-in agentic loop
  */
 
-import { streamText, generateText, tool, stepCountIs } from 'ai';
+import {
+  streamText, generateText, tool, stepCountIs, hasToolCall, jsonSchema, wrapLanguageModel, extractReasoningMiddleware
+} from 'ai';
+import type { ModelMessage, AssistantModelMessage, ToolModelMessage, Tool, JSONSchema7, LanguageModelUsage } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
 import { createAnthropic } from '@ai-sdk/anthropic';
-import { z } from 'zod';
-import { executeTool } from './tools/index.js';
-import type { ToolExecutionOptions } from '@ai-sdk/provider-utils';
+import { executeTool, toolDefinitions, SUBAGENT_DEFAULT_TOOLS, SUBAGENT_MAX_STEPS, PLAN_MODE_TOOLS } from './tools/index.js';
+import type { Planner } from './tools/index.js';
+import type { ToolExecutionOptions, ProviderOptions } from '@ai-sdk/provider-utils';
 import { getSkillsManager } from './skills/manager.js';
 import { getMCPManager } from './mcp/client.js';
-import { countTokens } from './utils/tokens.js';
+import { getPermissionManager, createToolRefusal } from './permissions/manager.js';
+import { getCheckpointManager, createSessionId } from './checkpoints/manager.js';
+import { getHookManager, TRUSTED_HOOKS_FILE } from './hooks/manager.js';
+import { ShellSession } from './shell/session.js';
+import { PROVIDERS, getModelPricing, calculateCost, supportsVision, getReasoningMode } from './models-db.js';
+import { countTokens, countMessagesTokens, getContextWindow, truncateToTokenLimit } from './utils/tokens.js';
+import { readImage } from './utils/images.js';
+import { formatPlanSteps, parsePlanFromText } from './utils/plan.js';
+import { fetchWithReasoningContent } from './utils/reasoning.js';
+import {
+  resolveRetryPolicy, isRetryableError, getRetryAfterMs, computeBackoff, describeError, fetchWithTimeout, sleep
+} from './utils/retry.js';
 import fs from 'fs';
 import path from 'path';
-import type { AgentOptions, AgentStats, Message, ChatCallbacks, Session, ToolCall } from './types/index.js';
+import type {
+  AgentOptions, AgentStats, Message, ChatCallbacks, ChatOptions, Session, ToolCall, CompactResult,
+  RetryPolicy, ProviderEndpoint, TokenUsage, SubagentTask, SubagentProgress, Plan, PlanStepStatus,
+  Checkpoint, RestoreResult, HookInput, HookOutcome, ReasoningSetting, PermissionAnswer
+} from './types/index.js';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CONFIGURATION
@@ -22,15 +40,42 @@ import type { AgentOptions, AgentStats, Message, ChatCallbacks, Session, ToolCal
 
 const DEFAULT_MAX_STEPS = 0; // 0 = unlimited (no step limit)
 
+// Appended to the assistant message of a turn the user cancelled
+const INTERRUPTED_MARKER = '[Interrupted by user]';
+
+// Times a Stop hook may send a finished turn back to the model
+const MAX_STOP_HOOK_CONTINUATIONS = 3;
+
+// Context compaction
+const COMPACT_THRESHOLD = 0.8;          // Compact when history uses 80% of the context window
+const COMPACT_KEEP_TURNS = 2;           // Most recent turns kept verbatim
+const COMPACT_TOOL_RESULT_TOKENS = 1000; // Per tool result, in the transcript sent for summarizing
+
+const COMPACT_SYSTEM_PROMPT = `You compress a coding assistant's conversation so it can continue in a smaller context.
+Write a concise summary of the conversation below. Include:
+- What the user asked for and any decisions or constraints they gave
+- What has been done so far: files read, created or changed, commands run and their important results
+- Errors encountered and how they were resolved
+- What remains to be done
+
+Keep file paths, function names, and exact error messages. Write in the same language as the user.
+Output only the summary.`;
+
 const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI coding assistant running in a CLI environment.
 You have access to tools to help accomplish tasks:
 - bash: Execute shell commands
 - read: Read file contents
 - write: Write content to files
 - edit: Edit files using search and replace
+- multi_edit: Several search-and-replace edits to one file, all or nothing
+- apply_patch: Apply a unified diff that changes, creates, deletes or renames several files
 - glob: Find files matching patterns
-- grep: Search for patterns in files
-- git_status, git_diff, git_log, git_commit: Git operations
+- grep: Search for patterns in files (regex; modes: content, files_with_matches, count; context, multiline, offset/limit)
+- list_mcp_resources, read_mcp_resource: Browse and read resources from connected MCP servers
+- git_status, git_diff, git_log, git_show, git_blame: Inspect the repository
+- git_add, git_reset, git_commit, git_restore: Stage (whole files or single hunks), unstage, commit, discard changes
+- git_branch, git_checkout, git_stash, git_worktree: Branches, stashes and worktrees
+- task: Hand a focused job to a subagent with its own context; only its final report comes back
 
 IMPORTANT: Always respond in the SAME LANGUAGE as the user. If the user speaks Indonesian, respond in Indonesian. If they speak English, respond in English.
 
@@ -38,237 +83,147 @@ When the user asks you to perform tasks, use the appropriate tools.
 Always explain what you're doing before using tools.
 Be concise and helpful.`;
 
+const PLAN_MODE_PROMPT = `
+
+## Plan Mode
+You are in read-only plan mode: you can investigate, but nothing may be changed yet.
+Read the relevant code, then call submit_plan with a short summary and ordered, concrete steps
+(files and functions involved, how each step is checked), and stop. The user approves the plan before any edits.`;
+
+const SUBAGENT_SYSTEM_PROMPT = `You are a subagent of an AI coding assistant running in a CLI environment.
+You were given one focused task. Work through it on your own with the tools you have; nobody will answer questions.
+When you are done, reply with a final report for the assistant that started you: findings, file paths with line numbers,
+and anything left unresolved. The report is the only thing it will see, so make it complete but concise.`;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // PROVIDER FACTORY
 // ═══════════════════════════════════════════════════════════════════════════
 
-type ProviderType = 'openai' | 'anthropic' | 'glm' | 'gemini' | 'groq' | 'together' | 'deepseek' | 'openrouter' | string;
-
 interface ProviderConfig {
   apiKey?: string;
   baseUrl?: string;
+  timeoutMs?: number; // Fail a request whose response takes longer (0 = no limit)
 }
 
-function createModel(provider: ProviderType, model: string, config: ProviderConfig) {
-  const { apiKey, baseUrl } = config;
-
-  switch (provider) {
-    case 'anthropic':
-      return createAnthropic({ apiKey })(model);
-
-    case 'openai':
-      // Use .chat() for chat completions API (not responses API)
-      return createOpenAI({ apiKey, baseURL: baseUrl }).chat(model);
-
-    case 'glm':
-      // GLM uses OpenAI-compatible chat completions API
-      return createOpenAI({
-        apiKey,
-        baseURL: baseUrl || 'https://api.z.ai/api/coding/paas/v4/'
-      }).chat(model);
-
-    case 'gemini':
-      // Gemini via OpenAI-compatible endpoint
-      return createOpenAI({
-        apiKey,
-        baseURL: baseUrl || 'https://generativelanguage.googleapis.com/v1beta/openai/'
-      }).chat(model);
-
-    case 'groq':
-      return createOpenAI({
-        apiKey,
-        baseURL: 'https://api.groq.com/openai/v1'
-      }).chat(model);
-
-    case 'together':
-      return createOpenAI({
-        apiKey,
-        baseURL: 'https://api.together.xyz/v1'
-      }).chat(model);
-
-    case 'deepseek':
-      return createOpenAI({
-        apiKey,
-        baseURL: 'https://api.deepseek.com/v1'
-      }).chat(model);
-
-    case 'openrouter':
-      return createOpenAI({
-        apiKey,
-        baseURL: 'https://openrouter.ai/api/v1'
-      }).chat(model);
+// The provider registry decides the wire format and default endpoint; unknown providers are
+// treated as OpenAI-compatible at the given base URL
+function createModel(provider: string, model: string, config: ProviderConfig) {
+  const { apiKey, baseUrl, timeoutMs } = config;
+  const fetch = timeoutMs ? fetchWithTimeout(timeoutMs) : undefined;
+  const definition = PROVIDERS[provider];
+  const baseURL = baseUrl || definition?.baseUrl || undefined;
 
-    default:
-      return createOpenAI({
-        apiKey,
-        baseURL: baseUrl
-      }).chat(model);
+  if (definition?.api === 'anthropic') {
+    return createAnthropic({ apiKey, baseURL, fetch })(model);
   }
+
+  // OpenAI-compatible models send reasoning as reasoning_content or inline <think> blocks;
+  // both become reasoning parts, kept apart from the answer.
+  // Use .chat() for the chat completions API (not the responses API)
+  return wrapLanguageModel({
+    model: createOpenAI({ apiKey, baseURL, fetch: fetchWithReasoningContent(fetch) }).chat(model),
+    middleware: extractReasoningMiddleware({ tagName: 'think' })
+  });
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
 // AI SDK TOOLS - Zod schema validation with execute functions
 // ═══════════════════════════════════════════════════════════════════════════
 
-function createAiSdkTools(onToolCall?: (name: string, args: any) => Promise<boolean>, onToolResult?: (name: string, result: any) => void) {
-  return {
-    bash: tool({
-      description: 'Execute a shell command',
-      inputSchema: z.object({
-        command: z.string().describe('The command to execute'),
-        cwd: z.string().optional().describe('Working directory')
-      }),
-      execute: async (args, _options: ToolExecutionOptions) => {
-        if (onToolCall) await onToolCall('bash', args);
-        const result = await executeTool('bash', args);
-        if (onToolResult) onToolResult('bash', result);
-        return typeof result === 'string' ? result : JSON.stringify(result);
-      }
-    }),
-
-    read: tool({
-      description: 'Read the contents of a file',
-      inputSchema: z.object({
-        path: z.string().describe('Path to the file to read'),
-        encoding: z.string().optional().describe('File encoding (default: utf-8)')
-      }),
-      execute: async (args, _options: ToolExecutionOptions) => {
-        if (onToolCall) await onToolCall('read', args);
-        const result = await executeTool('read', args);
-        if (onToolResult) onToolResult('read', result);
-        return typeof result === 'string' ? result : JSON.stringify(result);
-      }
-    }),
-
-    write: tool({
-      description: 'Write content to a file',
-      inputSchema: z.object({
-        path: z.string().describe('Path to the file to write'),
-        content: z.string().describe('Content to write')
-      }),
-      execute: async (args, _options: ToolExecutionOptions) => {
-        if (onToolCall) await onToolCall('write', args);
-        const result = await executeTool('write', args);
-        if (onToolResult) onToolResult('write', result);
-        return typeof result === 'string' ? result : JSON.stringify(result);
-      }
-    }),
-
-    edit: tool({
-      description: 'Edit a file by replacing text',
-      inputSchema: z.object({
-        path: z.string().describe('Path to the file to edit'),
-        search: z.string().describe('Text to search for'),
-        replace: z.string().describe('Text to replace with')
-      }),
-      execute: async (args, _options: ToolExecutionOptions) => {
-        if (onToolCall) await onToolCall('edit', args);
-        const result = await executeTool('edit', args);
-        if (onToolResult) onToolResult('edit', result);
-        return typeof result === 'string' ? result : JSON.stringify(result);
-      }
-    }),
-
-    glob: tool({
-      description: 'Find files matching a glob pattern',
-      inputSchema: z.object({
-        pattern: z.string().describe('Glob pattern (e.g., **/*.ts)'),
-        cwd: z.string().optional().describe('Base directory')
-      }),
-      execute: async (args, _options: ToolExecutionOptions) => {
-        if (onToolCall) await onToolCall('glob', args);
-        const result = await executeTool('glob', args);
-        if (onToolResult) onToolResult('glob', result);
-        return typeof result === 'string' ? result : JSON.stringify(result);
-      }
-    }),
-
-    grep: tool({
-      description: 'Search for a pattern in files',
-      inputSchema: z.object({
-        pattern: z.string().describe('Search pattern (regex)'),
-        path: z.string().optional().describe('File or directory to search'),
-        include: z.string().optional().describe('File pattern to include')
-      }),
-      execute: async (args, _options: ToolExecutionOptions) => {
-        if (onToolCall) await onToolCall('grep', args);
-        const result = await executeTool('grep', args);
-        if (onToolResult) onToolResult('grep', result);
-        return typeof result === 'string' ? result : JSON.stringify(result);
-      }
-    }),
-
-    web_fetch: tool({
-      description: 'Fetch content from a URL',
-      inputSchema: z.object({
-        url: z.string().describe('URL to fetch')
-      }),
-      execute: async (args, _options: ToolExecutionOptions) => {
-        if (onToolCall) await onToolCall('web_fetch', args);
-        const result = await executeTool('web_fetch', args);
-        if (onToolResult) onToolResult('web_fetch', result);
-        return typeof result === 'string' ? result : JSON.stringify(result);
-      }
-    }),
-
-    git_status: tool({
-      description: 'Get git repository status',
-      inputSchema: z.object({
-        cwd: z.string().optional().describe('Working directory')
-      }),
-      execute: async (args, _options: ToolExecutionOptions) => {
-        if (onToolCall) await onToolCall('git_status', args);
-        const result = await executeTool('git_status', args);
-        if (onToolResult) onToolResult('git_status', result);
-        return typeof result === 'string' ? result : JSON.stringify(result);
-      }
-    }),
-
-    git_diff: tool({
-      description: 'Show git diff',
-      inputSchema: z.object({
-        staged: z.boolean().optional().describe('Show staged changes only'),
-        file: z.string().optional().describe('Specific file to diff'),
-        cwd: z.string().optional().describe('Working directory')
-      }),
-      execute: async (args, _options: ToolExecutionOptions) => {
-        if (onToolCall) await onToolCall('git_diff', args);
-        const result = await executeTool('git_diff', args);
-        if (onToolResult) onToolResult('git_diff', result);
-        return typeof result === 'string' ? result : JSON.stringify(result);
-      }
-    }),
-
-    git_log: tool({
-      description: 'Show git commit history',
-      inputSchema: z.object({
-        maxCount: z.number().optional().describe('Max commits to show'),
-        file: z.string().optional().describe('File to show history for'),
-        cwd: z.string().optional().describe('Working directory')
-      }),
-      execute: async (args, _options: ToolExecutionOptions) => {
-        if (onToolCall) await onToolCall('git_log', args);
-        const result = await executeTool('git_log', args);
-        if (onToolResult) onToolResult('git_log', result);
-        return typeof result === 'string' ? result : JSON.stringify(result);
-      }
-    }),
-
-    git_commit: tool({
-      description: 'Create a git commit',
-      inputSchema: z.object({
-        message: z.string().describe('Commit message'),
-        files: z.array(z.string()).optional().describe('Files to commit'),
-        cwd: z.string().optional().describe('Working directory')
-      }),
-      execute: async (args, _options: ToolExecutionOptions) => {
-        if (onToolCall) await onToolCall('git_commit', args);
-        const result = await executeTool('git_commit', args);
-        if (onToolResult) onToolResult('git_commit', result);
-        return typeof result === 'string' ? result : JSON.stringify(result);
-      }
-    })
+type ToolAuthorizer = (
+  name: string, args: any, toolCallId: string, preApproved?: boolean
+) => Promise<{ approved: boolean; reason?: string }>;
+type SubagentRunner = (task: SubagentTask, toolCallId: string, signal?: AbortSignal) => Promise<string>;
+type ToolResultHandler = (name: string, result: any, toolCallId: string) => void;
+
+// PreToolUse and PostToolUse hooks around a tool call
+interface ToolHooks {
+  before: (name: string, args: Record<string, any>, signal?: AbortSignal) => Promise<HookOutcome>;
+  after: (name: string, args: Record<string, any>, result: string, signal?: AbortSignal) => Promise<HookOutcome>;
+}
+
+// Run one tool call through hooks and the authorizer; a denial goes back to the model as a structured refusal
+async function runGatedTool(
+  name: string,
+  args: Record<string, any>,
+  options: ToolExecutionOptions,
+  gate: { authorize?: ToolAuthorizer; hooks?: ToolHooks; onToolResult?: ToolResultHandler },
+  execute: (args: Record<string, any>) => Promise<string | object>
+): Promise<string> {
+  const { toolCallId, abortSignal: signal } = options;
+  const { authorize, hooks, onToolResult } = gate;
+  const refuse = (reason: string): string => {
+    const refusal = createToolRefusal(name, reason);
+    if (onToolResult) onToolResult(name, refusal, toolCallId);
+    return JSON.stringify(refusal);
   };
+
+  // PreToolUse hooks may deny the call, rewrite its arguments or approve it without a prompt
+  const pre = hooks ? await hooks.before(name, args, signal) : undefined;
+  if (pre?.denied) return refuse(`Blocked by PreToolUse hook: ${pre.denied}`);
+  const callArgs = pre?.args || args;
+
+  if (authorize) {
+    const { approved, reason } = await authorize(name, callArgs, toolCallId, pre?.allowed);
+    if (!approved) return refuse(reason || 'Denied by user');
+  }
+
+  const result = await execute(callArgs);
+  const raw = typeof result === 'string' ? result : JSON.stringify(result);
+  let output = raw;
+
+  // PostToolUse hooks see the result and may replace it or add feedback for the model
+  const context = [...(pre?.context || [])];
+  if (hooks) {
+    const post = await hooks.after(name, callArgs, output, signal);
+    if (post.result !== undefined) output = post.result;
+    if (post.denied) context.push(post.denied);
+    context.push(...post.context);
+  }
+  if (context.length > 0) output += `\n\n[Hook feedback]\n${context.join('\n')}`;
+
+  if (onToolResult) onToolResult(name, output === raw ? result : output, toolCallId);
+  return output;
+}
+
+function createAiSdkTools(
+  authorize?: ToolAuthorizer,
+  onToolResult?: ToolResultHandler,
+  extras: {
+    runSubagent?: SubagentRunner;
+    planner?: Planner;
+    hooks?: ToolHooks;
+    shell?: ShellSession;
+    onToolOutput?: (toolCallId: string, chunk: string) => void;
+    maxOutputTokens?: number;
+  } = {}
+) {
+  const { runSubagent, planner, hooks, shell, onToolOutput, maxOutputTokens } = extras;
+  const runTool = (name: string, args: Record<string, any>, options: ToolExecutionOptions): Promise<string> => {
+    const { toolCallId, abortSignal: signal } = options;
+    return runGatedTool(name, args, options, { authorize, hooks, onToolResult }, (callArgs) =>
+      executeTool(name, callArgs, {
+        signal,
+        planner,
+        shell,
+        maxOutputTokens,
+        ...(onToolOutput && { onOutput: (chunk: string) => onToolOutput(toolCallId, chunk) }),
+        ...(runSubagent && { runSubagent: (task: SubagentTask) => runSubagent(task, toolCallId, signal) })
+      })
+    );
+  };
+
+  // Generated from the tool registry so schemas always match the executors
+  const tools: Record<string, Tool> = {};
+  for (const definition of toolDefinitions) {
+    tools[definition.name] = tool({
+      description: definition.description,
+      inputSchema: definition.schema,
+      execute: async (args: Record<string, any>, options: ToolExecutionOptions) =>
+        runTool(definition.name, args, options)
+    });
+  }
+  return tools;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -320,10 +275,207 @@ interface ExtendedChatCallbacks extends ChatCallbacks {
   onStepFinish?: (info: StepFinishInfo) => void;
 }
 
-// Message type for AI SDK
-interface AIMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+// What a turn has produced so far: kept if the turn is aborted, resumed from if a request is retried
+interface TurnProgress {
+  completedSteps: ResponseMessage[];
+  partialText: string;
+  usage: TokenUsage;
+  contextTokens: number;                          // Estimated prompt size when the turn started
+  endpoint: { provider: string; model: string };  // Provider serving the current request
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MESSAGE CONVERSION
+// ═══════════════════════════════════════════════════════════════════════════
+
+function parseToolArguments(args: string): unknown {
+  try {
+    return JSON.parse(args || '{}');
+  } catch (_e) {
+    return {};
+  }
+}
+
+// History (OpenAI-style Message) -> AI SDK ModelMessage, including tool calls and results
+// Images are sent as image parts when the model has vision, otherwise as a text note
+function toModelMessages(history: Message[], options: { images: boolean } = { images: true }): ModelMessage[] {
+  const messages: ModelMessage[] = [];
+
+  for (const msg of history) {
+    if (msg.role === 'user') {
+      if (!msg.images?.length) {
+        messages.push({ role: 'user', content: msg.content });
+        continue;
+      }
+      messages.push({
+        role: 'user',
+        content: [
+          { type: 'text' as const, text: msg.content },
+          ...msg.images.map(image => {
+            const data = options.images ? readImage(image) : null;
+            if (data) {
+              return { type: 'image' as const, image: data, mediaType: image.mediaType };
+            }
+            const reason = options.images ? 'file no longer available' : 'not sent, model has no vision support';
+            return { type: 'text' as const, text: `[Image ${image.name}: ${reason}]` };
+          })
+        ]
+      });
+    } else if (msg.role === 'assistant') {
+      if (!msg.tool_calls?.length) {
+        messages.push({ role: 'assistant', content: msg.content });
+        continue;
+      }
+      messages.push({
+        role: 'assistant',
+        content: [
+          ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : []),
+          ...msg.tool_calls.map(call => ({
+            type: 'tool-call' as const,
+            toolCallId: call.id,
+            toolName: call.function.name,
+            input: parseToolArguments(call.function.arguments)
+          }))
+        ]
+      });
+    } else if (msg.role === 'tool' && msg.tool_call_id) {
+      messages.push({
+        role: 'tool',
+        content: [{
+          type: 'tool-result',
+          toolCallId: msg.tool_call_id,
+          toolName: msg.name || 'unknown',
+          output: { type: msg.is_error ? 'error-text' : 'text', value: msg.content }
+        }]
+      });
+    }
+  }
+
+  return messages;
+}
+
+function toolOutputToText(output: unknown): string {
+  const out = output as { type: string; value?: unknown; reason?: string };
+  switch (out.type) {
+    case 'text':
+    case 'error-text':
+      return String(out.value ?? '');
+    case 'execution-denied':
+      return out.reason || 'Tool execution denied';
+    case 'content':
+      return (out.value as Array<{ type: string; text?: string }>)
+        .map(part => part.type === 'text' ? part.text : `[${part.type}]`)
+        .join('\n');
+    default:
+      return JSON.stringify(out.value);
+  }
+}
+
+type ResponseMessage = AssistantModelMessage | ToolModelMessage;
+
+// AI SDK response messages (one assistant + one tool message per step) -> history entries
+function fromResponseMessages(messages: ResponseMessage[]): Message[] {
+  const history: Message[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'assistant') {
+      if (typeof msg.content === 'string') {
+        if (msg.content) history.push({ role: 'assistant', content: msg.content });
+        continue;
+      }
+      let text = '';
+      const toolCalls: ToolCall[] = [];
+      for (const part of msg.content) {
+        if (part.type === 'text') {
+          text += part.text;
+        } else if (part.type === 'tool-call') {
+          toolCalls.push({
+            id: part.toolCallId,
+            type: 'function',
+            function: { name: part.toolName, arguments: JSON.stringify(part.input ?? {}) }
+          });
+        }
+      }
+      if (!text && toolCalls.length === 0) continue;
+      history.push({
+        role: 'assistant',
+        content: text,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls })
+      });
+    } else {
+      for (const part of msg.content) {
+        if (part.type !== 'tool-result') continue;
+        const isError = part.output.type === 'error-text' || part.output.type === 'error-json';
+        history.push({
+          role: 'tool',
+          content: toolOutputToText(part.output),
+          tool_call_id: part.toolCallId,
+          name: part.toolName,
+          ...(isError && { is_error: true })
+        });
+      }
+    }
+  }
+
+  return history;
+}
+
+// Plain-text transcript of history messages for the compaction summary
+function formatTranscript(messages: Message[], model: string): string {
+  return messages.map(msg => {
+    if (msg.role === 'tool') {
+      const result = truncateToTokenLimit(msg.content, COMPACT_TOOL_RESULT_TOKENS, model);
+      return `[${msg.name || 'tool'} result${msg.is_error ? ' (error)' : ''}]\n${result}`;
+    }
+    const calls = (msg.tool_calls || [])
+      .map(call => `[called ${call.function.name} ${call.function.arguments}]`)
+      .join('\n');
+    const images = (msg.images || []).map(image => `[attached image ${image.name}]`).join('\n');
+    const label = msg.role === 'user' ? 'User' : 'Assistant';
+    return [msg.content && `${label}: ${msg.content}`, images, calls].filter(Boolean).join('\n');
+  }).filter(Boolean).join('\n\n');
+}
+
+// Token estimate for messages, counting tool call names and arguments
+function estimateTokens(messages: Message[], model: string): number {
+  return countMessagesTokens(messages.map(msg => ({
+    role: msg.role,
+    content: msg.content + (msg.tool_calls || []).map(call => call.function.name + call.function.arguments).join('')
+  })), model);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// USAGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+function emptyUsage(): TokenUsage {
+  return {
+    totalTokens: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    cachedInputTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0,
+    cost: 0,
+    modelRequests: 0,
+    estimatedRequests: 0,
+    unpricedRequests: 0
+  };
+}
+
+function addUsage(target: TokenUsage, delta: TokenUsage): void {
+  for (const key of Object.keys(delta) as Array<keyof TokenUsage>) {
+    target[key] = (target[key] || 0) + delta[key];
+  }
+}
+
+// Token usage fields of an agent's stats, without the session counters
+function pickUsage(stats: AgentStats): TokenUsage {
+  const usage = emptyUsage();
+  for (const key of Object.keys(usage) as Array<keyof TokenUsage>) {
+    usage[key] = stats[key];
+  }
+  return usage;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -338,12 +490,28 @@ export class Agent {
   history: Message[];
   cwd: string;
   maxSteps: number;
+  retryPolicies: Record<string, Partial<RetryPolicy>>;
+  failover: ProviderEndpoint[];
+  reasoning: Record<string, ReasoningSetting>;  // Reasoning effort or thinking budget, by model id
+  bashOutputTokens?: number;       // Cap on bash output sent to the model (tool default when unset)
+  allowedTools: string[] | null;   // null = every built-in and MCP tool
+  planMode: boolean;               // Read-only tools only; the turn ends with a plan to approve
+  plan: Plan | null;               // Plan awaiting approval, or the approved plan being executed
+  sessionId: string;               // Names this session's checkpoint directory
   stats: AgentStats;
   projectContext: { file: string; content: string } | null;
   systemPrompt!: string;
   private _apiKey?: string;
   private _baseUrl?: string;
   private _baseSystemPrompt: string;
+  private _permissionQueue: Promise<unknown> = Promise.resolve();
+  private _checkpoints: boolean;
+  private _pendingNote: string | null = null;   // Told to the model with the next user message
+  private _sessionHooks: boolean;
+  private _sessionStart: HookInput['source'] | null = 'startup';  // SessionStart hooks still to run
+  private _sessionContext = '';                                    // Added by SessionStart hooks
+  private _attachedContext = '';                                   // Files attached in the UI, sent once per request
+  private _shell: ShellSession | null = null;                      // Started by the first bash call
 
   constructor(options: Partial<AgentOptions> = {}) {
     this.provider = options.provider || 'openai';
@@ -355,14 +523,24 @@ export class Agent {
     this.history = [];
     this.cwd = options.cwd || process.cwd();
     this.maxSteps = (options as any).maxSteps || DEFAULT_MAX_STEPS;
+    this.retryPolicies = options.retryPolicies || {};
+    this.failover = options.failover || [];
+    this.reasoning = { ...options.reasoning };
+    this.bashOutputTokens = options.bashOutputTokens;
+    this.allowedTools = options.tools || null;
+    this.planMode = options.planMode || false;
+    this.plan = null;
+    this.sessionId = createSessionId();
+    this._checkpoints = options.checkpoints !== false;
+    this._sessionHooks = options.sessionHooks !== false;
 
     this.stats = {
-      totalTokens: 0,
-      promptTokens: 0,
-      completionTokens: 0,
+      ...emptyUsage(),
       requests: 0,
       toolCalls: 0,
-      startTime: Date.now()
+      startTime: Date.now(),
+      retries: 0,
+      failovers: 0
     };
 
     this.projectContext = loadProjectContext(this.cwd);
@@ -380,6 +558,24 @@ export class Agent {
   get baseUrl(): string | undefined { return this._baseUrl; }
   set baseUrl(value: string | undefined) { this._baseUrl = value; }
 
+  // Persistent shell for the bash tool; cd and exports carry over between calls
+  get shell(): ShellSession {
+    if (!this._shell) this._shell = new ShellSession(this.cwd);
+    return this._shell;
+  }
+
+  // Stop the shell; the next bash call starts a fresh one in the agent's cwd
+  closeShell(): void {
+    this._shell?.close();
+    this._shell = null;
+  }
+
+  // Reasoning effort or thinking budget for a model; null goes back to the model's default
+  setReasoning(model: string, setting: ReasoningSetting | null): void {
+    if (setting) this.reasoning[model] = setting;
+    else delete this.reasoning[model];
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // SYSTEM PROMPT
   // ═══════════════════════════════════════════════════════════════════════════
@@ -389,7 +585,7 @@ export class Agent {
 
     // Add MCP Tools to system prompt so AI knows they exist
     const mcpManager = getMCPManager();
-    const mcpTools = mcpManager.getToolsForAI();
+    const mcpTools = mcpManager.getToolsForAI().filter(t => this._isToolAllowed(t.function.name));
     if (mcpTools.length > 0) {
       systemPrompt += `\n\nYou also have access to these external tools (MCP):\n`;
       mcpTools.forEach(t => {
@@ -401,40 +597,263 @@ export class Agent {
       systemPrompt += `\n\n## Project Context (from ${this.projectContext.file}):\n${this.projectContext.content}`;
     }
 
+    if (this._sessionContext) {
+      systemPrompt += `\n\n## Session Context (from SessionStart hooks):\n${this._sessionContext}`;
+    }
+
+    if (this._attachedContext) {
+      systemPrompt += `\n\n## Attached Files\n${this._attachedContext}`;
+    }
+
     const skillsManager = getSkillsManager();
     const skillsContext = skillsManager.getSkillsContext();
     if (skillsContext) {
       systemPrompt += skillsContext;
     }
 
+    if (this.planMode) {
+      systemPrompt += PLAN_MODE_PROMPT;
+    } else if (this.plan?.approved) {
+      systemPrompt += `\n\n## Approved Plan\n${this.plan.summary}\n${formatPlanSteps(this.plan, { details: true })}\n` +
+        'Work through the steps in order. Call update_plan with in_progress when you start a step and done when it is finished.';
+    }
+
     this.systemPrompt = systemPrompt;
   }
 
+  // Attached files live in the system prompt, replaced on every change, so history
+  // messages don't each carry a copy of their contents
+  setAttachedContext(context: string): void {
+    if (context === this._attachedContext) return;
+    this._attachedContext = context;
+    this._buildSystemPrompt();
+  }
+
   refreshSystemPrompt(): void {
     this._buildSystemPrompt();
   }
 
+  private _isToolAllowed(name: string): boolean {
+    if (this.allowedTools && !this.allowedTools.includes(name)) return false;
+    if (this.planMode) return PLAN_MODE_TOOLS.includes(name);
+    if (name === 'submit_plan') return false;
+    if (name === 'update_plan') return !!this.plan?.approved;
+    return true;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PLAN MODE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  setPlanMode(enabled: boolean): void {
+    this.planMode = enabled;
+    this._buildSystemPrompt();
+  }
+
+  // Switch to execution with the plan (as submitted, or as edited by the user) pinned into the system prompt
+  approvePlan(plan: Plan | null = this.plan): void {
+    if (!plan) return;
+    this.plan = { ...plan, steps: plan.steps.map(s => ({ ...s })), approved: true };
+    this.planMode = false;
+    this._buildSystemPrompt();
+  }
+
+  // Drop the plan; plan mode stays on so the model can plan again
+  rejectPlan(): void {
+    this.plan = null;
+    this._buildSystemPrompt();
+  }
+
+  clearPlan(): void {
+    this.plan = null;
+    this._buildSystemPrompt();
+  }
+
+  // Backs the plan tools for one turn: submit_plan in plan mode, update_plan while an approved plan runs
+  private _createPlanner(callbacks: ExtendedChatCallbacks): Planner | undefined {
+    const { onPlanUpdate } = callbacks;
+    if (this.planMode) {
+      return {
+        submit: (summary, steps) => {
+          this.plan = { summary, steps: steps.map(s => ({ ...s, status: 'pending' as const })), approved: false };
+          return 'Plan submitted. The user will approve, edit or reject it. Stop here without making changes.';
+        },
+        update: () => 'Error: There is no approved plan to update'
+      };
+    }
+    const plan = this.plan;
+    if (!plan?.approved) return undefined;
+    return {
+      submit: () => 'Error: submit_plan is only available in plan mode',
+      update: (step: number, status: PlanStepStatus, note?: string) => {
+        const target = plan.steps[step - 1];
+        if (!target) {
+          return `Error: The plan has no step ${step} (steps 1-${plan.steps.length})`;
+        }
+        target.status = status;
+        if (note) target.note = note;
+        this._buildSystemPrompt();
+        if (onPlanUpdate) onPlanUpdate({ ...plan, steps: plan.steps.map(s => ({ ...s })) });
+        return `Step ${step} is now ${status}.\n${formatPlanSteps(plan)}`;
+      }
+    };
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // HISTORY MANAGEMENT
   // ═══════════════════════════════════════════════════════════════════════════
 
   clearHistory(): void {
     this.history = [];
+    this._sessionStart = 'clear';
   }
 
-  trimHistory(maxMessages: number = 20): void {
-    if (this.history.length > maxMessages) {
-      this.history = this.history.slice(-maxMessages);
+  private _convertToAIMessages(): ModelMessage[] {
+    return toModelMessages(this.history, { images: supportsVision(this.model, this.provider) });
+  }
+
+  // Append the full step transcript (text, tool calls, tool results) of a finished turn
+  private _appendResponse(messages: ResponseMessage[], fallbackText: string): void {
+    const entries = fromResponseMessages(messages);
+    if (entries.length > 0) {
+      this.history.push(...entries);
+    } else if (fallbackText) {
+      this.history.push({ role: 'assistant', content: fallbackText });
+    }
+  }
+
+  // Keep what a cancelled turn produced: finished steps (text, tool calls, tool results) and the partial text
+  private _appendAborted(completedSteps: ResponseMessage[], partialText: string): void {
+    this.history.push(...fromResponseMessages(completedSteps));
+    const text = partialText.trim();
+    this.history.push({ role: 'assistant', content: text ? `${text}\n\n${INTERRUPTED_MARKER}` : INTERRUPTED_MARKER });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CHECKPOINTS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  listCheckpoints(): Checkpoint[] {
+    if (!this._checkpoints) return [];
+    const checkpoints = getCheckpointManager();
+    checkpoints.setSession(this.sessionId);
+    return checkpoints.list();
+  }
+
+  // Revert the file changes of the last turn that made any; the model hears about it with the next message
+  undo(): RestoreResult | null {
+    if (!this._checkpoints) return null;
+    const checkpoints = getCheckpointManager();
+    checkpoints.setSession(this.sessionId);
+    const result = checkpoints.undo();
+    if (result) {
+      const files = [...result.restored, ...result.deleted].map(f => path.relative(this.cwd, f) || f);
+      this._pendingNote = `[The user undid your file changes from turn ${result.checkpoint.turn}: ${files.join(', ') || 'no files'}]`;
     }
+    return result;
+  }
+
+  // Restore files and conversation to just before the given turn. If compaction already folded
+  // that turn into the summary, only the files are restored.
+  rewind(checkpointId: string): (RestoreResult & { conversationRestored: boolean }) | null {
+    if (!this._checkpoints) return null;
+    const checkpoints = getCheckpointManager();
+    checkpoints.setSession(this.sessionId);
+    const result = checkpoints.rewind(checkpointId);
+    if (!result) return null;
+
+    const index = this.history.findIndex(m => m.role === 'user' && m.checkpointId === checkpointId);
+    if (index !== -1) {
+      this.history = this.history.slice(0, index);
+      this._pendingNote = null;
+    }
+    return { ...result, conversationRestored: index !== -1 };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CONTEXT COMPACTION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  // Estimated prompt size: system prompt plus history, including tool call arguments
+  estimateContextTokens(): number {
+    return estimateTokens([{ role: 'system', content: this.systemPrompt }, ...this.history], this.model);
   }
 
-  private _convertToAIMessages(): AIMessage[] {
-    return this.history
-      .filter(msg => msg.role === 'user' || msg.role === 'assistant')
-      .map(msg => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content
-      }));
+  needsCompaction(): boolean {
+    return this.estimateContextTokens() > getContextWindow(this.model) * COMPACT_THRESHOLD;
+  }
+
+  // Summarize older turns into a pinned summary message.
+  // The original task (first user message) and the last `keepTurns` turns stay verbatim.
+  async compactHistory(keepTurns: number = COMPACT_KEEP_TURNS, signal?: AbortSignal): Promise<CompactResult> {
+    const tokensBefore = this.estimateContextTokens();
+    const notCompacted = (reason: string): CompactResult => ({
+      compacted: false,
+      tokensBefore,
+      tokensAfter: tokensBefore,
+      summarizedMessages: 0,
+      reason
+    });
+
+    const turnStarts = this.history
+      .map((msg, i) => (msg.role === 'user' ? i : -1))
+      .filter(i => i !== -1);
+    if (turnStarts.length < 2) {
+      return notCompacted('Not enough conversation to compact');
+    }
+
+    const taskEnd = turnStarts[0] + 1;
+    const recentStart = turnStarts[Math.max(1, turnStarts.length - Math.max(1, keepTurns))];
+    const older = this.history.slice(taskEnd, recentStart);
+    if (older.length === 0) {
+      return notCompacted('Not enough conversation to compact');
+    }
+
+    try {
+      const model = createModel(this.provider, this.model, {
+        apiKey: this._apiKey,
+        baseUrl: this._baseUrl
+      });
+
+      // Leave room in the summarizer's own context window
+      const transcript = truncateToTokenLimit(
+        formatTranscript(older, this.model),
+        Math.floor(getContextWindow(this.model) * 0.6),
+        this.model
+      );
+
+      const prompt = `Original task:\n${this.history[turnStarts[0]].content}\n\nConversation to summarize:\n${transcript}`;
+      const { text, usage } = await generateText({
+        model,
+        system: COMPACT_SYSTEM_PROMPT,
+        abortSignal: signal,
+        messages: [{ role: 'user', content: prompt }]
+      });
+      this._recordUsage(usage, { provider: this.provider, model: this.model }, {
+        input: () => countTokens(COMPACT_SYSTEM_PROMPT + prompt, this.model),
+        output: () => countTokens(text, this.model)
+      });
+
+      if (!text.trim()) {
+        return notCompacted('Summary was empty');
+      }
+
+      this.history = [
+        ...this.history.slice(0, taskEnd),
+        { role: 'assistant', content: `[Summary of earlier conversation]\n${text.trim()}`, pinned: true },
+        ...this.history.slice(recentStart)
+      ];
+
+      return {
+        compacted: true,
+        tokensBefore,
+        tokensAfter: this.estimateContextTokens(),
+        summarizedMessages: older.length
+      };
+    } catch (e) {
+      const error = e as Error;
+      return notCompacted(`Summary failed: ${error.message}`);
+    }
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -450,7 +869,9 @@ export class Agent {
       model: this.model,
       history: this.history,
       stats: this.stats,
-      summary: this.generateSummary()
+      summary: this.generateSummary(),
+      plan: this.plan?.approved ? this.plan : null,
+      sessionId: this.sessionId
     };
 
     try {
@@ -473,6 +894,10 @@ export class Agent {
       const data = JSON.parse(fs.readFileSync(sessionPath, 'utf-8')) as Session;
       this.history = data.history || [];
       this.stats = { ...this.stats, ...data.stats };
+      this.plan = data.plan || null;
+      if (data.sessionId) this.sessionId = data.sessionId;
+      this._sessionStart = 'resume';
+      this._buildSystemPrompt();
       return {
         success: true,
         savedAt: data.savedAt,
@@ -524,80 +949,208 @@ export class Agent {
   // CHAT - AI SDK Powered
   // ═══════════════════════════════════════════════════════════════════════════
 
-  async chat(userMessage: string, callbacks: ExtendedChatCallbacks = {}): Promise<void> {
+  // Run one turn. Aborting options.signal stops the model request and running tools;
+  // the partial turn stays in history and onAbort is called instead of onEnd/onError.
+  async chat(userMessage: string, callbacks: ExtendedChatCallbacks = {}, options: ChatOptions = {}): Promise<void> {
     const {
-      onStart,
-      onToken,
-      onToolCall,
       onToolResult,
+      onCompact,
+      onAbort,
       onEnd,
-      onError
+      onError,
+      onPlan,
+      onHookError
     } = callbacks;
+    const { signal, images = [] } = options;
+
+    if (images.length > 0 && !supportsVision(this.model, this.provider)) {
+      const error = new Error(
+        `${this.model} does not accept images. Switch to a vision-capable model (e.g. gpt-4o, claude-sonnet-4, gemini-2.5-flash) with /model`
+      );
+      if (onError) {
+        onError(error);
+        return;
+      }
+      throw error;
+    }
+
+    // SessionStart hooks add context for the whole session; UserPromptSubmit hooks can block,
+    // rewrite or add to the prompt
+    if (this._sessionHooks) {
+      const hooks = getHookManager();
+      if (this._sessionStart) {
+        hooks.reload(this.cwd);
+        await this._confirmProjectHooks(callbacks);
+        const started = await hooks.run(this._hookInput({ event: 'SessionStart', source: this._sessionStart }), onHookError, signal);
+        this._sessionStart = null;
+        this._sessionContext = started.context.join('\n\n');
+        this._buildSystemPrompt();
+      }
+
+      const submitted = await hooks.run(this._hookInput({ event: 'UserPromptSubmit', prompt: userMessage }), onHookError, signal);
+      if (submitted.denied) {
+        const error = new Error(`Prompt blocked by hook: ${submitted.denied}`);
+        if (onError) {
+          onError(error);
+          return;
+        }
+        throw error;
+      }
+      if (submitted.prompt !== undefined) userMessage = submitted.prompt;
+      if (submitted.context.length > 0) userMessage += `\n\n[Hook context]\n${submitted.context.join('\n')}`;
+    }
+
+    // Snapshot files this turn changes, so /undo and /rewind can restore them
+    let checkpointId: string | undefined;
+    if (this._checkpoints) {
+      const checkpoints = getCheckpointManager();
+      checkpoints.setSession(this.sessionId);
+      checkpointId = checkpoints.beginTurn(userMessage).id;
+    }
 
     // Add user message to history
-    this.history.push({ role: 'user', content: userMessage });
-    this.trimHistory();
+    const content = this._pendingNote ? `${this._pendingNote}\n\n${userMessage}` : userMessage;
+    this._pendingNote = null;
+    this.history.push({
+      role: 'user',
+      content,
+      ...(images.length > 0 && { images }),
+      ...(checkpointId && { checkpointId })
+    });
     this.stats.requests++;
 
     try {
-      // Count input tokens
-      const inputTokens = countTokens(userMessage + this.systemPrompt, this.model);
-      this.stats.promptTokens += inputTokens;
+      // Compact older turns when the context window is filling up
+      if (this.needsCompaction()) {
+        let compactResult = await this.compactHistory(COMPACT_KEEP_TURNS, signal);
+        if (compactResult.compacted && this.needsCompaction()) {
+          // Recent turns alone are still too large; keep only the current one
+          const again = await this.compactHistory(1, signal);
+          if (again.compacted) {
+            compactResult = {
+              ...again,
+              tokensBefore: compactResult.tokensBefore,
+              summarizedMessages: compactResult.summarizedMessages + again.summarizedMessages
+            };
+          }
+        }
+        if (onCompact) onCompact(compactResult);
+      }
 
-      // Create model for this request
-      const model = createModel(this.provider, this.model, {
-        apiKey: this._apiKey,
-        baseUrl: this._baseUrl
+      const turn: TurnProgress = {
+        completedSteps: [],
+        partialText: '',
+        usage: emptyUsage(),
+        contextTokens: this.estimateContextTokens(),
+        endpoint: { provider: this.provider, model: this.model }
+      };
+      this.stats.lastTurn = turn.usage;
+
+      // 1. Create Built-in Tools (every call is checked against the permission policy)
+      const authorize = (name: string, args: Record<string, any>, toolCallId: string, preApproved?: boolean) =>
+        this._authorizeTool(name, args, toolCallId, callbacks, preApproved, signal);
+      const runSubagent = (task: SubagentTask, toolCallId: string, taskSignal?: AbortSignal) =>
+        this._runSubagent(task, toolCallId, callbacks, turn, taskSignal);
+      const planner = this._createPlanner(callbacks);
+      const planBefore = this.plan;
+      const hooks = this._createToolHooks(callbacks);
+      const builtInTools = createAiSdkTools(authorize, onToolResult, {
+        runSubagent,
+        planner,
+        hooks,
+        shell: this.shell,
+        onToolOutput: callbacks.onToolOutput,
+        maxOutputTokens: this.bashOutputTokens
       });
 
-      // 1. Create Built-in Tools
-      const builtInTools = createAiSdkTools(
-        async (name, args) => {
-          if (onToolCall) {
-            return await onToolCall(name, args);
-          }
-          return this.yolo; // Auto-approve if yolo mode
-        },
-        onToolResult
-      );
-
       // 2. Create MCP Tools (Dynamic)
       const mcpManager = getMCPManager();
       const mcpToolsList = mcpManager.getToolsForAI();
-      const mcpTools: Record<string, any> = {};
+      const mcpTools: Record<string, Tool> = {};
 
       for (const t of mcpToolsList) {
+        if (!this._isToolAllowed(t.function.name)) continue;
         mcpTools[t.function.name] = tool({
           description: t.function.description || 'MCP Tool',
-          parameters: z.object({}).passthrough(), // Flexible schema
-          execute: async (args: any, _options: any) => {
-            if (onToolCall) {
-              await onToolCall(t.function.name, args);
+          // The server's JSON Schema goes to the provider as-is; invalid arguments go back to the model as a tool error
+          inputSchema: jsonSchema<Record<string, unknown>>(t.function.parameters as JSONSchema7, {
+            validate: (value) => {
+              const error = mcpManager.validateToolArgs(t.function.name, value);
+              return error
+                ? { success: false, error: new Error(error) }
+                : { success: true, value: value as Record<string, unknown> };
             }
-            const result = await executeTool(t.function.name, args);
-            if (onToolResult) {
-              onToolResult(t.function.name, result);
-            }
-            return typeof result === 'string' ? result : JSON.stringify(result);
-          }
-        } as any);
+          }),
+          execute: (args: Record<string, unknown>, options: ToolExecutionOptions) =>
+            runGatedTool(t.function.name, args, options, { authorize, hooks, onToolResult }, (callArgs) =>
+              executeTool(t.function.name, callArgs, { signal: options.abortSignal })
+            )
+        });
       }
 
-      // Merge all tools
-      const tools = { ...builtInTools, ...mcpTools };
+      // Merge all tools, keeping only those this agent may use
+      const tools = Object.fromEntries(
+        Object.entries({ ...builtInTools, ...mcpTools }).filter(([name]) => this._isToolAllowed(name))
+      );
 
-      const messages = this._convertToAIMessages();
+      // A Stop hook can deny the stop; its reason goes back to the model and the turn continues
+      for (let continuations = 0; ; continuations++) {
+        if (continuations > 0) {
+          turn.completedSteps = [];
+          turn.contextTokens = this.estimateContextTokens();
+        }
+        const messages = this._convertToAIMessages();
+
+        try {
+          if (signal?.aborted) throw signal.reason;
+          await this._runWithFailover(turn, callbacks, signal, async (model) => {
+            if (this.stream) {
+              await this._streamChat(model, messages, tools, callbacks, turn, signal);
+            } else {
+              await this._generateChat(model, messages, tools, callbacks, turn, signal);
+            }
+          });
+        } catch (err) {
+          if (!signal?.aborted) throw err;
+        }
 
-      if (this.stream) {
-        await this._streamChat(model, messages, tools, callbacks);
-      } else {
-        await this._generateChat(model, messages, tools, callbacks);
+        if (signal?.aborted) {
+          // The interrupted request reports no usage; estimate what was streamed
+          if (turn.partialText) this._recordStep(turn, undefined, turn.partialText);
+          this._appendAborted(turn.completedSteps, turn.partialText);
+          if (onAbort) onAbort();
+          return;
+        }
+
+        if (!this._sessionHooks || continuations >= MAX_STOP_HOOK_CONTINUATIONS) break;
+        const answer = this.history[this.history.length - 1];
+        const stop = await getHookManager().run(this._hookInput({
+          event: 'Stop',
+          response: answer?.role === 'assistant' ? answer.content : '',
+          stopHookActive: continuations > 0
+        }), onHookError, signal);
+        if (!stop.denied || signal?.aborted) break;
+        this.history.push({ role: 'user', content: `[Stop hook] ${stop.denied}` });
       }
 
       if (onEnd) onEnd();
 
+      // Plan mode: the plan comes from submit_plan, or from a numbered list in the answer
+      if (this.planMode) {
+        if (this.plan === planBefore) {
+          const answer = this.history[this.history.length - 1];
+          const parsed = answer?.role === 'assistant' ? parsePlanFromText(answer.content) : null;
+          if (parsed) this.plan = parsed;
+        }
+        if (this.plan && this.plan !== planBefore && onPlan) onPlan(this.plan);
+      }
+
     } catch (err) {
-      if (onError) {
+      if (signal?.aborted) {
+        // Cancelled before the model was called (e.g. during compaction)
+        this._appendAborted([], '');
+        if (onAbort) onAbort();
+      } else if (onError) {
         onError(err as Error);
       } else {
         throw err;
@@ -605,6 +1158,336 @@ export class Agent {
     }
   }
 
+  // Add one model request to the session stats (and a turn's, when given). Provider-reported
+  // usage is used when present; tiktoken estimates fill in what the provider leaves out.
+  private _recordUsage(
+    usage: LanguageModelUsage | undefined,
+    endpoint: { provider: string; model: string },
+    estimate: { input: () => number; output: () => number; reasoning?: () => number },
+    turnUsage?: TokenUsage
+  ): void {
+    const reported = usage?.inputTokens !== undefined || usage?.outputTokens !== undefined;
+    const promptTokens = usage?.inputTokens ?? estimate.input();
+    const completionTokens = usage?.outputTokens ?? estimate.output();
+    const cachedInputTokens = usage?.inputTokenDetails?.cacheReadTokens ?? 0;
+    const cacheWriteTokens = usage?.inputTokenDetails?.cacheWriteTokens ?? 0;
+    const pricing = getModelPricing(endpoint.model, endpoint.provider);
+
+    const delta: TokenUsage = {
+      totalTokens: promptTokens + completionTokens,
+      promptTokens,
+      completionTokens,
+      cachedInputTokens,
+      cacheWriteTokens,
+      // Providers that stream reasoning text do not always count it
+      reasoningTokens: usage?.outputTokenDetails?.reasoningTokens || estimate.reasoning?.() || 0,
+      cost: pricing
+        ? calculateCost({ inputTokens: promptTokens, outputTokens: completionTokens, cachedInputTokens, cacheWriteTokens }, pricing)
+        : 0,
+      modelRequests: 1,
+      estimatedRequests: reported ? 0 : 1,
+      unpricedRequests: pricing ? 0 : 1
+    };
+
+    addUsage(this.stats, delta);
+    if (turnUsage) addUsage(turnUsage, delta);
+  }
+
+  // Record one step of a turn; estimates count the turn's prompt plus the steps before this one
+  private _recordStep(turn: TurnProgress, usage: LanguageModelUsage | undefined, text: string, reasoningText = ''): void {
+    const model = turn.endpoint.model;
+    this._recordUsage(usage, turn.endpoint, {
+      input: () => turn.contextTokens + estimateTokens(fromResponseMessages(turn.completedSteps), model),
+      output: () => countTokens(text + reasoningText, model),
+      reasoning: () => (reasoningText ? countTokens(reasoningText, model) : 0)
+    }, turn.usage);
+  }
+
+  // Provider options for the model's reasoning setting, when it takes one
+  private _reasoningOptions(endpoint: { provider: string; model: string }): ProviderOptions | undefined {
+    const setting = this.reasoning[endpoint.model];
+    const mode = setting ? getReasoningMode(endpoint.model, endpoint.provider) : null;
+    if (mode === 'budget' && setting?.budgetTokens && endpoint.provider === 'anthropic') {
+      return { anthropic: { thinking: { type: 'enabled', budgetTokens: setting.budgetTokens } } };
+    }
+    if (mode === 'effort' && setting?.effort) {
+      return { openai: { reasoningEffort: setting.effort } };
+    }
+    return undefined;
+  }
+
+  // Primary provider first, then the failover chain (skipping entries that repeat the primary)
+  private _endpoints(): ProviderEndpoint[] {
+    const primary: ProviderEndpoint = {
+      provider: this.provider,
+      model: this.model,
+      apiKey: this._apiKey,
+      baseUrl: this._baseUrl,
+      retry: this.retryPolicies[this.provider]
+    };
+    const rest = this.failover.filter(e => !(e.provider === primary.provider && e.model === primary.model));
+    return [primary, ...rest];
+  }
+
+  // Run a model request, retrying transient failures with backoff and then moving down the failover chain.
+  // A retry resumes after the turn's finished steps; once text of the current step has streamed, errors are final.
+  private async _runWithFailover(
+    turn: TurnProgress,
+    callbacks: ExtendedChatCallbacks,
+    signal: AbortSignal | undefined,
+    run: (model: ReturnType<typeof createModel>) => Promise<void>
+  ): Promise<void> {
+    const { onRetry } = callbacks;
+    const endpoints = this._endpoints();
+
+    for (let i = 0; i < endpoints.length; i++) {
+      const endpoint = endpoints[i];
+      const next = endpoints[i + 1];
+      const policy = resolveRetryPolicy(endpoint.retry);
+      const model = createModel(endpoint.provider, endpoint.model, {
+        apiKey: endpoint.apiKey,
+        baseUrl: endpoint.baseUrl,
+        timeoutMs: policy.timeoutMs
+      });
+
+      for (let attempt = 1; ; attempt++) {
+        turn.partialText = '';
+        turn.endpoint = { provider: endpoint.provider, model: endpoint.model };
+        try {
+          await run(model);
+          this.stats.answeredBy = { provider: endpoint.provider, model: endpoint.model };
+          return;
+        } catch (err) {
+          if (signal?.aborted || turn.partialText || !isRetryableError(err)) throw err;
+
+          const info = {
+            provider: endpoint.provider,
+            model: endpoint.model,
+            attempt,
+            maxAttempts: policy.maxAttempts,
+            error: describeError(err)
+          };
+
+          // A Retry-After beyond the backoff cap means this provider is out for a while
+          const retryAfter = getRetryAfterMs(err);
+          const skip = next && retryAfter !== null && retryAfter > policy.maxDelayMs;
+          if (attempt < policy.maxAttempts && !skip) {
+            const delayMs = Math.min(retryAfter ?? computeBackoff(attempt, policy), policy.maxDelayMs);
+            this.stats.retries++;
+            if (onRetry) onRetry({ ...info, delayMs });
+            await sleep(delayMs, signal);
+            continue;
+          }
+
+          if (!next) throw err;
+          this.stats.failovers++;
+          if (onRetry) onRetry({ ...info, delayMs: 0, failoverTo: { provider: next.provider, model: next.model } });
+          break;
+        }
+      }
+    }
+  }
+
+  // maxSteps = 0 means unlimited (a very high step count); a submitted plan ends the turn
+  private _stopConditions() {
+    const steps = stepCountIs(this.maxSteps === 0 ? 1000000 : this.maxSteps || 50);
+    return this.planMode ? [steps, hasToolCall('submit_plan')] : steps;
+  }
+
+  // Resolve a tool call against the permission policy, asking the user when required.
+  // A PreToolUse hook's approval skips the prompt, but deny rules still apply.
+  private async _authorizeTool(
+    name: string,
+    args: Record<string, any>,
+    toolCallId: string,
+    callbacks: ExtendedChatCallbacks,
+    preApproved = false,
+    signal?: AbortSignal
+  ): Promise<{ approved: boolean; reason?: string }> {
+    const { onToolCall, onPermissionRequest, onWarning } = callbacks;
+    const permissions = getPermissionManager();
+    const decision = permissions.check(name, args, this.cwd, this.shell.cwd);
+    const reportWarnings = () => permissions.takeWarnings().forEach(warning => onWarning?.(warning));
+    reportWarnings();
+
+    if (decision.action === 'deny') {
+      return { approved: false, reason: `Blocked by permission policy: ${decision.reason}` };
+    }
+
+    // YOLO auto-approves policy defaults, but explicit argument rules still ask
+    const needsApproval = decision.action === 'ask' && !preApproved && !(this.yolo && !decision.rule);
+    if (needsApproval) {
+      if (!onPermissionRequest) {
+        return { approved: false, reason: `Requires approval (${decision.reason}) and no approval prompt is available` };
+      }
+      const answer = await this._askInTurn(
+        () => onPermissionRequest({ toolName: name, args, reason: decision.reason, signal }),
+        signal
+      );
+      // An answer that arrives after Ctrl+C/Esc must not run the tool
+      if (answer === 'deny' || signal?.aborted) {
+        return { approved: false, reason: signal?.aborted ? 'Interrupted by user' : 'Denied by user' };
+      }
+      if (answer === 'always' && !permissions.allowAlways(name)) {
+        reportWarnings();
+      }
+    }
+
+    if (onToolCall) {
+      const approved = await onToolCall(name, args, toolCallId);
+      if (approved === false) {
+        return { approved: false, reason: 'Denied by user' };
+      }
+    }
+
+    return { approved: true };
+  }
+
+  // A repository's .zesbe/hooks.json runs shell commands (and PreToolUse hooks can skip approval prompts),
+  // so it stays off until the user trusts that version of the file
+  private async _confirmProjectHooks(callbacks: ExtendedChatCallbacks): Promise<void> {
+    const { onHookTrustRequest, onWarning } = callbacks;
+    const hooks = getHookManager();
+    const request = hooks.getUntrustedProjectHooks();
+    if (!request || hooks.isDeclined(request)) return;
+
+    if (!onHookTrustRequest) {
+      onWarning?.(`Project hooks in ${request.file} are not trusted and will not run; start an interactive session here to trust them`);
+      return;
+    }
+    const trusted = await onHookTrustRequest(request);
+    if (!hooks.setProjectHooksTrust(request, trusted)) {
+      onWarning?.(`Could not save hook trust to ${TRUSTED_HOOKS_FILE}; trusted for this session only`);
+    }
+    if (!trusted) onWarning?.(`Project hooks in ${request.file} will not run in this session`);
+  }
+
+  private _hookInput(input: Omit<HookInput, 'sessionId' | 'cwd'>): HookInput {
+    return { ...input, sessionId: this.sessionId, cwd: this.cwd };
+  }
+
+  private _createToolHooks(callbacks: ExtendedChatCallbacks): ToolHooks {
+    const hooks = getHookManager();
+    const { onHookError } = callbacks;
+    return {
+      before: (toolName, args, signal) =>
+        hooks.run(this._hookInput({ event: 'PreToolUse', toolName, args }), onHookError, signal),
+      after: (toolName, args, result, signal) =>
+        hooks.run(this._hookInput({ event: 'PostToolUse', toolName, args, result }), onHookError, signal)
+    };
+  }
+
+  // Tool calls (and subagents) run concurrently; the user answers one permission prompt at a time.
+  // Prompts still queued when the turn is interrupted are denied without being shown.
+  private _askInTurn(ask: () => Promise<PermissionAnswer>, signal?: AbortSignal): Promise<PermissionAnswer> {
+    const askUnlessAborted = (): Promise<PermissionAnswer> => signal?.aborted ? Promise.resolve('deny') : ask();
+    const answer = this._permissionQueue.then(askUnlessAborted, askUnlessAborted);
+    this._permissionQueue = answer.catch(() => undefined);
+    return answer;
+  }
+
+  // Run a task in a child agent with its own history and tool subset. Only the final report
+  // goes back to the model; the child's usage is added to this agent's stats and the current turn.
+  private async _runSubagent(
+    task: SubagentTask,
+    toolCallId: string,
+    callbacks: ExtendedChatCallbacks,
+    turn: TurnProgress,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const { onPermissionRequest, onRetry, onSubagent, onWarning } = callbacks;
+    const toolNames = (task.tools && task.tools.length > 0 ? task.tools : SUBAGENT_DEFAULT_TOOLS)
+      .filter(name => name !== 'task' && this._isToolAllowed(name));
+    const known = new Set([
+      ...toolDefinitions.map(d => d.name),
+      ...getMCPManager().getToolsForAI().map(t => t.function.name)
+    ]);
+    const unknown = toolNames.filter(name => !known.has(name));
+    if (unknown.length > 0) {
+      return `Error: Unknown tools for subagent: ${unknown.join(', ')}`;
+    }
+
+    const maxSteps = task.maxSteps || SUBAGENT_MAX_STEPS;
+    const child = new Agent({
+      provider: this.provider,
+      model: this.model,
+      apiKey: this._apiKey,
+      baseUrl: this._baseUrl,
+      systemPrompt: SUBAGENT_SYSTEM_PROMPT,
+      yolo: this.yolo,
+      stream: this.stream,
+      cwd: this.cwd,
+      maxSteps,
+      retryPolicies: this.retryPolicies,
+      failover: this.failover,
+      reasoning: this.reasoning,
+      bashOutputTokens: this.bashOutputTokens,
+      tools: toolNames,
+      checkpoints: false,  // The child's file changes go into this turn's checkpoint
+      sessionHooks: false  // Tool hooks still apply to the child's calls
+    });
+
+    const progress: SubagentProgress = {
+      id: toolCallId,
+      description: task.description,
+      status: 'running',
+      toolCalls: 0,
+      tokens: 0
+    };
+    const report = (update: Partial<SubagentProgress>) => {
+      Object.assign(progress, update, { tokens: child.stats.totalTokens });
+      if (onSubagent) onSubagent({ ...progress });
+    };
+
+    let error: Error | null = null;
+    let aborted = false;
+    report({});
+    try {
+      await child.chat(task.prompt, {
+        onPermissionRequest: onPermissionRequest && (request => this._askInTurn(() => onPermissionRequest({
+          ...request,
+          reason: `${request.reason} (subagent: ${task.description})`
+        }), request.signal)),
+        onToolCall: async (name) => {
+          report({ currentTool: name, toolCalls: progress.toolCalls + 1 });
+          return true;
+        },
+        onToolResult: () => report({ currentTool: undefined }),
+        onRetry,
+        onWarning,
+        onAbort: () => { aborted = true; },
+        onError: (err) => { error = err; }
+      }, { signal });
+    } finally {
+      child.closeShell();
+      const usage = pickUsage(child.stats);
+      addUsage(this.stats, usage);
+      addUsage(turn.usage, usage);
+      this.stats.toolCalls += child.stats.toolCalls;
+      this.stats.retries += child.stats.retries;
+      this.stats.failovers += child.stats.failovers;
+    }
+
+    if (aborted) {
+      report({ status: 'cancelled', currentTool: undefined });
+      return 'Error: Subagent was cancelled';
+    }
+    const failure = error as Error | null;
+    if (failure) {
+      report({ status: 'error', currentTool: undefined });
+      return `Error: Subagent failed: ${failure.message}`;
+    }
+
+    report({ status: 'completed', currentTool: undefined });
+    const last = child.history[child.history.length - 1];
+    if (last?.role === 'assistant' && last.content.trim()) {
+      return last.content;
+    }
+    return last?.role === 'tool'
+      ? `Error: Subagent reached its step limit (${maxSteps}) before writing a report`
+      : 'Error: Subagent finished without a report';
+  }
+
   // Generate smart suggestions based on conversation history
   async generateSuggestions(): Promise<string[]> {
     try {
@@ -613,10 +1496,13 @@ export class Agent {
         baseUrl: this._baseUrl
       });
 
-      // Get last few messages for context (User query + AI response)
-      const lastMessages = this._convertToAIMessages().slice(-2);
+      // Get last few messages for context (User query + AI response), text only
+      const lastMessages = this.history
+        .filter(msg => (msg.role === 'user' || msg.role === 'assistant') && msg.content)
+        .slice(-2)
+        .map(msg => ({ role: msg.role as 'user' | 'assistant', content: msg.content }));
       
-      const { text } = await generateText({
+      const { text, usage } = await generateText({
         model,
         system: `TASK: Generate 3 short follow-up options for the user based on the conversation history.
 FORMAT: Return ONLY 3 phrases separated by a pipe (|). No numbering, no introduction.
@@ -630,6 +1516,10 @@ DO NOT repeat the assistant's last response.
 DO NOT output markdown.`,
         messages: lastMessages,
       });
+      this._recordUsage(usage, { provider: this.provider, model: this.model }, {
+        input: () => countMessagesTokens(lastMessages, this.model),
+        output: () => countTokens(text, this.model)
+      });
 
       // Parse Pipe-separated output (more robust than JSON)
       const parts = text.split('|').map(s => s.trim()).filter(s => s.length > 0);
@@ -643,47 +1533,74 @@ DO NOT output markdown.`,
   // Streaming chat with AI SDK
   private async _streamChat(
     model: ReturnType<typeof createModel>,
-    messages: AIMessage[],
+    messages: ModelMessage[],
     tools: ReturnType<typeof createAiSdkTools>,
-    callbacks: ExtendedChatCallbacks
+    callbacks: ExtendedChatCallbacks,
+    turn: TurnProgress,
+    signal?: AbortSignal
   ): Promise<void> {
-    const { onStart, onToken } = callbacks;
+    const { onStart, onToken, onReasoning } = callbacks;
 
     let fullResponse = '';
+    let completedTextLength = 0; // Streamed text that belongs to finished steps
     let streamError: Error | null = null;
+    let providerError: unknown = null;
     let toolCallsThisChat = 0; // Track tool calls for this specific chat
+    let stepsRecorded = 0;
+    const priorSteps = turn.completedSteps; // Finished before a retried request
 
     const result = streamText({
       model,
       system: this.systemPrompt,
-      messages,
+      messages: [...messages, ...priorSteps],
       tools,
-      // maxSteps = 0 means unlimited, use very high number (1 million)
-      // Default to 50 if not specified for safety
-      stopWhen: stepCountIs(this.maxSteps === 0 ? 1000000 : this.maxSteps || 50),
-      onStepFinish: ({ toolCalls }) => {
+      abortSignal: signal,
+      maxRetries: 0, // Retries and failover are handled by _runWithFailover
+      providerOptions: this._reasoningOptions(turn.endpoint),
+      onError: ({ error }) => {
+        providerError ??= error;
+      },
+      stopWhen: this._stopConditions(),
+      onStepFinish: ({ toolCalls, text, reasoningText, response, usage }) => {
         // Track tool calls
         if (toolCalls && toolCalls.length > 0) {
           this.stats.toolCalls += toolCalls.length;
           toolCallsThisChat += toolCalls.length;
         }
+        this._recordStep(turn, usage, text, reasoningText);
+        stepsRecorded++;
+        // Response messages accumulate across steps
+        turn.completedSteps = [...priorSteps, ...response.messages];
+        completedTextLength += text.length;
       }
     });
 
     // Signal start
     if (onStart) onStart();
 
-    // Stream tokens - AI SDK doesn't throw, just completes silently on error
-    for await (const chunk of result.textStream) {
-      fullResponse += chunk;
-      if (onToken) onToken(chunk);
+    // Stream tokens - AI SDK doesn't throw, just completes silently on error.
+    // Reasoning goes to its own callback and never into the answer.
+    for await (const part of result.fullStream) {
+      if (part.type === 'text-delta') {
+        fullResponse += part.text;
+        turn.partialText = fullResponse.slice(completedTextLength);
+        if (onToken) onToken(part.text);
+      } else if (part.type === 'reasoning-delta') {
+        if (onReasoning) onReasoning(part.text);
+      }
     }
+    if (signal?.aborted) return;
 
     // Check for errors - AI SDK stream may complete without throwing
     // Note: If tools were executed successfully, we don't treat empty response as error
     // because some providers (like MiniMax) may not continue after tool execution
     const toolsExecuted = toolCallsThisChat > 0;
 
+    // Transient provider errors always go to _runWithFailover, which resumes after the finished steps
+    if (providerError && (isRetryableError(providerError) || !toolsExecuted)) {
+      throw providerError;
+    }
+
     try {
       // Access internal state to check for errors
       const resultAny = result as unknown as { _steps?: { status?: { type: string; error?: Error } } };
@@ -711,58 +1628,66 @@ DO NOT output markdown.`,
       throw streamError;
     }
 
-    // Update stats
-    const outputTokens = countTokens(fullResponse, this.model);
-    this.stats.completionTokens += outputTokens;
-    this.stats.totalTokens += outputTokens;
+    // Some providers end the stream without finishing the step; estimate its usage
+    if (stepsRecorded === 0 && fullResponse) {
+      this._recordStep(turn, undefined, fullResponse);
+    }
 
-    // Add to history
-    if (fullResponse) {
-      this.history.push({ role: 'assistant', content: fullResponse });
+    // Add the full step transcript to history; some providers end the stream
+    // abnormally after tool execution, so fall back to the streamed text
+    let responseMessages: ResponseMessage[] = [];
+    try {
+      responseMessages = (await result.response).messages;
+    } catch (_e) {
+      // Keep the text we already streamed
     }
+    this._appendResponse([...priorSteps, ...responseMessages], fullResponse);
   }
 
   // Non-streaming chat with AI SDK
   private async _generateChat(
     model: ReturnType<typeof createModel>,
-    messages: AIMessage[],
+    messages: ModelMessage[],
     tools: ReturnType<typeof createAiSdkTools>,
-    callbacks: ExtendedChatCallbacks
+    callbacks: ExtendedChatCallbacks,
+    turn: TurnProgress,
+    signal?: AbortSignal
   ): Promise<void> {
-    const { onStart, onToken } = callbacks;
+    const { onStart, onToken, onReasoning } = callbacks;
 
     if (onStart) onStart();
 
+    const priorSteps = turn.completedSteps; // Finished before a retried request
     const result = await generateText({
       model,
       system: this.systemPrompt,
-      messages,
+      messages: [...messages, ...priorSteps],
       tools,
-      // maxSteps = 0 means unlimited, use very high number (1 million)
-      // Default to 50 if not specified for safety
-      stopWhen: stepCountIs(this.maxSteps === 0 ? 1000000 : this.maxSteps || 50),
-      onStepFinish: ({ toolCalls }) => {
+      abortSignal: signal,
+      maxRetries: 0, // Retries and failover are handled by _runWithFailover
+      providerOptions: this._reasoningOptions(turn.endpoint),
+      stopWhen: this._stopConditions(),
+      onStepFinish: ({ toolCalls, text, reasoningText, response, usage }) => {
         if (toolCalls && toolCalls.length > 0) {
           this.stats.toolCalls += toolCalls.length;
         }
+        this._recordStep(turn, usage, text, reasoningText);
+        turn.completedSteps = [...priorSteps, ...response.messages];
       }
     });
 
     const fullResponse = result.text;
 
+    const reasoning = result.steps.map(step => step.reasoningText || '').join('\n\n').trim();
+    if (onReasoning && reasoning) {
+      onReasoning(reasoning);
+    }
     if (onToken && fullResponse) {
       onToken(fullResponse);
     }
 
-    // Update stats
-    const outputTokens = countTokens(fullResponse, this.model);
-    this.stats.completionTokens += outputTokens;
-    this.stats.totalTokens += outputTokens;
-
-    // Add to history
-    if (fullResponse) {
-      this.history.push({ role: 'assistant', content: fullResponse });
-    }
+    // Add the full step transcript to history
+    this._appendResponse([...priorSteps, ...result.response.messages], fullResponse);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
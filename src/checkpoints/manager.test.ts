@@ -0,0 +1,98 @@
+/**
+ * Checkpoints: /undo and /rewind put files back the way they were before the agent changed them
+ */
+
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Checkpoints are kept under ~/.zesbe
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zesbe-checkpoints-'));
+
+const { CheckpointManager, createSessionId } = await import('./manager.js');
+
+const file = (name: string) => path.join(dir, name);
+const read = (name: string) => fs.readFileSync(file(name), 'utf-8');
+
+function session() {
+  const checkpoints = new CheckpointManager();
+  checkpoints.setSession(createSessionId());
+  return checkpoints;
+}
+
+// What the write/edit tools do: snapshot, then change the file
+function change(checkpoints: InstanceType<typeof CheckpointManager>, name: string, content: string): void {
+  checkpoints.snapshot(file(name));
+  fs.writeFileSync(file(name), content);
+}
+
+describe('CheckpointManager', () => {
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('undo restores the files changed in the last turn that changed any', () => {
+    fs.writeFileSync(file('undo.txt'), 'original\n');
+    const checkpoints = session();
+    checkpoints.beginTurn('edit it');
+    change(checkpoints, 'undo.txt', 'first edit\n');
+    change(checkpoints, 'undo.txt', 'second edit\n');
+    checkpoints.beginTurn('just talk');
+
+    const result = checkpoints.undo();
+    assert.deepEqual(result?.restored, [file('undo.txt')]);
+    assert.equal(read('undo.txt'), 'original\n');
+    assert.equal(checkpoints.list().length, 2);
+
+    // Nothing left to undo
+    assert.equal(checkpoints.undo(), null);
+  });
+
+  it('rewind deletes a file the turn created and drops the later turns', () => {
+    fs.writeFileSync(file('kept.txt'), 'before\n');
+    const checkpoints = session();
+    checkpoints.beginTurn('first');
+    const created = checkpoints.beginTurn('create a file');
+    change(checkpoints, 'created.txt', 'new\n');
+    checkpoints.beginTurn('edit another');
+    change(checkpoints, 'kept.txt', 'after\n');
+
+    const result = checkpoints.rewind(created.id);
+    assert.deepEqual(result?.deleted, [file('created.txt')]);
+    assert.deepEqual(result?.restored, [file('kept.txt')]);
+    assert.ok(!fs.existsSync(file('created.txt')));
+    assert.equal(read('kept.txt'), 'before\n');
+    assert.deepEqual(checkpoints.list().map(c => c.prompt), ['first']);
+  });
+
+  it('gives a file changed in two turns its content from before the earlier one', () => {
+    fs.writeFileSync(file('twice.txt'), 'v1\n');
+    const checkpoints = session();
+    const earlier = checkpoints.beginTurn('turn one');
+    change(checkpoints, 'twice.txt', 'v2\n');
+    checkpoints.beginTurn('turn two');
+    change(checkpoints, 'twice.txt', 'v3\n');
+
+    checkpoints.rewind(earlier.id);
+    assert.equal(read('twice.txt'), 'v1\n');
+  });
+
+  it('reloads a session\'s checkpoints from disk', () => {
+    fs.writeFileSync(file('reload.txt'), 'saved\n');
+    const sessionId = createSessionId();
+    const first = new CheckpointManager();
+    first.setSession(sessionId);
+    first.beginTurn('edit');
+    change(first, 'reload.txt', 'changed\n');
+
+    const loaded = new CheckpointManager();
+    loaded.setSession(sessionId);
+    loaded.undo();
+    assert.equal(read('reload.txt'), 'saved\n');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Checkpoint Manager for Zesbe CLI
+ * Snapshots each file's prior content before the agent writes, edits or patches it,
+ * so a turn's changes can be undone and the session rewound. Works without git.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import type { Checkpoint, CheckpointFile, RestoreResult } from '../types/index.js';
+
+const CHECKPOINT_DIR = path.join(os.homedir(), '.zesbe', 'sessions', 'checkpoints');
+
+// Checkpoints of sessions untouched for this long are removed on startup
+const CHECKPOINT_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+export function createSessionId(): string {
+  return `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+export class CheckpointManager {
+  private sessionId: string | null = null;
+  private checkpoints: Checkpoint[] = [];
+  private current: Checkpoint | null = null;   // Turn that file snapshots are added to
+
+  constructor() {
+    this.pruneOldSessions();
+  }
+
+  private get sessionDir(): string {
+    return path.join(CHECKPOINT_DIR, this.sessionId || 'default');
+  }
+
+  private get manifestPath(): string {
+    return path.join(this.sessionDir, 'checkpoints.json');
+  }
+
+  private blobPath(hash: string): string {
+    return path.join(this.sessionDir, 'blobs', hash);
+  }
+
+  // Switch to a session's checkpoints (new session, or one loaded with /load)
+  setSession(sessionId: string): void {
+    if (this.sessionId === sessionId) return;
+    this.sessionId = sessionId;
+    this.current = null;
+    this.checkpoints = [];
+    try {
+      if (fs.existsSync(this.manifestPath)) {
+        this.checkpoints = JSON.parse(fs.readFileSync(this.manifestPath, 'utf-8')) as Checkpoint[];
+      }
+    } catch (_e) {
+      // Corrupt manifest: start over
+    }
+  }
+
+  // Start a turn; files changed until the next turn are snapshotted into it
+  beginTurn(prompt: string): Checkpoint {
+    const last = this.checkpoints[this.checkpoints.length - 1];
+    const turn = (last?.turn || 0) + 1;
+    this.current = {
+      id: `${turn}-${Date.now().toString(36)}`,
+      turn,
+      prompt: prompt.split('\n')[0].slice(0, 80),
+      createdAt: new Date().toISOString(),
+      files: []
+    };
+    this.checkpoints.push(this.current);
+    this.save();
+    return this.current;
+  }
+
+  // Record a file's content before its first change in the current turn. No-op outside a turn.
+  snapshot(filePath: string): void {
+    if (!this.current) return;
+    const absolutePath = path.resolve(filePath);
+    if (this.current.files.some(f => f.path === absolutePath)) return;
+
+    const entry: CheckpointFile = { path: absolutePath, existed: fs.existsSync(absolutePath) };
+    if (entry.existed) {
+      const content = fs.readFileSync(absolutePath);
+      entry.blob = crypto.createHash('sha256').update(content).digest('hex');
+      const blobFile = this.blobPath(entry.blob);
+      if (!fs.existsSync(blobFile)) {
+        fs.mkdirSync(path.dirname(blobFile), { recursive: true });
+        fs.writeFileSync(blobFile, content);
+      }
+    }
+    this.current.files.push(entry);
+    this.save();
+  }
+
+  list(): Checkpoint[] {
+    return [...this.checkpoints];
+  }
+
+  get(id: string): Checkpoint | undefined {
+    return this.checkpoints.find(c => c.id === id);
+  }
+
+  // Revert the file changes of the most recent turn that made any; the turn stays listed
+  undo(): RestoreResult | null {
+    const checkpoint = [...this.checkpoints].reverse().find(c => c.files.length > 0);
+    if (!checkpoint) return null;
+
+    const result = this.restore([checkpoint], checkpoint);
+    checkpoint.files = [];
+    this.save();
+    return result;
+  }
+
+  // Restore files to their state before the given turn and drop it and every later turn
+  rewind(id: string): RestoreResult | null {
+    const index = this.checkpoints.findIndex(c => c.id === id);
+    if (index === -1) return null;
+
+    const checkpoint = this.checkpoints[index];
+    const result = this.restore(this.checkpoints.slice(index).reverse(), checkpoint);
+    this.checkpoints = this.checkpoints.slice(0, index);
+    this.current = null;
+    this.save();
+    return result;
+  }
+
+  // Newest first, so each file ends up with its content from before the earliest turn
+  private restore(newestFirst: Checkpoint[], target: Checkpoint): RestoreResult {
+    const finalState = new Map<string, CheckpointFile>();
+    for (const checkpoint of newestFirst) {
+      for (const file of checkpoint.files) {
+        finalState.set(file.path, file);
+      }
+    }
+
+    const result: RestoreResult = { checkpoint: target, restored: [], deleted: [], failed: [] };
+    for (const file of finalState.values()) {
+      try {
+        if (file.existed && file.blob) {
+          fs.mkdirSync(path.dirname(file.path), { recursive: true });
+          fs.writeFileSync(file.path, fs.readFileSync(this.blobPath(file.blob)));
+          result.restored.push(file.path);
+        } else if (fs.existsSync(file.path)) {
+          fs.unlinkSync(file.path);
+          result.deleted.push(file.path);
+        }
+      } catch (e) {
+        const error = e as Error;
+        result.failed.push(`${file.path}: ${error.message}`);
+      }
+    }
+    return result;
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(this.sessionDir, { recursive: true });
+      fs.writeFileSync(this.manifestPath, JSON.stringify(this.checkpoints, null, 2));
+    } catch (e) {
+      const error = e as Error;
+      console.error('Error saving checkpoints:', error.message);
+    }
+  }
+
+  private pruneOldSessions(): void {
+    try {
+      if (!fs.existsSync(CHECKPOINT_DIR)) return;
+      const cutoff = Date.now() - CHECKPOINT_MAX_AGE_MS;
+      for (const entry of fs.readdirSync(CHECKPOINT_DIR)) {
+        const dir = path.join(CHECKPOINT_DIR, entry);
+        const manifest = path.join(dir, 'checkpoints.json');
+        if (fs.statSync(fs.existsSync(manifest) ? manifest : dir).mtimeMs < cutoff) {
+          fs.rmSync(dir, { recursive: true, force: true });
+        }
+      }
+    } catch (_e) {
+      // Pruning is best effort
+    }
+  }
+}
+
+// Singleton instance
+let checkpointManager: CheckpointManager | null = null;
+
+export function getCheckpointManager(): CheckpointManager {
+  if (!checkpointManager) {
+    checkpointManager = new CheckpointManager();
+  }
+  return checkpointManager;
+}
+
+export { CHECKPOINT_DIR };
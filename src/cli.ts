@@ -2,13 +2,23 @@ import readline from 'readline';
 import chalk from 'chalk';
 import ora from 'ora';
 import fs from 'fs';
-import os from 'os';
-import path from 'path';
 import { showGoodbye } from './ui/welcome.js';
 import { handleMCPCommand } from './mcp-cli.js';
-import { PROVIDERS, getProviderList, getModelsForProvider } from './models-db.js';
-import { PROVIDER_INFO, formatProviderGuide, getAllProvidersQuickRef, getFreeProviders } from './provider-info.js';
+import { PROVIDERS, getProviderList, getModelsForProvider, getRecommendedModel, getReasoningMode } from './models-db.js';
+import { formatProviderGuide, getAllProvidersQuickRef, getFreeProviders } from './provider-info.js';
 import type { Agent as AgentType } from './agent.js';
+import { getPermissionManager, formatPolicy } from './permissions/manager.js';
+import { getHookManager, formatHooks } from './hooks/manager.js';
+import type {
+  PermissionRequest, PermissionAnswer, CompactResult, RetryInfo, SubagentProgress, Plan, HookEvent, HookTrustRequest
+} from './types/index.js';
+import { countTokens, formatTokenCount, formatUsage } from './utils/tokens.js';
+import { formatRetryInfo } from './utils/retry.js';
+import { formatPlanSteps, getPlanProgress } from './utils/plan.js';
+import { formatCheckpoint, formatRestoreResult } from './utils/checkpoints.js';
+import { getJobManager, formatJobs } from './shell/jobs.js';
+import { parseReasoningSetting, formatReasoningSetting } from './utils/reasoning.js';
+import { saveReasoningSetting, getApiKey, getApiKeyFile, saveApiKey } from './config.js';
 
 // Filter out <think>...</think> tags from streaming output
 class ThinkingFilter {
@@ -58,10 +68,36 @@ class ThinkingFilter {
   }
 }
 
+// Prints model reasoning dimmed (or one "Thinking..." line when hidden) ahead of the answer
+class ReasoningPrinter {
+  private text = '';
+  private open = false;
+
+  constructor(private expanded: boolean) {}
+
+  write(token: string): void {
+    if (!this.open) {
+      process.stdout.write(chalk.gray(this.expanded ? '\n💭 Thinking:\n' : '\n💭 Thinking...'));
+      this.open = true;
+    }
+    this.text += token;
+    if (this.expanded) process.stdout.write(chalk.gray.dim(token));
+  }
+
+  // End the block before answer text or a tool call
+  close(): void {
+    if (!this.open) return;
+    process.stdout.write(this.expanded
+      ? '\n\n'
+      : chalk.gray(` (~${formatTokenCount(countTokens(this.text))} tokens, /thinking to show)\n\n`));
+    this.open = false;
+    this.text = '';
+  }
+}
+
 interface ApiKeyPromptResult {
   needInput: 'apikey';
-  keyFile: string;
-  providerInfo: typeof PROVIDER_INFO[keyof typeof PROVIDER_INFO];
+  provider: string;
 }
 
 export async function startInteractiveMode(agent: AgentType, initialPrompt?: string): Promise<void> {
@@ -73,18 +109,78 @@ export async function startInteractiveMode(agent: AgentType, initialPrompt?: str
 
   let tokenCount = 0;
   let messageCount = 0;
+  let showThinking = false;
 
   rl.on('close', () => {
     showGoodbye();
     process.exit(0);
   });
 
-  process.on('SIGINT', () => {
+  // Ctrl+C aborts the running turn; at the prompt it exits.
+  // Readline reports it as its own SIGINT, ora's spinner re-emits it on process.
+  let currentTurn: AbortController | null = null;
+  const handleInterrupt = (): void => {
+    if (currentTurn) {
+      currentTurn.abort();
+      return;
+    }
     console.log('');
-    showGoodbye();
     rl.close();
-    process.exit(0);
-  });
+  };
+  rl.on('SIGINT', handleInterrupt);
+  process.on('SIGINT', handleInterrupt);
+
+  const showInterrupted = (): void => {
+    console.log(chalk.yellow('\n\n⚠️  Interrupted by user\n'));
+  };
+
+  const showRetry = (info: RetryInfo): void => {
+    console.log(chalk.yellow(`\n${info.failoverTo ? '↪️ ' : '⏳'} ${formatRetryInfo(info)}`));
+  };
+
+  const showHookError = (event: HookEvent, command: string, error: string): void => {
+    console.log(chalk.yellow(`\n⚠️  ${event} hook failed (${command}): ${error}`));
+  };
+
+  const showWarning = (message: string): void => {
+    console.log(chalk.yellow(`\n⚠️  ${message}`));
+  };
+
+  // Subagents print a line when they start and finish; their tool calls stay quiet
+  const showSubagent = (progress: SubagentProgress): void => {
+    if (progress.status === 'running') {
+      if (progress.toolCalls === 0 && !progress.currentTool) {
+        console.log(chalk.magenta(`  🤖 Subagent started: ${progress.description}`));
+      }
+      return;
+    }
+    const icon = progress.status === 'completed' ? '✓' : '✗';
+    console.log(chalk.magenta(
+      `  ${icon} Subagent ${progress.status}: ${progress.description} (${progress.toolCalls} tool calls, ${formatTokenCount(progress.tokens)} tokens)`
+    ));
+  };
+
+  const showPlan = (plan: Plan): void => {
+    console.log(chalk.blue(`\n  📋 PLAN: ${plan.summary}`));
+    console.log(chalk.white(formatPlanSteps(plan, { details: true }).split('\n').map(l => `  ${l}`).join('\n')));
+    if (!plan.approved) {
+      console.log(chalk.gray('\n  /plan approve to execute it, /plan reject to drop it, or reply to revise it\n'));
+    }
+  };
+
+  const showPlanUpdate = (plan: Plan): void => {
+    const { finished, total } = getPlanProgress(plan);
+    const current = plan.steps.find(s => s.status === 'in_progress');
+    console.log(chalk.blue(`\n  📋 Plan ${finished}/${total}${current ? `: ${current.title}` : ''}`));
+  };
+
+  // Note the provider that answered when the failover chain was used
+  const showAnsweredBy = (): void => {
+    const answeredBy = agent.stats.answeredBy;
+    if (answeredBy && (answeredBy.provider !== agent.provider || answeredBy.model !== agent.model)) {
+      console.log(chalk.gray(`\n  ↪️ Answered by ${PROVIDERS[answeredBy.provider]?.name || answeredBy.provider} (${answeredBy.model})`));
+    }
+  };
 
   const showPrompt = (): void => {
     console.log('');
@@ -92,6 +188,64 @@ export async function startInteractiveMode(agent: AgentType, initialPrompt?: str
     process.stdout.write(chalk.cyan.bold('> '));
   };
 
+  // Approval prompt for tool calls the permission policy marks as "ask".
+  // Ctrl+C aborts the turn's signal, which cancels the pending question and denies the call.
+  const askPermission = (request: PermissionRequest): Promise<PermissionAnswer> => {
+    const { signal } = request;
+    if (signal?.aborted) return Promise.resolve('deny');
+    console.log('\n' + chalk.yellow(`🔐 Permission required: ${request.toolName}`));
+    console.log(chalk.gray(JSON.stringify(request.args, null, 2)));
+    console.log(chalk.gray(`  Reason: ${request.reason}`));
+    process.stdout.write(chalk.yellow('Approve? [y]es / [N]o / [a]lways: '));
+    return new Promise<PermissionAnswer>(resolve => {
+      const onAbort = (): void => {
+        console.log(chalk.red(`\n✗ ${request.toolName} denied (interrupted)`));
+        resolve('deny');
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      rl.question('', { signal }, (answer: string) => {
+        signal?.removeEventListener('abort', onAbort);
+        const value = answer.trim().toLowerCase();
+        if (value === 'a' || value === 'always') {
+          console.log(chalk.green(`✓ ${request.toolName} always allowed`));
+          resolve('always');
+        } else if (value === 'y' || value === 'yes') {
+          resolve('allow');
+        } else {
+          console.log(chalk.red(`✗ ${request.toolName} denied`));
+          resolve('deny');
+        }
+      });
+    });
+  };
+
+  // Trust prompt for a repository's own hooks file, before any of its commands run
+  const askHookTrust = (request: HookTrustRequest): Promise<boolean> => {
+    const signal = currentTurn?.signal;
+    console.log('\n' + chalk.yellow(`🪝 This project defines hooks: ${request.file}`));
+    console.log(chalk.gray(request.commands.map(command => `  ${command}`).join('\n')));
+    process.stdout.write(chalk.yellow('Trust and run these hooks in this project? [y/N]: '));
+    return new Promise<boolean>(resolve => {
+      const onAbort = (): void => {
+        console.log('');
+        resolve(false);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      rl.question('', { signal }, (answer: string) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(['y', 'yes'].includes(answer.trim().toLowerCase()));
+      });
+    });
+  };
+
+  const showCompaction = (result: CompactResult): void => {
+    if (result.compacted) {
+      console.log(chalk.gray(`  🗜️ Context compacted (${result.summarizedMessages} messages): ${formatTokenCount(result.tokensBefore)} → ${formatTokenCount(result.tokensAfter)} tokens`));
+    } else {
+      console.log(chalk.gray(`  Nothing compacted: ${result.reason}`));
+    }
+  };
+
   const showHelp = (): void => {
     console.log(chalk.cyan(`
 📚 MY AI CLI - COMMAND REFERENCE (Classic Mode)
@@ -112,13 +266,22 @@ export async function startInteractiveMode(agent: AgentType, initialPrompt?: str
   /mcp                Buka MCP Marketplace (Interactive)
   /mcp -l             List installed MCP servers
   /tools              Lihat daftar tools yang tersedia
+  /jobs [kill <id>]   Lihat atau hentikan background job
 
 💬 CONVERSATION:
   /clear              Hapus history
+  /compact            Ringkas percakapan lama untuk menghemat konteks
   /context            Lihat stats (tokens, messages)
+  /undo               Batalkan perubahan file dari giliran terakhir
+  /rewind [n]         Kembalikan file & percakapan ke sebelum giliran n
 
 ⚙️ SETTINGS:
   /yolo               Toggle auto-approve
+  /plan [on|off]      Mode rencana read-only (approve, reject, show)
+  /reasoning [level]  Reasoning model: low|medium|high|<tokens>|off
+  /thinking [on|off]  Tampilkan/sembunyikan proses berpikir model
+  /permissions        Lihat kebijakan izin tools
+  /hooks              Lihat hooks yang aktif
   /config             Lihat konfigurasi
 
 🔧 SESSION:
@@ -138,16 +301,27 @@ export async function startInteractiveMode(agent: AgentType, initialPrompt?: str
 🔧 AVAILABLE TOOLS:
 
 System:
-  • bash       Execute shell commands
+  • bash       Execute shell commands (persistent shell, background jobs)
+  • bash_output, bash_kill  Read or stop background jobs
 
 File:
   • read       Read file contents
   • write      Write to files
-  • edit       Edit files (search & replace)
+  • edit       Edit files (search & replace, unique match)
+  • multi_edit Several edits to one file, all or nothing
+  • apply_patch Unified diff across files (create, delete, rename)
 
 Search:
   • glob       Find files by pattern
   • grep       Search in files
+
+MCP:
+  • list_mcp_resources, read_mcp_resource
+
+Git:
+  • git_status, git_diff, git_log, git_show, git_blame
+  • git_add (files or hunks), git_reset, git_commit, git_restore
+  • git_branch, git_checkout, git_stash, git_worktree
 `));
   };
 
@@ -177,10 +351,73 @@ Search:
         console.log(chalk.green('  ✓ Conversation cleared.\n'));
         return true;
 
+      case '/compact': {
+        const spinner = ora({ text: chalk.gray('Compacting...'), color: 'cyan', spinner: 'dots' }).start();
+        const result = await agent.compactHistory();
+        spinner.stop();
+        showCompaction(result);
+        console.log('');
+        return true;
+      }
+
+      case '/undo': {
+        const result = agent.undo();
+        if (!result) {
+          console.log(chalk.gray('  Nothing to undo.\n'));
+        } else {
+          console.log(chalk.green(`  ↩ Undid turn ${result.checkpoint.turn}: ${result.checkpoint.prompt}`));
+          console.log(chalk.gray(formatRestoreResult(result, agent.cwd).split('\n').map(l => `  ${l}`).join('\n')) + '\n');
+        }
+        return true;
+      }
+
+      case '/rewind': {
+        const checkpoints = agent.listCheckpoints();
+        const target = checkpoints.find(c => String(c.turn) === args.trim());
+        if (!target) {
+          if (checkpoints.length === 0) {
+            console.log(chalk.gray('  No turns to rewind to.\n'));
+          } else {
+            console.log(chalk.cyan('\n  ⏪ TURNS:\n'));
+            checkpoints.forEach(c => console.log(chalk.gray(`  ${formatCheckpoint(c)}`)));
+            console.log(chalk.gray('\n  Use /rewind <n> to restore files and conversation to before turn n.\n'));
+          }
+          return true;
+        }
+        const result = agent.rewind(target.id);
+        if (result) {
+          console.log(chalk.green(`  ⏪ Rewound to before turn ${target.turn}`));
+          console.log(chalk.gray(formatRestoreResult(result, agent.cwd).split('\n').map(l => `  ${l}`).join('\n')));
+          if (!result.conversationRestored) {
+            console.log(chalk.yellow('  Conversation was compacted past this turn; only files were restored.'));
+          }
+          console.log('');
+        }
+        return true;
+      }
+
       case '/tools':
         showTools();
         return true;
 
+      case '/jobs': {
+        const jobManager = getJobManager();
+        const [action, jobId] = args.trim().split(/\s+/);
+        if (action === 'kill' && jobId) {
+          const job = jobManager.kill(jobId);
+          if (!job) {
+            console.log(chalk.red(`  No background job ${jobId}\n`));
+          } else {
+            console.log(chalk.green(`  ${job.status === 'killed' ? `Stopped ${job.id}` : `${job.id} already finished`}\n`));
+          }
+          return true;
+        }
+        console.log(chalk.cyan('\n  ⚙️ BACKGROUND JOBS:\n'));
+        console.log(chalk.gray(formatJobs(jobManager.list()).split('\n').map(l => `  ${l}`).join('\n')));
+        console.log(chalk.gray('\n  Use /jobs kill <id> to stop a job.\n'));
+        return true;
+      }
+
       case '/model':
         if (args) {
           agent.model = args;
@@ -205,7 +442,9 @@ Search:
           if (provider) {
             agent.provider = args;
             agent.baseUrl = provider.baseUrl;
-            const recommended = provider.models.find(m => m.recommended) || provider.models[0];
+            const apiKey = getApiKey(args);
+            if (apiKey) agent.apiKey = apiKey;
+            const recommended = getRecommendedModel(args);
             if (recommended) agent.model = recommended.id;
             console.log(chalk.green(`  ✓ Provider changed to: ${provider.name}`));
             console.log(chalk.gray(`  Model: ${agent.model}\n`));
@@ -263,14 +502,14 @@ Search:
           if (guide) {
             console.log(guide);
           } else {
-            console.log(chalk.red(`  ✗ Provider "${args}" not found.`));
-            console.log(chalk.gray(`  Available: ${Object.keys(PROVIDER_INFO).join(', ')}\n`));
+            console.log(chalk.red(`  ✗ No setup guide for provider "${args}".`));
+            console.log(chalk.gray(`  Available: ${getProviderList().filter(p => p.setup).map(p => p.id).join(', ')}\n`));
           }
         } else {
           console.log(chalk.cyan('\n  🔑 SETUP - Pilih provider:\n'));
-          Object.entries(PROVIDER_INFO).forEach(([id, info]) => {
-            const free = info.pricing.toLowerCase().includes('free') ? chalk.green(' [FREE]') : '';
-            console.log(chalk.gray(`  • ${id.padEnd(12)} ${info.name}${free}`));
+          getProviderList().filter(p => p.setup).forEach(p => {
+            const free = p.setup?.pricing.toLowerCase().includes('free') ? chalk.green(' [FREE]') : '';
+            console.log(chalk.gray(`  • ${p.id.padEnd(12)} ${p.name}${free}`));
           });
           console.log(chalk.gray(`\n  Usage: /setup <provider>`));
           console.log(chalk.gray(`  Example: /setup gemini\n`));
@@ -278,26 +517,23 @@ Search:
         return true;
 
       case '/apikey':
-        const providerInfo = PROVIDER_INFO[agent.provider];
+        const providerInfo = PROVIDERS[agent.provider];
         if (!providerInfo) {
           console.log(chalk.red(`  ✗ No info for provider: ${agent.provider}\n`));
           return true;
         }
 
-        if (!providerInfo.envVar) {
+        if (providerInfo.apiKey) {
           console.log(chalk.yellow(`  Provider ${providerInfo.name} tidak memerlukan API key (local)\n`));
           return true;
         }
 
-        const homeDir = os.homedir();
-        const keyFile = path.join(homeDir, `.${agent.provider}_api_key`);
-        const exists = fs.existsSync(keyFile);
+        const exists = fs.existsSync(getApiKeyFile(agent.provider));
 
         if (args) {
           // Direct set from argument
           try {
-            fs.writeFileSync(keyFile, args.trim());
-            fs.chmodSync(keyFile, 0o600);
+            const keyFile = saveApiKey(agent.provider, args.trim());
             agent.apiKey = args.trim();
             console.log(chalk.green(`  ✓ API key saved to ${keyFile}\n`));
           } catch (e) {
@@ -307,12 +543,12 @@ Search:
         } else {
           // Interactive prompt for API key
           console.log(chalk.cyan(`\n  🔐 API KEY untuk ${providerInfo.name}\n`));
-          console.log(chalk.blue(`  📍 Get key: ${providerInfo.apiKeyUrl}\n`));
+          if (providerInfo.setup?.apiKeyUrl) console.log(chalk.blue(`  📍 Get key: ${providerInfo.setup.apiKeyUrl}\n`));
           console.log(chalk.gray(`  Current: ${exists ? 'Key exists ✓' : 'Not set ✗'}`));
           console.log('');
 
           // Return special value to trigger interactive input
-          return { needInput: 'apikey', keyFile, providerInfo };
+          return { needInput: 'apikey', provider: agent.provider };
         }
         return true;
 
@@ -325,10 +561,90 @@ Search:
         }
         return true;
 
+      case '/plan': {
+        const sub = args.trim().toLowerCase();
+        if (sub === 'approve') {
+          if (!agent.plan) {
+            console.log(chalk.gray('  No plan to approve.\n'));
+          } else {
+            agent.approvePlan();
+            console.log(chalk.green('  📋 Plan approved, plan mode OFF. Send a message (e.g. "go") to start.\n'));
+          }
+        } else if (sub === 'reject' || sub === 'clear') {
+          agent.clearPlan();
+          console.log(chalk.gray('  📋 Plan dropped.\n'));
+        } else if (sub === 'show') {
+          if (agent.plan) showPlan(agent.plan);
+          else console.log(chalk.gray('  No plan.\n'));
+        } else {
+          const enable = sub === 'on' ? true : sub === 'off' ? false : !agent.planMode;
+          agent.setPlanMode(enable);
+          console.log(enable
+            ? chalk.blue('  📋 Plan mode ON: read-only tools; the AI will propose a plan\n')
+            : chalk.gray('  📋 Plan mode OFF\n'));
+        }
+        return true;
+      }
+
+      case '/reasoning': {
+        const mode = getReasoningMode(agent.model, agent.provider);
+        if (!args.trim()) {
+          console.log(chalk.cyan(`  💭 Reasoning for ${agent.model}: ${formatReasoningSetting(agent.reasoning[agent.model])}`));
+          if (!mode) console.log(chalk.gray('  This model has no reasoning setting.'));
+          else if (mode === 'text') console.log(chalk.gray('  This model always reasons; it takes no setting.'));
+          else console.log(chalk.gray(`  Usage: /reasoning ${mode === 'effort' ? 'low|medium|high' : '<budget tokens>'}|off`));
+          console.log('');
+          return true;
+        }
+        const setting = parseReasoningSetting(args.trim());
+        if (!setting) {
+          console.log(chalk.red('  ✗ Expected low, medium, high, a token budget (>= 1024) or off\n'));
+        } else if (setting === 'off') {
+          agent.setReasoning(agent.model, null);
+          saveReasoningSetting(agent.model, null);
+          console.log(chalk.gray(`  💭 Reasoning for ${agent.model} back to the model default\n`));
+        } else if (mode !== 'effort' && mode !== 'budget') {
+          console.log(chalk.red(`  ✗ ${agent.model} takes no reasoning effort or budget\n`));
+        } else if ((mode === 'effort') !== Boolean(setting.effort)) {
+          console.log(chalk.red(`  ✗ ${agent.model} takes ${mode === 'effort' ? 'an effort (low|medium|high)' : 'a token budget'}\n`));
+        } else {
+          agent.setReasoning(agent.model, setting);
+          saveReasoningSetting(agent.model, setting);
+          console.log(chalk.green(`  ✓ Reasoning for ${agent.model}: ${formatReasoningSetting(setting)}\n`));
+        }
+        return true;
+      }
+
+      case '/thinking': {
+        const sub = args.trim().toLowerCase();
+        showThinking = sub === 'on' ? true : sub === 'off' ? false : !showThinking;
+        console.log(chalk.gray(`  💭 Thinking ${showThinking ? 'shown' : 'hidden'}\n`));
+        return true;
+      }
+
+      case '/permissions':
+        const policy = getPermissionManager().reload(agent.cwd);
+        console.log(chalk.cyan(`\n  🔐 PERMISSIONS:\n`));
+        console.log(chalk.gray(formatPolicy(policy).split('\n').map(l => `  ${l}`).join('\n')));
+        getPermissionManager().takeWarnings().forEach(showWarning);
+        console.log('');
+        return true;
+
+      case '/hooks': {
+        const hooks = getHookManager();
+        const config = hooks.reload(agent.cwd);
+        console.log(chalk.cyan(`\n  🪝 HOOKS:\n`));
+        console.log(chalk.gray(formatHooks(config, hooks.getUntrustedProjectHooks()).split('\n').map(l => `  ${l}`).join('\n')));
+        console.log('');
+        return true;
+      }
+
       case '/context':
         console.log(chalk.cyan(`\n  📊 CONTEXT STATS:\n`));
         console.log(chalk.gray(`  Messages: ${messageCount}`));
         console.log(chalk.gray(`  Tokens (approx): ${tokenCount}`));
+        console.log(chalk.gray(`  Usage: ${formatUsage(agent.stats)}`));
+        if (agent.stats.lastTurn) console.log(chalk.gray(`  Last turn: ${formatUsage(agent.stats.lastTurn)}`));
         console.log(chalk.gray(`  Provider: ${PROVIDERS[agent.provider]?.name || agent.provider}`));
         console.log(chalk.gray(`  Model: ${agent.model}`));
         console.log(chalk.gray(`  YOLO: ${agent.yolo ? 'ON' : 'OFF'}\n`));
@@ -413,11 +729,10 @@ Search:
 
             if (apiKeyInput && apiKeyInput.toLowerCase() !== 'cancel') {
               try {
-                fs.writeFileSync(handled.keyFile, apiKeyInput);
-                fs.chmodSync(handled.keyFile, 0o600);
+                const keyFile = saveApiKey(handled.provider, apiKeyInput);
                 agent.apiKey = apiKeyInput;
                 console.log(chalk.green(`\n  ✓ API key saved!`));
-                console.log(chalk.gray(`  File: ${handled.keyFile}\n`));
+                console.log(chalk.gray(`  File: ${keyFile}\n`));
               } catch (e) {
                 const error = e as Error;
                 console.log(chalk.red(`\n  ✗ Failed: ${error.message}\n`));
@@ -446,8 +761,11 @@ Search:
       }).start();
 
       const filter = new ThinkingFilter();
+    const reasoning = new ReasoningPrinter(showThinking);
+      const streamedCalls = new Set<string>();   // Tool calls whose output was already printed live
 
       try {
+        currentTurn = new AbortController();
         await agent.chat(input, {
           onStart: () => {
             if (spinner.isSpinning) spinner.stop();
@@ -457,47 +775,86 @@ Search:
           onToken: (token: string) => {
             const filtered = filter.process(token);
             if (filtered) {
+              reasoning.close();
               process.stdout.write(filtered);
               tokenCount++;
             }
           },
+          onReasoning: (token: string) => {
+            if (spinner.isSpinning) spinner.stop();
+            reasoning.write(token);
+          },
+          onPermissionRequest: async (request: PermissionRequest) => {
+            if (spinner.isSpinning) spinner.stop();
+            return askPermission(request);
+          },
+          onHookTrustRequest: async (request: HookTrustRequest) => {
+            if (spinner.isSpinning) spinner.stop();
+            return askHookTrust(request);
+          },
+          onCompact: (result: CompactResult) => {
+            if (spinner.isSpinning) spinner.stop();
+            if (result.compacted) showCompaction(result);
+          },
           onToolCall: async (tool: string, args: Record<string, unknown>) => {
             if (spinner.isSpinning) spinner.stop();
+            reasoning.close();
             console.log('\n' + chalk.yellow(`🔧 Tool: ${tool}`));
             const argsStr = JSON.stringify(args, null, 2);
             console.log(chalk.gray(argsStr));
-
-            if (!agent.yolo) {
-              process.stdout.write(chalk.yellow('Approve? [y/N]: '));
-              const approved = await new Promise<boolean>(resolve => {
-                rl.question('', (answer: string) => {
-                  resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
-                });
-              });
-              return approved;
-            }
-            console.log(chalk.green('✓ Auto-approved (YOLO mode)'));
             return true;
           },
-          onToolResult: (tool: string, result: unknown) => {
+          onToolOutput: (toolCallId: string, chunk: string) => {
+            streamedCalls.add(toolCallId);
+            process.stdout.write(chalk.gray(chunk));
+          },
+          onToolResult: (tool: string, result: unknown, toolCallId?: string) => {
             console.log(chalk.green(`✓ ${tool} completed`));
-            if (result && String(result).length < 300) {
+            if (result && String(result).length < 300 && !(toolCallId && streamedCalls.has(toolCallId))) {
               console.log(chalk.gray(String(result).substring(0, 300)));
             }
           },
+          onRetry: (info: RetryInfo) => {
+            if (spinner.isSpinning) spinner.stop();
+            showRetry(info);
+          },
+          onSubagent: (progress: SubagentProgress) => {
+            if (spinner.isSpinning) spinner.stop();
+            showSubagent(progress);
+          },
+          onHookError: (event: HookEvent, command: string, error: string) => {
+            if (spinner.isSpinning) spinner.stop();
+            showHookError(event, command, error);
+          },
+          onWarning: (message: string) => {
+            if (spinner.isSpinning) spinner.stop();
+            showWarning(message);
+          },
+          onPlan: showPlan,
+          onPlanUpdate: (plan: Plan) => {
+            if (spinner.isSpinning) spinner.stop();
+            showPlanUpdate(plan);
+          },
           onEnd: () => {
+            reasoning.close();
+            showAnsweredBy();
             console.log('\n');
           },
+          onAbort: () => {
+            if (spinner.isSpinning) spinner.stop();
+            showInterrupted();
+          },
           onError: (err: Error) => {
             if (spinner.isSpinning) spinner.stop();
             console.log(chalk.red(`\n✗ Error: ${err.message}\n`));
           }
-        });
+        }, { signal: currentTurn.signal });
       } catch (err) {
         if (spinner.isSpinning) spinner.stop();
         const error = err as Error;
         console.log(chalk.red(`\n✗ Error: ${error.message}`));
       } finally {
+        currentTurn = null;
         setImmediate(() => prompt());
       }
     });
@@ -517,8 +874,10 @@ Search:
     }).start();
 
     const filter = new ThinkingFilter();
+    const reasoning = new ReasoningPrinter(showThinking);
 
     try {
+      currentTurn = new AbortController();
       await agent.chat(initialPrompt, {
         onStart: () => {
           if (spinner.isSpinning) spinner.stop();
@@ -527,33 +886,73 @@ Search:
         onToken: (token: string) => {
           const filtered = filter.process(token);
           if (filtered) {
+            reasoning.close();
             process.stdout.write(filtered);
             tokenCount++;
           }
         },
+        onReasoning: (token: string) => {
+          if (spinner.isSpinning) spinner.stop();
+          reasoning.write(token);
+        },
+        onPermissionRequest: async (request: PermissionRequest) => {
+          if (spinner.isSpinning) spinner.stop();
+          return askPermission(request);
+        },
+        onHookTrustRequest: async (request: HookTrustRequest) => {
+          if (spinner.isSpinning) spinner.stop();
+          return askHookTrust(request);
+        },
+        onCompact: (result: CompactResult) => {
+          if (spinner.isSpinning) spinner.stop();
+          if (result.compacted) showCompaction(result);
+        },
         onToolCall: async (tool: string, _args: Record<string, unknown>) => {
           if (spinner.isSpinning) spinner.stop();
+          reasoning.close();
           console.log('\n' + chalk.yellow(`🔧 Tool: ${tool}`));
-          if (!agent.yolo) {
-            process.stdout.write(chalk.yellow('Approve? [y/N]: '));
-            const approved = await new Promise<boolean>(resolve => {
-              rl.question('', (answer: string) => {
-                resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
-              });
-            });
-            return approved;
-          }
-          console.log(chalk.green('✓ Auto-approved'));
           return true;
         },
+        onToolOutput: (_toolCallId: string, chunk: string) => {
+          process.stdout.write(chalk.gray(chunk));
+        },
+        onRetry: (info: RetryInfo) => {
+          if (spinner.isSpinning) spinner.stop();
+          showRetry(info);
+        },
+        onSubagent: (progress: SubagentProgress) => {
+          if (spinner.isSpinning) spinner.stop();
+          showSubagent(progress);
+        },
+        onHookError: (event: HookEvent, command: string, error: string) => {
+          if (spinner.isSpinning) spinner.stop();
+          showHookError(event, command, error);
+        },
+        onWarning: (message: string) => {
+          if (spinner.isSpinning) spinner.stop();
+          showWarning(message);
+        },
+        onPlan: showPlan,
+        onPlanUpdate: (plan: Plan) => {
+          if (spinner.isSpinning) spinner.stop();
+          showPlanUpdate(plan);
+        },
         onEnd: () => {
+          reasoning.close();
+          showAnsweredBy();
           console.log('\n');
+        },
+        onAbort: () => {
+          if (spinner.isSpinning) spinner.stop();
+          showInterrupted();
         }
-      });
+      }, { signal: currentTurn.signal });
     } catch (err) {
       if (spinner.isSpinning) spinner.stop();
       const error = err as Error;
       console.log(chalk.red(`\n✗ Error: ${error.message}`));
+    } finally {
+      currentTurn = null;
     }
   }
 
@@ -1,18 +1,16 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { PROVIDERS, registerProviders, getRecommendedModel } from './models-db.js';
+import type { ProviderConfigEntry } from './models-db.js';
+import type { RetryPolicy, ProviderEndpoint, ReasoningSetting } from './types/index.js';
 
 const HOME = os.homedir();
 const CONFIG_DIR = path.join(HOME, '.my-ai-cli');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 
-// Provider configuration interface
-interface ProviderConfigItem {
-  baseUrl: string;
-  apiKeyFile?: string;
-  apiKey?: string;
-  models: string[];
-}
+// Failover entry: a provider name (uses its recommended model) or an explicit provider/model pair
+type FailoverEntry = string | { provider: string; model?: string };
 
 // Full configuration interface
 interface Config {
@@ -20,7 +18,10 @@ interface Config {
   model: string;
   yolo: boolean;
   stream: boolean;
-  providers: Record<string, ProviderConfigItem>;
+  providers: Record<string, ProviderConfigEntry>;  // Overrides of built-in providers and custom ones
+  failover?: FailoverEntry[];
+  reasoning?: Record<string, ReasoningSetting>;  // Reasoning effort or thinking budget, by model id
+  bashOutputTokens?: number;  // Cap on bash output sent to the model; the full log goes to a temp file
 }
 
 // Default configuration
@@ -29,38 +30,7 @@ const DEFAULT_CONFIG: Config = {
   model: 'minimax-m2.1',
   yolo: true,
   stream: true,
-  providers: {
-    minimax: {
-      baseUrl: 'https://api.minimax.io/v1',
-      apiKeyFile: path.join(HOME, '.minimax_api_key'),
-      models: ['minimax-m2.1', 'abab6.5', 'abab6.5s']
-    },
-    openai: {
-      baseUrl: 'https://api.openai.com/v1',
-      apiKeyFile: path.join(HOME, '.openai_api_key'),
-      models: ['gpt-4o', 'gpt-4-turbo', 'gpt-3.5-turbo']
-    },
-    anthropic: {
-      baseUrl: 'https://api.anthropic.com/v1',
-      apiKeyFile: path.join(HOME, '.anthropic_api_key'),
-      models: ['claude-3-5-sonnet-20241022', 'claude-3-opus-20240229']
-    },
-    gemini: {
-      baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai',
-      apiKeyFile: path.join(HOME, '.gemini_api_key'),
-      models: ['gemini-2.0-flash-exp', 'gemini-1.5-pro']
-    },
-    ollama: {
-      baseUrl: 'http://localhost:11434/v1',
-      apiKey: 'ollama',
-      models: ['llama3', 'codellama', 'mistral']
-    },
-    glm: {
-      baseUrl: 'https://api.z.ai/api/coding/paas/v4/',
-      apiKeyFile: path.join(HOME, '.glm_api_key'),
-      models: ['glm-4.7', 'glm-4.6', 'glm-4.5', 'glm-4.5-air']
-    }
-  }
+  providers: {}
 };
 
 // Ensure config directory exists
@@ -70,22 +40,25 @@ function ensureConfigDir(): void {
   }
 }
 
-// Load configuration
+// Load configuration; its provider entries are merged into the provider registry
 export function loadConfig(): Config {
   ensureConfigDir();
 
+  let config = DEFAULT_CONFIG;
   if (fs.existsSync(CONFIG_FILE)) {
     try {
       const data = fs.readFileSync(CONFIG_FILE, 'utf-8');
-      return { ...DEFAULT_CONFIG, ...JSON.parse(data) };
+      config = { ...DEFAULT_CONFIG, ...JSON.parse(data) };
     } catch (_e) {
-      return DEFAULT_CONFIG;
+      // Unreadable config: use the defaults
     }
+  } else {
+    // Save default config on first run
+    saveConfig(DEFAULT_CONFIG);
   }
 
-  // Save default config on first run
-  saveConfig(DEFAULT_CONFIG);
-  return DEFAULT_CONFIG;
+  registerProviders(config.providers);
+  return config;
 }
 
 // Save configuration
@@ -94,9 +67,14 @@ export function saveConfig(config: Config): void {
   fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
 }
 
-// Get API key for provider
-export function getApiKey(provider: string, config: Config): string | null {
-  const providerConfig = config.providers[provider];
+// Key file for a provider (home-relative paths resolved)
+export function getApiKeyFile(provider: string): string {
+  return path.resolve(HOME, PROVIDERS[provider]?.apiKeyFile || `.${provider}_api_key`);
+}
+
+// Get API key for provider: fixed key, then key file, then environment variable
+export function getApiKey(provider: string): string | null {
+  const providerConfig = PROVIDERS[provider];
 
   if (!providerConfig) {
     return null;
@@ -108,49 +86,76 @@ export function getApiKey(provider: string, config: Config): string | null {
   }
 
   // Try to load from file
-  if (providerConfig.apiKeyFile && fs.existsSync(providerConfig.apiKeyFile)) {
+  const keyFile = getApiKeyFile(provider);
+  if (fs.existsSync(keyFile)) {
     try {
-      return fs.readFileSync(providerConfig.apiKeyFile, 'utf-8').trim();
+      return fs.readFileSync(keyFile, 'utf-8').trim();
     } catch (_e) {
       return null;
     }
   }
 
   // Check environment variables
-  const envVars: Record<string, string> = {
-    minimax: 'MINIMAX_API_KEY',
-    openai: 'OPENAI_API_KEY',
-    anthropic: 'ANTHROPIC_API_KEY',
-    gemini: 'GEMINI_API_KEY',
-    glm: 'GLM_API_KEY'
-  };
-
-  if (envVars[provider] && process.env[envVars[provider]]) {
-    return process.env[envVars[provider]] || null;
+  if (providerConfig.apiKeyEnv && process.env[providerConfig.apiKeyEnv]) {
+    return process.env[providerConfig.apiKeyEnv] || null;
   }
 
   return null;
 }
 
-// Get provider config
-export function getProviderConfig(provider: string, config: Config): ProviderConfigItem | null {
-  return config.providers[provider] || null;
+// Retry policy overrides, keyed by provider
+export function getRetryPolicies(): Record<string, Partial<RetryPolicy>> {
+  const policies: Record<string, Partial<RetryPolicy>> = {};
+  for (const [provider, providerConfig] of Object.entries(PROVIDERS)) {
+    if (providerConfig.retry) policies[provider] = providerConfig.retry;
+  }
+  return policies;
 }
 
-// Save API key
-export function saveApiKey(provider: string, apiKey: string): boolean {
-  const config = loadConfig();
-  const providerConfig = config.providers[provider];
+// Resolve the failover chain into endpoints; providers that are unknown or have no API key are skipped
+export function getFailoverChain(config: Config): ProviderEndpoint[] {
+  const endpoints: ProviderEndpoint[] = [];
+
+  for (const entry of config.failover || []) {
+    const { provider, model } = typeof entry === 'string' ? { provider: entry, model: undefined } : entry;
+    const providerConfig = PROVIDERS[provider];
+    if (!providerConfig) continue;
 
-  if (providerConfig && providerConfig.apiKeyFile) {
-    ensureConfigDir();
-    fs.writeFileSync(providerConfig.apiKeyFile, apiKey);
-    fs.chmodSync(providerConfig.apiKeyFile, 0o600);
-    return true;
+    const apiKey = getApiKey(provider);
+    if (!apiKey) continue;
+
+    const selectedModel = model || getRecommendedModel(provider)?.id;
+    if (!selectedModel) continue;
+
+    endpoints.push({
+      provider,
+      model: selectedModel,
+      apiKey,
+      baseUrl: providerConfig.baseUrl,
+      retry: providerConfig.retry
+    });
   }
 
-  return false;
+  return endpoints;
+}
+
+// Save (or with null, remove) a model's reasoning setting
+export function saveReasoningSetting(model: string, setting: ReasoningSetting | null): void {
+  const config = loadConfig();
+  const reasoning = { ...config.reasoning };
+  if (setting) reasoning[model] = setting;
+  else delete reasoning[model];
+  saveConfig({ ...config, reasoning });
+}
+
+// Save API key to the provider's key file (owner-only); returns the file path
+export function saveApiKey(provider: string, apiKey: string): string {
+  const keyFile = getApiKeyFile(provider);
+  fs.mkdirSync(path.dirname(keyFile), { recursive: true });
+  fs.writeFileSync(keyFile, apiKey);
+  fs.chmodSync(keyFile, 0o600);
+  return keyFile;
 }
 
 export { CONFIG_DIR, CONFIG_FILE, DEFAULT_CONFIG };
-export type { Config, ProviderConfigItem };
+export type { Config, FailoverEntry };
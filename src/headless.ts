@@ -0,0 +1,196 @@
+/**
+ * Headless Mode (--print)
+ * Runs a single prompt non-interactively and prints the result as text, JSON or stream-JSON
+ */
+
+import type { Agent as AgentType } from './agent.js';
+import type {
+  HeadlessEvent,
+  HeadlessResult,
+  HeadlessToolCall,
+  SubagentProgress,
+  Plan,
+  HookEvent,
+  OutputFormat,
+  PipedInput,
+  RetryInfo
+} from './types/index.js';
+import { formatRetryInfo } from './utils/retry.js';
+import { formatPlanSteps } from './utils/plan.js';
+
+// Exit codes for scripts and CI
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  PROVIDER_ERROR: 1, // Model/API request failed
+  TOOL_ERROR: 2,     // Answer produced, but at least one tool call failed or was denied
+  USAGE_ERROR: 3     // Bad flags or no prompt
+} as const;
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'stream-json'];
+
+// How long to wait for piped input to start when a prompt argument was given
+export const STDIN_WAIT_MS = 5000;
+
+// Read everything piped into stdin (null when stdin is a terminal).
+// With waitMs, give up when no data arrives in that time: git hooks and CI runners
+// often leave stdin open as a pipe that never sends anything or closes.
+export async function readStdin(waitMs?: number): Promise<PipedInput | null> {
+  if (process.stdin.isTTY) return null;
+
+  const stdin = process.stdin;
+  const chunks: Buffer[] = [];
+  const content = await new Promise<string | null>(resolve => {
+    let timer: NodeJS.Timeout | undefined;
+    const finish = (value: string | null): void => {
+      clearTimeout(timer);
+      stdin.off('data', onData).off('end', onEnd).off('error', onEnd);
+      resolve(value);
+    };
+    const onData = (chunk: Buffer | string): void => {
+      clearTimeout(timer);   // Input started; read it to the end
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    };
+    const onEnd = (): void => finish(Buffer.concat(chunks).toString('utf-8'));
+
+    stdin.on('data', onData).on('end', onEnd).on('error', onEnd);
+    if (waitMs !== undefined) {
+      timer = setTimeout(() => {
+        stdin.destroy();
+        finish(null);
+      }, waitMs);
+    }
+  });
+
+  return content?.trim() ? { content } : null;
+}
+
+// Combine the prompt argument with piped input into the first message
+export function buildPrompt(prompt: string, piped: PipedInput | null): string {
+  if (!piped) return prompt;
+  const instruction = prompt || 'Analyze this input';
+  return `${instruction}\n\nInput:\n\`\`\`\n${piped.content.replace(/\n$/, '')}\n\`\`\``;
+}
+
+// Tools report failures as strings ("Error: ...", "Git diff error: ...") or structured refusals
+function isToolError(result: string | object): boolean {
+  if (typeof result === 'string') {
+    return /^(Error\b|Git \w+ error:)/.test(result);
+  }
+  return (result as { status?: string; error?: string }).status === 'denied' || 'error' in result;
+}
+
+function stripThinking(text: string): string {
+  return text.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+}
+
+// Run one chat turn to completion and write the output. Returns the process exit code.
+export async function runHeadless(
+  agent: AgentType,
+  prompt: string,
+  outputFormat: OutputFormat = 'text'
+): Promise<number> {
+  const emit = (event: HeadlessEvent): void => {
+    if (outputFormat === 'stream-json') {
+      process.stdout.write(JSON.stringify(event) + '\n');
+    }
+  };
+
+  if (!prompt.trim()) {
+    process.stderr.write('Error: --print requires a prompt argument or piped input\n');
+    return EXIT_CODES.USAGE_ERROR;
+  }
+
+  const startTime = Date.now();
+  const toolCalls: HeadlessToolCall[] = [];
+  let response = '';
+  let providerError: Error | null = null;
+  let plan: Plan | null = null;
+
+  emit({ type: 'start', provider: agent.provider, model: agent.model, cwd: agent.cwd });
+
+  await agent.chat(prompt, {
+    onToken: (token: string) => {
+      response += token;
+      emit({ type: 'token', text: token });
+    },
+    onToolCall: async (toolName: string, args: Record<string, any>, toolCallId?: string) => {
+      toolCalls.push({ id: toolCallId, tool: toolName, args, isError: false });
+      emit({ type: 'tool_call', id: toolCallId, tool: toolName, args });
+      return true;
+    },
+    onToolResult: (toolName: string, result: string | object, toolCallId?: string) => {
+      const isError = isToolError(result);
+      // Pair with the pending call by id, since parallel calls of one tool finish in any order;
+      // denied calls never reached onToolCall
+      const pending = toolCalls.find(c => c.result === undefined &&
+        (toolCallId ? c.id === toolCallId : c.tool === toolName));
+      if (pending) {
+        pending.result = result;
+        pending.isError = isError;
+      } else {
+        toolCalls.push({ id: toolCallId, tool: toolName, result, isError });
+      }
+      emit({ type: 'tool_result', id: toolCallId, tool: toolName, result, isError });
+    },
+    onRetry: (info: RetryInfo) => {
+      emit({ type: 'retry', ...info });
+      if (outputFormat === 'text') process.stderr.write(`${formatRetryInfo(info)}\n`);
+    },
+    onSubagent: (progress: SubagentProgress) => {
+      emit({ type: 'subagent', ...progress });
+    },
+    onHookError: (event: HookEvent, command: string, error: string) => {
+      emit({ type: 'hook_error', event, command, error });
+      if (outputFormat === 'text') process.stderr.write(`${event} hook failed (${command}): ${error}\n`);
+    },
+    onWarning: (message: string) => {
+      emit({ type: 'warning', message });
+      if (outputFormat === 'text') process.stderr.write(`${message}\n`);
+    },
+    onPlan: (submitted: Plan) => {
+      plan = submitted;
+    },
+    onError: (error: Error) => {
+      providerError = error;
+      emit({ type: 'error', message: error.message });
+    }
+  });
+
+  const error = providerError as Error | null;
+  const submittedPlan = plan as Plan | null;
+  const exitCode = error
+    ? EXIT_CODES.PROVIDER_ERROR
+    : toolCalls.some(c => c.isError) ? EXIT_CODES.TOOL_ERROR : EXIT_CODES.SUCCESS;
+
+  const result: HeadlessResult = {
+    type: 'result',
+    success: exitCode === EXIT_CODES.SUCCESS,
+    exitCode,
+    provider: agent.provider,
+    model: agent.model,
+    result: stripThinking(response),
+    toolCalls,
+    stats: { ...agent.stats, durationMs: Date.now() - startTime },
+    ...(submittedPlan && { plan: submittedPlan }),
+    ...(error && { error: error.message })
+  };
+
+  switch (outputFormat) {
+    case 'json':
+      process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+      break;
+    case 'stream-json':
+      emit(result);
+      break;
+    default:
+      if (result.result) process.stdout.write(result.result + '\n');
+      if (result.plan) process.stdout.write(`${result.plan.summary}\n${formatPlanSteps(result.plan, { details: true })}\n`);
+      if (error) process.stderr.write(`Error: ${error.message}\n`);
+      for (const call of toolCalls.filter(c => c.isError)) {
+        const detail = typeof call.result === 'string' ? call.result : JSON.stringify(call.result);
+        process.stderr.write(`Tool ${call.tool} failed: ${detail.split('\n')[0]}\n`);
+      }
+  }
+
+  return exitCode;
+}
@@ -0,0 +1,278 @@
+/**
+ * Hook Manager for Zesbe CLI
+ * Runs user shell commands on lifecycle events (before/after tool calls, on prompt submit,
+ * when a turn stops, when a session starts). Each hook gets the event as JSON on stdin and
+ * may print a JSON decision: allow, deny, modify or add-context.
+ * A repository's own hooks only run once the user has trusted that version of its hooks file.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { spawn } from 'child_process';
+import { globToRegExp } from '../permissions/manager.js';
+import type {
+  HookConfig, HookDecision, HookEvent, HookInput, HookOutcome, HooksConfig, HookTrustRequest
+} from '../types/index.js';
+
+const CONFIG_DIR = path.join(os.homedir(), '.zesbe');
+const GLOBAL_HOOKS_FILE = path.join(CONFIG_DIR, 'hooks.json');
+const PROJECT_HOOKS_FILE = path.join('.zesbe', 'hooks.json');
+const TRUSTED_HOOKS_FILE = path.join(CONFIG_DIR, 'trusted-hooks.json');
+
+const HOOK_EVENTS: HookEvent[] = ['PreToolUse', 'PostToolUse', 'UserPromptSubmit', 'Stop', 'SessionStart'];
+const DEFAULT_HOOK_TIMEOUT_MS = 60000;
+const MAX_HOOK_OUTPUT_BYTES = 1024 * 1024;
+
+// Exit code that denies without JSON; stderr becomes the reason
+const DENY_EXIT_CODE = 2;
+
+export type HookErrorHandler = (event: HookEvent, command: string, error: string) => void;
+
+function readHooksFile(file: string): { config: Partial<HooksConfig>; hash: string } | null {
+  try {
+    if (fs.existsSync(file)) {
+      const content = fs.readFileSync(file, 'utf-8');
+      return {
+        config: JSON.parse(content) as Partial<HooksConfig>,
+        hash: crypto.createHash('sha256').update(content).digest('hex')
+      };
+    }
+  } catch (e) {
+    const error = e as Error;
+    console.error(`Error loading hooks ${file}:`, error.message);
+  }
+  return null;
+}
+
+// Trusted project directories, each with the hash of the hooks file the user approved
+function readTrustedHooks(): Record<string, string> {
+  try {
+    if (fs.existsSync(TRUSTED_HOOKS_FILE)) {
+      return JSON.parse(fs.readFileSync(TRUSTED_HOOKS_FILE, 'utf-8')) as Record<string, string>;
+    }
+  } catch (_e) {
+    // Unreadable store: every project asks again
+  }
+  return {};
+}
+
+function hasCommand(hook: HookConfig | undefined): boolean {
+  return typeof hook?.command === 'string' && hook.command.trim() !== '';
+}
+
+// Matchers only apply to tool events; other events run every hook
+function matchesTool(matcher: string | undefined, toolName: string | undefined): boolean {
+  if (!matcher || matcher === '*' || toolName === undefined) return true;
+  return matcher.split('|').some(pattern => globToRegExp(pattern.trim()).test(toolName));
+}
+
+// Run one hook command; resolves with its decision or throws with a readable error
+function runHookCommand(hook: HookConfig, input: HookInput, signal?: AbortSignal): Promise<HookDecision> {
+  const timeout = hook.timeout || DEFAULT_HOOK_TIMEOUT_MS;
+
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let stopReason: 'timeout' | 'abort' | null = null;
+
+    const child = spawn('/bin/bash', ['-c', hook.command], {
+      cwd: input.cwd,
+      detached: true,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env: { ...process.env, ZESBE_HOOK_EVENT: input.event, ZESBE_PROJECT_DIR: input.cwd }
+    });
+
+    const stop = (reason: 'timeout' | 'abort'): void => {
+      stopReason = stopReason || reason;
+      try {
+        process.kill(-child.pid!, 'SIGTERM');
+      } catch (_e) {
+        child.kill('SIGTERM');
+      }
+    };
+
+    const timer = setTimeout(() => stop('timeout'), timeout);
+    const onAbort = (): void => stop('abort');
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (stdout.length < MAX_HOOK_OUTPUT_BYTES) stdout += chunk.toString();
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      if (stderr.length < MAX_HOOK_OUTPUT_BYTES) stderr += chunk.toString();
+    });
+    // A hook that exits without reading stdin is fine
+    child.stdin.on('error', () => {});
+    child.stdin.end(JSON.stringify(input));
+
+    const finish = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.on('error', (err: Error) => {
+      finish();
+      reject(err);
+    });
+    child.on('close', (code: number | null) => {
+      finish();
+      if (stopReason === 'abort') return reject(new Error('Aborted'));
+      if (stopReason === 'timeout') return reject(new Error(`Timed out after ${timeout}ms`));
+      if (code === DENY_EXIT_CODE) {
+        return resolve({ decision: 'deny', reason: stderr.trim() || stdout.trim() || 'Denied by hook' });
+      }
+      if (code !== 0) return reject(new Error(`Exit code ${code}${stderr.trim() ? `: ${stderr.trim()}` : ''}`));
+
+      const output = stdout.trim();
+      if (!output.startsWith('{')) return resolve({});
+      try {
+        resolve(JSON.parse(output) as HookDecision);
+      } catch (_e) {
+        reject(new Error(`Invalid JSON output: ${output.slice(0, 200)}`));
+      }
+    });
+  });
+}
+
+export class HookManager {
+  private config: HooksConfig;
+  private untrusted: HookTrustRequest | null;
+  private sessionTrust: Map<string, boolean>;   // "dir\0hash" -> answer that couldn't be saved, or a decline
+
+  constructor() {
+    this.config = { hooks: {} };
+    this.untrusted = null;
+    this.sessionTrust = new Map();
+    this.reload();
+  }
+
+  // Global hooks run first, then the project's if the user trusts this version of its file
+  reload(cwd: string = process.cwd()): HooksConfig {
+    const dir = path.resolve(cwd);
+    const file = path.join(dir, PROJECT_HOOKS_FILE);
+    const global = readHooksFile(GLOBAL_HOOKS_FILE);
+    const project = readHooksFile(file);
+
+    this.untrusted = null;
+    let projectHooks = project?.config.hooks;
+    const projectCommands = HOOK_EVENTS.flatMap(event => projectHooks?.[event] || []).filter(hasCommand).map(hook => hook.command);
+    if (project && projectCommands.length > 0 && !this.isTrusted(dir, project.hash)) {
+      this.untrusted = { dir, file, hash: project.hash, commands: projectCommands };
+      projectHooks = undefined;
+    }
+
+    const hooks: HooksConfig['hooks'] = {};
+    for (const event of HOOK_EVENTS) {
+      const list = [...(global?.config.hooks?.[event] || []), ...(projectHooks?.[event] || [])].filter(hasCommand);
+      if (list.length > 0) hooks[event] = list;
+    }
+    this.config = { hooks };
+    return this.config;
+  }
+
+  getConfig(): HooksConfig {
+    return this.config;
+  }
+
+  // Project hooks skipped by the last reload because they aren't trusted
+  getUntrustedProjectHooks(): HookTrustRequest | null {
+    return this.untrusted;
+  }
+
+  // The user already declined this version of the file in this session
+  isDeclined(request: HookTrustRequest): boolean {
+    return this.sessionTrust.get(`${request.dir}\0${request.hash}`) === false;
+  }
+
+  // Record the user's answer. Trust is saved per directory with the file's hash and the hooks load
+  // right away; a decline lasts for the session. Returns false when trust couldn't be saved.
+  setProjectHooksTrust(request: HookTrustRequest, trusted: boolean): boolean {
+    let saved = true;
+    if (trusted) {
+      try {
+        fs.mkdirSync(CONFIG_DIR, { recursive: true });
+        fs.writeFileSync(TRUSTED_HOOKS_FILE, JSON.stringify({ ...readTrustedHooks(), [request.dir]: request.hash }, null, 2));
+      } catch (_e) {
+        saved = false;
+      }
+    }
+    if (!trusted || !saved) this.sessionTrust.set(`${request.dir}\0${request.hash}`, trusted);
+    this.reload(request.dir);
+    return saved;
+  }
+
+  private isTrusted(dir: string, hash: string): boolean {
+    return this.sessionTrust.get(`${dir}\0${hash}`) === true || readTrustedHooks()[dir] === hash;
+  }
+
+  // Run the event's matching hooks in order. Modifications feed into the next hook;
+  // the first deny stops the chain. A failing hook is reported and otherwise ignored.
+  async run(input: HookInput, onError?: HookErrorHandler, signal?: AbortSignal): Promise<HookOutcome> {
+    const outcome: HookOutcome = { allowed: false, context: [] };
+    const hooks = (this.config.hooks[input.event] || []).filter(hook => matchesTool(hook.matcher, input.toolName));
+    let current = { ...input };
+
+    for (const hook of hooks) {
+      if (signal?.aborted) break;
+      let decision: HookDecision;
+      try {
+        decision = await runHookCommand(hook, current, signal);
+      } catch (e) {
+        const error = e as Error;
+        if (!signal?.aborted && onError) onError(input.event, hook.command, error.message);
+        continue;
+      }
+
+      if (decision.context) outcome.context.push(decision.context);
+      if (decision.decision === 'deny') {
+        outcome.denied = decision.reason || `Denied by hook: ${hook.command}`;
+        break;
+      }
+      if (decision.decision === 'allow') outcome.allowed = true;
+      if (decision.decision === 'modify') {
+        if (decision.args && typeof decision.args === 'object') outcome.args = decision.args;
+        if (typeof decision.prompt === 'string') outcome.prompt = decision.prompt;
+        if (typeof decision.result === 'string') outcome.result = decision.result;
+        current = {
+          ...current,
+          ...(outcome.args && { args: outcome.args }),
+          ...(outcome.prompt !== undefined && { prompt: outcome.prompt }),
+          ...(outcome.result !== undefined && { result: outcome.result })
+        };
+      }
+    }
+
+    return outcome;
+  }
+}
+
+// Human-readable list of configured hooks
+export function formatHooks(config: HooksConfig, untrusted: HookTrustRequest | null = null): string {
+  const lines: string[] = [];
+  for (const event of HOOK_EVENTS) {
+    for (const hook of config.hooks[event] || []) {
+      const matcher = hook.matcher && (event === 'PreToolUse' || event === 'PostToolUse') ? ` [${hook.matcher}]` : '';
+      lines.push(`  ${event.padEnd(16)} ${hook.command}${matcher}`);
+    }
+  }
+  if (lines.length === 0) lines.push('  (none)');
+  if (untrusted) {
+    lines.push('', `Not trusted, skipped (${untrusted.commands.length}): ${untrusted.file}`);
+  }
+  lines.push('', `Global: ${GLOBAL_HOOKS_FILE}`, `Project: ${PROJECT_HOOKS_FILE}`, `Trusted projects: ${TRUSTED_HOOKS_FILE}`);
+  return lines.join('\n');
+}
+
+// Singleton instance
+let hookManager: HookManager | null = null;
+
+export function getHookManager(): HookManager {
+  if (!hookManager) {
+    hookManager = new HookManager();
+  }
+  return hookManager;
+}
+
+export { GLOBAL_HOOKS_FILE, PROJECT_HOOKS_FILE, TRUSTED_HOOKS_FILE, HOOK_EVENTS };
@@ -10,14 +10,17 @@ import { handleMCPCommand } from './mcp-cli.js';
 import { getMCPManager } from './mcp/client.js';
 import { Agent } from './agent.js';
 import { showWelcome } from './ui/welcome.js';
-import { loadConfig, getApiKey, getProviderConfig, saveApiKey, saveConfig } from './config.js';
+import { runHeadless, readStdin, buildPrompt, EXIT_CODES, OUTPUT_FORMATS, STDIN_WAIT_MS } from './headless.js';
+import { loadConfig, getApiKey, saveApiKey, saveConfig, getRetryPolicies, getFailoverChain } from './config.js';
+import { PROVIDERS, getProviderList, getModelsForProvider, getRecommendedModel } from './models-db.js';
 import type { Config } from './config.js';
+import type { OutputFormat } from './types/index.js';
 
 dotenv.config();
 
 const program = new Command();
 
-// Load saved configuration
+// Load saved configuration (also registers custom providers)
 const config: Config = loadConfig();
 
 interface CLIOptions {
@@ -32,6 +35,9 @@ interface CLIOptions {
   classic: boolean;
   setup: boolean;
   maxSteps: number;
+  plan: boolean;
+  print: boolean;
+  outputFormat: OutputFormat;
 }
 
 program
@@ -50,7 +56,7 @@ program
 
 program
   .option('-m, --model <model>', 'Model to use', config.model)
-  .option('-p, --provider <provider>', 'Provider: minimax, openai, anthropic, gemini, ollama, glm', config.provider)
+  .option('-p, --provider <provider>', `Provider: ${Object.keys(PROVIDERS).join(', ')}`, config.provider)
   .option('-b, --base-url <url>', 'Custom API base URL')
   .option('-k, --api-key <key>', 'API key (auto-loads from config if not provided)')
   .option('-s, --system <prompt>', 'Custom system prompt')
@@ -59,7 +65,10 @@ program
   .option('--no-stream', 'Disable streaming output')
   .option('--classic', 'Use classic readline mode instead of Ink')
   .option('--max-steps <n>', 'Max tool steps per turn (0 = unlimited)', '0')
+  .option('--plan', 'Start in read-only plan mode: the AI proposes a plan before changing anything')
   .option('--setup', 'Run setup wizard')
+  .option('--print', 'Headless mode: run the prompt (plus piped stdin) once, print the answer and exit')
+  .option('--output-format <format>', 'Headless output: text, json, stream-json', 'text')
   .argument('[prompt...]', 'Initial prompt')
   .action(async (promptArgs: string[], options: CLIOptions) => {
     // Run setup if requested
@@ -68,28 +77,40 @@ program
       return;
     }
 
-    // Get provider configuration
-    const providerConfig = getProviderConfig(options.provider, config);
+    const headless = !!options.print;
+    if (headless && !OUTPUT_FORMATS.includes(options.outputFormat)) {
+      console.error(chalk.red(`Error: Unknown output format '${options.outputFormat}' (use ${OUTPUT_FORMATS.join(', ')})`));
+      process.exit(EXIT_CODES.USAGE_ERROR);
+    }
+
+    // Get provider from the registry
+    const providerConfig = PROVIDERS[options.provider];
 
     if (!providerConfig) {
       console.error(chalk.red(`Error: Unknown provider '${options.provider}'`));
-      console.log(chalk.gray('Available providers: minimax, openai, anthropic, gemini, ollama, glm'));
+      console.error(chalk.gray(`Available providers: ${Object.keys(PROVIDERS).join(', ')}`));
       process.exit(1);
     }
 
     // Auto-select model if provider changed but model wasn't specified
     let selectedModel = options.model;
     if (options.provider !== config.provider && options.model === config.model) {
-      // Provider changed, use first model from new provider
-      selectedModel = providerConfig.models?.[0] || options.model;
+      // Provider changed, use the new provider's recommended model
+      selectedModel = getRecommendedModel(options.provider)?.id || options.model;
     }
 
-    // Get API key (auto-load from config/file)
-    let apiKey = options.apiKey || getApiKey(options.provider, config);
+    // Get API key (auto-load from config/file/env)
+    let apiKey = options.apiKey || getApiKey(options.provider);
     const baseUrl = options.baseUrl || providerConfig.baseUrl;
 
+    // Headless mode can't prompt for a key
+    if (headless && !apiKey) {
+      console.error(chalk.red(`Error: No API key found for ${options.provider}. Use -k or run "zesbe --setup".`));
+      process.exit(EXIT_CODES.PROVIDER_ERROR);
+    }
+
     // If no API key found, prompt for it
-    if (!apiKey && options.provider !== 'ollama') {
+    if (!apiKey) {
       console.log(chalk.yellow(`\n  No API key found for ${options.provider}.`));
       console.log(chalk.gray('  Run "zesbe --setup" to configure, or provide with -k flag.\n'));
 
@@ -115,7 +136,7 @@ program
     }
 
     // Show welcome screen
-    if (!options.quiet) {
+    if (!options.quiet && !headless) {
       console.clear();
       showWelcome({
         model: selectedModel,
@@ -126,8 +147,8 @@ program
 
     // Auto-connect MCP Servers
     const mcpManager = getMCPManager();
-    console.log(chalk.gray('  🔌 Connecting to MCP servers...'));
-    await mcpManager.connectAll();
+    if (!headless) console.log(chalk.gray('  🔌 Connecting to MCP servers...'));
+    await mcpManager.connectAll({ quiet: headless });
 
     // Create agent
     const agent = new Agent({
@@ -138,12 +159,25 @@ program
       systemPrompt: options.system,
       yolo: options.yolo,
       stream: options.stream !== false,
-      maxSteps: parseInt(options.maxSteps as unknown as string) || 0
+      maxSteps: parseInt(options.maxSteps as unknown as string) || 0,
+      retryPolicies: getRetryPolicies(),
+      failover: getFailoverChain(config),
+      reasoning: config.reasoning,
+      bashOutputTokens: config.bashOutputTokens,
+      planMode: !!options.plan
     });
 
     // Start CLI
     const initialPrompt = promptArgs.join(' ');
 
+    if (headless) {
+      // Without a prompt argument, piped input is the prompt, so wait for it however long it takes
+      const prompt = buildPrompt(initialPrompt, await readStdin(initialPrompt ? STDIN_WAIT_MS : undefined));
+      const exitCode = await runHeadless(agent, prompt, options.outputFormat);
+      await mcpManager.disconnectAll();
+      process.exit(exitCode);
+    }
+
     if (options.classic) {
       // Classic readline mode
       await startInteractiveMode(agent, initialPrompt);
@@ -169,25 +203,22 @@ async function runSetup(): Promise<void> {
   });
 
   // Choose default provider
+  const providers = getProviderList();
   console.log(chalk.white('  Available providers:'));
-  console.log(chalk.gray('    1) MiniMax (Recommended - Free tier available)'));
-  console.log(chalk.gray('    2) OpenAI (GPT-4)'));
-  console.log(chalk.gray('    3) Anthropic (Claude)'));
-  console.log(chalk.gray('    4) Google Gemini'));
-  console.log(chalk.gray('    5) Ollama (Local)'));
-  console.log(chalk.gray('    6) GLM/ZhipuAI'));
+  providers.forEach((p, i) => {
+    console.log(chalk.gray(`    ${i + 1}) ${p.name} - ${p.description}`));
+  });
   console.log('');
 
-  const providerChoice = await question(chalk.cyan('  Select default provider [1-6, default: 1]: '));
-  const providers = ['minimax', 'openai', 'anthropic', 'gemini', 'ollama', 'glm'];
-  const selectedProvider = providers[parseInt(providerChoice) - 1] || 'minimax';
+  const providerChoice = await question(chalk.cyan(`  Select default provider [1-${providers.length}, default: 1]: `));
+  const selectedProvider = providers[parseInt(providerChoice) - 1]?.id || providers[0].id;
 
   config.provider = selectedProvider;
   console.log(chalk.green(`  ✓ Default provider: ${selectedProvider}\n`));
 
-  // API Key
-  if (selectedProvider !== 'ollama') {
-    const existingKey = getApiKey(selectedProvider, config);
+  // API Key (local providers need none)
+  if (!PROVIDERS[selectedProvider].apiKey) {
+    const existingKey = getApiKey(selectedProvider);
     if (existingKey) {
       console.log(chalk.green(`  ✓ API key already configured for ${selectedProvider}`));
       const updateKey = await question(chalk.cyan('  Update API key? [y/N]: '));
@@ -209,14 +240,14 @@ async function runSetup(): Promise<void> {
   }
 
   // Choose default model
-  const providerConfigItem = config.providers[selectedProvider];
-  if (providerConfigItem && providerConfigItem.models) {
+  const models = getModelsForProvider(selectedProvider);
+  if (models.length > 0) {
     console.log(chalk.white(`  Available models for ${selectedProvider}:`));
-    providerConfigItem.models.forEach((m: string, i: number) => {
-      console.log(chalk.gray(`    ${i + 1}) ${m}`));
+    models.forEach((m, i) => {
+      console.log(chalk.gray(`    ${i + 1}) ${m.id}${m.recommended ? ' ⭐' : ''} - ${m.description}`));
     });
-    const modelChoice = await question(chalk.cyan(`  Select default model [1-${providerConfigItem.models.length}, default: 1]: `));
-    config.model = providerConfigItem.models[parseInt(modelChoice) - 1] || providerConfigItem.models[0];
+    const modelChoice = await question(chalk.cyan(`  Select default model [1-${models.length}, default: 1]: `));
+    config.model = models[parseInt(modelChoice) - 1]?.id || models[0].id;
     console.log(chalk.green(`  ✓ Default model: ${config.model}\n`));
   }
 
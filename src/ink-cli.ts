@@ -2,8 +2,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import { render, Box, Text, useInput, useApp } from 'ink';
 import TextInput from 'ink-text-input';
 import SelectInput from 'ink-select-input';
-import { PROVIDERS, getProviderList, getModelsForProvider } from './models-db.js';
-import { PROVIDER_INFO, formatProviderGuide, getAllProvidersQuickRef, getFreeProviders } from './provider-info.js';
+import { PROVIDERS, getProviderList, getModelsForProvider, supportsVision, getReasoningMode } from './models-db.js';
+import { getProviderGuide, formatProviderGuide, getAllProvidersQuickRef, getFreeProviders } from './provider-info.js';
 import { getMCPManager } from './mcp/client.js';
 import { getSkillsManager } from './skills/manager.js';
 import { POPULAR_MCP_SERVERS, searchServers, getServerById, generateInstallConfig, MARKETPLACE_LINKS, fetchRegistry } from './mcp/marketplace.js';
@@ -14,16 +14,30 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import type { Agent as AgentType } from './agent.js';
+import { getPermissionManager, formatPolicy } from './permissions/manager.js';
+import { getHookManager, formatHooks } from './hooks/manager.js';
+import type {
+  PermissionRequest, PermissionAnswer, CompactResult, MCPPromptInfo, RetryInfo, SubagentProgress, Plan, PlanStep,
+  Checkpoint, HookEvent, HookTrustRequest
+} from './types/index.js';
+import { countTokens, formatTokenCount, formatUsage } from './utils/tokens.js';
+import { formatRetryInfo } from './utils/retry.js';
 
 // Import new utilities
 import { processSimpleMarkdown, renderMarkdown, highlightCodeBlocks } from './utils/index.js';
-import { copyToClipboard, readFromClipboard, isClipboardAvailable, matchShortcut, formatShortcut, getShortcutsByCategory, DEFAULT_SHORTCUTS } from './utils/clipboard.js';
+import { copyToClipboard, readFromClipboard, readImageFromClipboard, isClipboardAvailable, matchShortcut, formatShortcut, getShortcutsByCategory, DEFAULT_SHORTCUTS } from './utils/clipboard.js';
 import { ContextManager, createFilePreview, formatContextInfo } from './utils/context.js';
+import { isImagePath, loadImage, saveImage } from './utils/images.js';
 import { saveConversation, listConversations, searchConversations, exportConversation, formatConversationList, formatSearchResults } from './utils/export.js';
 import type { ChatMessage, ExportFormat } from './utils/export.js';
 import { getCompletions, CompletionCycler } from './utils/completion.js';
 import type { CompletionContext } from './utils/completion.js';
 import { createFileDiff } from './utils/diff.js';
+import { formatPlanSteps, getPlanProgress } from './utils/plan.js';
+import { formatCheckpoint, formatRestoreResult } from './utils/checkpoints.js';
+import { getJobManager, formatJobs } from './shell/jobs.js';
+import { parseReasoningSetting, formatReasoningSetting } from './utils/reasoning.js';
+import { saveReasoningSetting, getApiKey, saveApiKey } from './config.js';
 
 // Session helper
 const SESSION_DIR = path.join(os.homedir(), '.zesbe', 'sessions');
@@ -89,6 +103,7 @@ interface MessageData {
   content: string;
   timestamp?: string;
   tokens?: number;
+  reasoning?: string;  // Model reasoning, shown in the thinking block; never part of content
 }
 
 interface SelectItem {
@@ -110,6 +125,7 @@ const SLASH_COMMANDS: SlashCommand[] = [
   { value: '/auth', label: '/auth', description: '🔑 Authentication setup (like Gemini CLI)' },
   { value: '/free', label: '/free', description: '🆓 Show FREE providers' },
   { value: '/clear', label: '/clear', description: 'Clear conversation' },
+  { value: '/compact', label: '/compact', description: '🗜️ Summarize older turns to free context' },
   { value: '/save', label: '/save', description: '💾 Save session' },
   { value: '/load', label: '/load', description: '📂 Load session' },
   { value: '/resume', label: '/resume', description: '♻️ Resume last session' },
@@ -117,17 +133,25 @@ const SLASH_COMMANDS: SlashCommand[] = [
   { value: '/stats', label: '/stats', description: '📊 Session statistics' },
   { value: '/context', label: '/context', description: '📄 Show project context' },
   { value: '/yolo', label: '/yolo', description: 'Toggle auto-approve' },
+  { value: '/plan', label: '/plan', description: '📋 Toggle read-only plan mode' },
+  { value: '/reasoning', label: '/reasoning', description: '💭 Reasoning effort or budget for this model' },
+  { value: '/thinking', label: '/thinking', description: '💭 Expand or collapse model thinking' },
+  { value: '/undo', label: '/undo', description: '↩️ Undo file changes of the last turn' },
+  { value: '/rewind', label: '/rewind', description: '⏪ Restore files and conversation to an earlier turn' },
+  { value: '/jobs', label: '/jobs', description: '⚙️ Background jobs (kill <id>)' },
+  { value: '/permissions', label: '/permissions', description: '🔐 Show tool permission policy' },
+  { value: '/hooks', label: '/hooks', description: '🪝 Show lifecycle hooks' },
   { value: '/config', label: '/config', description: 'Show configuration' },
   { value: '/skills', label: '/skills', description: '📚 Skills management' },
   { value: '/mcp', label: '/mcp', description: '🔌 MCP server management' },
-  { value: '/attach', label: '/attach', description: '📎 Attach file to context' },
+  { value: '/attach', label: '/attach', description: '📎 Attach file or image to context' },
   { value: '/detach', label: '/detach', description: '📎 Remove file from context' },
   { value: '/files', label: '/files', description: '📁 List attached files' },
   { value: '/preview', label: '/preview', description: '👁️ Preview file content' },
   { value: '/export', label: '/export', description: '📤 Export conversation' },
   { value: '/history', label: '/history', description: '📜 Search conversation history' },
   { value: '/copy', label: '/copy', description: '📋 Copy last response' },
-  { value: '/paste', label: '/paste', description: '📋 Paste from clipboard' },
+  { value: '/paste', label: '/paste', description: '📋 Paste text or image from clipboard' },
   { value: '/shortcuts', label: '/shortcuts', description: '⌨️ Show keyboard shortcuts' },
   { value: '/theme', label: '/theme', description: '🎨 Change UI Theme' },
   { value: '/tree', label: '/tree', description: '🌳 Show Project Tree' },
@@ -135,6 +159,44 @@ const SLASH_COMMANDS: SlashCommand[] = [
   { value: '/exit', label: '/exit', description: 'Exit CLI' },
 ];
 
+// MCP server prompts are exposed as /<server>:<prompt> slash commands
+function promptCommandName(prompt: MCPPromptInfo): string {
+  return `/${prompt.server}:${prompt.name}`;
+}
+
+function getPromptCommands(): SlashCommand[] {
+  return getMCPManager().listPrompts().map(p => ({
+    value: promptCommandName(p),
+    label: promptCommandName(p),
+    description: `🔌 ${p.description || `MCP prompt from ${p.server}`}`
+  }));
+}
+
+// Map "key=value" pairs and positional words onto the prompt's declared arguments.
+// The last unfilled argument takes the rest of the line.
+function parsePromptArgs(prompt: MCPPromptInfo, input: string): { values: Record<string, string>; missing: string[] } {
+  const values: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (const word of input.split(/\s+/).filter(Boolean)) {
+    const match = word.match(/^([\w-]+)=(.*)$/);
+    if (match && prompt.arguments.some(a => a.name === match[1])) {
+      values[match[1]] = match[2];
+    } else {
+      positional.push(word);
+    }
+  }
+
+  const unfilled = prompt.arguments.filter(a => !(a.name in values));
+  unfilled.forEach((arg, i) => {
+    if (i >= positional.length) return;
+    values[arg.name] = i === unfilled.length - 1 ? positional.slice(i).join(' ') : positional[i];
+  });
+
+  const missing = prompt.arguments.filter(a => a.required && !values[a.name]).map(a => a.name);
+  return { values, missing };
+}
+
 const TYPING_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
 const BRAIN_FRAMES = ['🧠', '💭', '💡', '✨'];
 const ASSESS_FRAMES = ['◐', '◓', '◑', '◒'];
@@ -148,22 +210,41 @@ interface ToolCallData {
   status: 'running' | 'completed' | 'error';
   startTime: number;
   result?: string;
+  detail?: string;         // Live progress line, e.g. what a subagent is doing
+  output?: string;         // Live command output (bash), most recent part
 }
 
+// Live output kept per tool call, and the lines shown while it runs
+const TOOL_OUTPUT_KEEP_CHARS = 4000;
+const TOOL_OUTPUT_LINES = 6;
+
 // Tool name to icon mapping
 const TOOL_ICONS: Record<string, string> = {
   bash: '⚡',
   read: '📖',
   write: '📝',
   edit: '✏️',
+  multi_edit: '✏️',
+  apply_patch: '🩹',
   glob: '🔍',
   grep: '🔎',
   web_fetch: '🌐',
+  list_mcp_resources: '🗂️',
+  read_mcp_resource: '📄',
+  task: '🤖',
   git_status: '📊',
   git_diff: '📋',
   git_log: '📜',
   git_commit: '💾',
   git_branch: '🌿',
+  git_checkout: '🔀',
+  git_stash: '📦',
+  git_show: '🔬',
+  git_blame: '🕵️',
+  git_add: '➕',
+  git_reset: '➖',
+  git_restore: '⏪',
+  git_worktree: '🌲',
   default: '🔧'
 };
 
@@ -281,6 +362,9 @@ const ToolCallIndicator: React.FC<ToolCallIndicatorProps> = ({ toolCall }) => {
   }, [toolCall.status, toolCall.startTime]);
 
   const displayArgs = toolCall.args.length > 60 ? toolCall.args.slice(0, 57) + '...' : toolCall.args;
+  const outputLines = toolCall.status === 'running' && toolCall.output
+    ? toolCall.output.replace(/\r/g, '').trimEnd().split('\n').slice(-TOOL_OUTPUT_LINES)
+    : [];
   const borderColor = toolCall.status === 'running' ? 'yellow' : (toolCall.status === 'error' ? 'red' : 'green');
 
   return h(Box, {
@@ -301,6 +385,14 @@ const ToolCallIndicator: React.FC<ToolCallIndicatorProps> = ({ toolCall }) => {
     h(Box, { marginTop: 0 },
       h(Text, { color: 'gray', dimColor: true }, displayArgs)
     ),
+    toolCall.detail && h(Box, { marginTop: 0 },
+      h(Text, { color: 'magenta' }, `↳ ${toolCall.detail}`)
+    ),
+    outputLines.length > 0 && h(Box, { flexDirection: 'column', marginTop: 0 },
+      ...outputLines.map((line, i) =>
+        h(Text, { key: i, color: 'gray', dimColor: true, wrap: 'truncate-end' }, line || ' ')
+      )
+    ),
     toolCall.result && toolCall.status === 'completed' && h(Box, { marginTop: 0, borderStyle: 'single', borderColor: 'gray', paddingX: 1 },
         h(Text, { color: 'white' }, `→ ${toolCall.result.slice(0, 100)}${toolCall.result.length > 100 ? '...' : ''}`)
     )
@@ -405,9 +497,36 @@ const StatusBar: React.FC<StatusBarProps> = ({ provider, model, tokens, response
   );
 };
 
-interface MessageProps extends MessageData {}
+interface ThinkingBlockProps {
+  reasoning: string;
+  expanded: boolean;
+  streaming?: boolean;
+}
 
-const Message: React.FC<MessageProps> = ({ role, content, timestamp, tokens }) => {
+// Model reasoning: one dimmed summary line, or the full text when expanded (Ctrl+O)
+const ThinkingBlock: React.FC<ThinkingBlockProps> = ({ reasoning, expanded, streaming }) => {
+  if (expanded) {
+    return h(Box, { flexDirection: 'column', marginLeft: 2, marginBottom: 1 },
+      h(Text, { color: 'gray', dimColor: true }, streaming ? '💭 Thinking…' : '💭 Thought'),
+      h(Text, { color: 'gray', dimColor: true }, reasoning.trim())
+    );
+  }
+  if (streaming) {
+    const lastLine = reasoning.trim().split('\n').pop() || '';
+    return h(Box, { marginLeft: 2 },
+      h(Text, { color: 'gray', dimColor: true, wrap: 'truncate-end' }, `💭 Thinking… ${lastLine}`)
+    );
+  }
+  return h(Box, { marginLeft: 2 },
+    h(Text, { color: 'gray', dimColor: true }, `💭 Thought (~${formatTokenCount(countTokens(reasoning))} tokens) · Ctrl+O to expand`)
+  );
+};
+
+interface MessageProps extends MessageData {
+  showThinking?: boolean;
+}
+
+const Message: React.FC<MessageProps> = ({ role, content, timestamp, tokens, reasoning, showThinking }) => {
   const time = timestamp ? new Date(timestamp).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' }) : '';
 
   const renderContent = (text: string) => {
@@ -447,7 +566,8 @@ const Message: React.FC<MessageProps> = ({ role, content, timestamp, tokens }) =
         h(Text, { color: 'gray', dimColor: true }, time),
         tokens && h(Text, { color: 'gray', dimColor: true }, `(${tokens} tokens)`)
       ),
-      h(Box, { marginLeft: 2 },
+      reasoning && h(ThinkingBlock, { reasoning, expanded: Boolean(showThinking) }),
+      content && h(Box, { marginLeft: 2 },
         renderContent(content)
       )
     );
@@ -488,7 +608,7 @@ interface SlashMenuProps {
 
 const SlashMenu: React.FC<SlashMenuProps> = ({ query, onSelect, onCancel }) => {
   const searchTerm = query.toLowerCase().replace('/', '');
-  const filtered = SLASH_COMMANDS.filter(cmd =>
+  const filtered = [...SLASH_COMMANDS, ...getPromptCommands()].filter(cmd =>
     cmd.value.includes(searchTerm) || cmd.description.toLowerCase().includes(searchTerm)
   );
 
@@ -569,7 +689,7 @@ const YoloMenu: React.FC<YoloMenuProps> = ({ onSelect, onCancel, current }) => {
 
   const items = [
     { label: '⚡ ON - Auto-approve all tools', value: true, description: 'Tools run without confirmation' },
-    { label: '🛡️ OFF - Safe mode', value: false, description: 'Show what tools will do (visual only)' }
+    { label: '🛡️ OFF - Safe mode', value: false, description: 'Ask before running tools the policy marks as "ask"' }
   ];
 
   return h(Box, {
@@ -670,6 +790,28 @@ const ThemeMenu: React.FC<ThemeMenuProps> = ({ onSelect, onCancel, current }) =>
   );
 };
 
+// Rewind Menu - newest turn first
+interface RewindMenuProps {
+  checkpoints: Checkpoint[];
+  onSelect: (checkpointId: string) => void;
+  onCancel: () => void;
+}
+
+const RewindMenu: React.FC<RewindMenuProps> = ({ checkpoints, onSelect, onCancel }) => {
+  useInput((_input, key) => { if (key.escape) onCancel(); });
+
+  return h(Box, { flexDirection: 'column', borderStyle: 'round', borderColor: 'yellow', paddingX: 1 },
+    h(Text, { color: 'yellow', bold: true }, '⏪ Rewind to before turn:'),
+    h(SelectInput, {
+      items: [...checkpoints].reverse().map(c => ({ label: formatCheckpoint(c), value: c.id })),
+      onSelect: (item: any) => onSelect(item.value),
+      itemComponent: ({ isSelected, label }: any) =>
+        h(Text, { color: isSelected ? 'yellow' : 'white' }, `${isSelected ? '▸ ' : '  '}${label}`)
+    } as any),
+    h(Text, { color: 'gray', dimColor: true }, 'Files and conversation go back to before the chosen turn · Esc to cancel')
+  );
+};
+
 // MCP Main Menu - Like OpenCode's MCP management
 interface MCPMainMenuProps {
   onSelect: (action: string) => void;
@@ -1002,7 +1144,7 @@ const AuthDialog: React.FC<AuthDialogProps> = ({
     }
   };
 
-  const providerInfo = PROVIDER_INFO[selectedProvider];
+  const providerInfo = getProviderGuide(selectedProvider);
 
   if (step === 'provider') {
     return h(Box, {
@@ -1153,6 +1295,275 @@ const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
   );
 };
 
+// ============================================================================
+// PERMISSION DIALOG (Approve / Always allow / Deny a tool call)
+// ============================================================================
+interface PermissionDialogProps {
+  request: PermissionRequest;
+  onAnswer: (answer: PermissionAnswer) => void;
+}
+
+const PERMISSION_OPTIONS: Array<{ label: string; value: PermissionAnswer; color: string }> = [
+  { label: 'Allow once', value: 'allow', color: 'green' },
+  { label: 'Always allow', value: 'always', color: 'cyan' },
+  { label: 'Deny', value: 'deny', color: 'red' }
+];
+
+const PermissionDialog: React.FC<PermissionDialogProps> = ({ request, onAnswer }) => {
+  const [selected, setSelected] = useState(0);
+
+  useInput((input: string, key: InkKey) => {
+    if (key.escape) onAnswer('deny');
+    if (key.return) onAnswer(PERMISSION_OPTIONS[selected].value);
+    if (key.leftArrow) setSelected(s => (s + PERMISSION_OPTIONS.length - 1) % PERMISSION_OPTIONS.length);
+    if (key.rightArrow) setSelected(s => (s + 1) % PERMISSION_OPTIONS.length);
+    if (input === 'y' || input === 'Y') onAnswer('allow');
+    if (input === 'a' || input === 'A') onAnswer('always');
+    if (input === 'n' || input === 'N') onAnswer('deny');
+  });
+
+  const argsStr = JSON.stringify(request.args, null, 2);
+  const displayArgs = argsStr.length > 400 ? argsStr.slice(0, 397) + '...' : argsStr;
+
+  return h(Box, {
+    flexDirection: 'column',
+    borderStyle: 'double',
+    borderColor: 'yellow',
+    paddingX: 2,
+    paddingY: 1,
+    width: 80
+  },
+    h(Box, { marginBottom: 1 },
+      h(Text, { color: 'yellow', bold: true }, `🔐 Allow ${request.toolName}?`)
+    ),
+    h(Text, { color: 'gray' }, displayArgs),
+    h(Box, { marginY: 1 },
+      h(Text, { color: 'gray', dimColor: true }, `Reason: ${request.reason}`)
+    ),
+    h(Box, { gap: 2 },
+      ...PERMISSION_OPTIONS.map((opt, i) =>
+        h(Box, {
+          key: opt.value,
+          borderStyle: selected === i ? 'single' : undefined,
+          borderColor: opt.color,
+          paddingX: 2
+        },
+          h(Text, { color: selected === i ? opt.color : 'gray', bold: selected === i }, opt.label)
+        )
+      )
+    ),
+    h(Box, { marginTop: 1 },
+      h(Text, { color: 'gray', dimColor: true }, 'Y: Allow  |  A: Always  |  N/Esc: Deny  |  ←→ + Enter')
+    )
+  );
+};
+
+// ============================================================================
+// HOOK TRUST DIALOG (Run a repository's own hooks file or skip it)
+// ============================================================================
+interface HookTrustDialogProps {
+  request: HookTrustRequest;
+  onAnswer: (trusted: boolean) => void;
+}
+
+const HOOK_TRUST_OPTIONS: Array<{ label: string; value: boolean; color: string }> = [
+  { label: 'Trust', value: true, color: 'green' },
+  { label: "Don't run", value: false, color: 'red' }
+];
+
+const HookTrustDialog: React.FC<HookTrustDialogProps> = ({ request, onAnswer }) => {
+  const [selected, setSelected] = useState(1);
+
+  useInput((input: string, key: InkKey) => {
+    if (key.escape) onAnswer(false);
+    if (key.return) onAnswer(HOOK_TRUST_OPTIONS[selected].value);
+    if (key.leftArrow || key.rightArrow) setSelected(s => 1 - s);
+    if (input === 'y' || input === 'Y') onAnswer(true);
+    if (input === 'n' || input === 'N') onAnswer(false);
+  });
+
+  const commands = request.commands.slice(0, 10).map(command => command.length > 72 ? command.slice(0, 69) + '...' : command);
+  if (request.commands.length > 10) commands.push(`... and ${request.commands.length - 10} more`);
+
+  return h(Box, {
+    flexDirection: 'column',
+    borderStyle: 'double',
+    borderColor: 'yellow',
+    paddingX: 2,
+    paddingY: 1,
+    width: 80
+  },
+    h(Box, { marginBottom: 1 },
+      h(Text, { color: 'yellow', bold: true }, '🪝 This project defines hooks')
+    ),
+    h(Text, { color: 'gray' }, request.file),
+    h(Box, { flexDirection: 'column', marginY: 1 },
+      ...commands.map((command, i) => h(Text, { key: i, color: 'white' }, `  ${command}`))
+    ),
+    h(Box, { marginBottom: 1 },
+      h(Text, { color: 'gray', dimColor: true }, 'They run shell commands and can approve tool calls. Trust is kept until the file changes.')
+    ),
+    h(Box, { gap: 2 },
+      ...HOOK_TRUST_OPTIONS.map((opt, i) =>
+        h(Box, {
+          key: opt.label,
+          borderStyle: selected === i ? 'single' : undefined,
+          borderColor: opt.color,
+          paddingX: 2
+        },
+          h(Text, { color: selected === i ? opt.color : 'gray', bold: selected === i }, opt.label)
+        )
+      )
+    ),
+    h(Box, { marginTop: 1 },
+      h(Text, { color: 'gray', dimColor: true }, "Y: Trust  |  N/Esc: Don't run  |  ←→ + Enter")
+    )
+  );
+};
+
+// ============================================================================
+// PLAN DIALOG (Approve / Edit / Reject a plan from plan mode)
+// ============================================================================
+type PlanAnswer = 'approve' | 'edit' | 'reject';
+
+interface PlanDialogProps {
+  plan: Plan;
+  onApprove: (plan: Plan) => void;
+  onReject: () => void;
+}
+
+const PLAN_OPTIONS: Array<{ label: string; value: PlanAnswer; color: string }> = [
+  { label: 'Approve', value: 'approve', color: 'green' },
+  { label: 'Edit', value: 'edit', color: 'cyan' },
+  { label: 'Reject', value: 'reject', color: 'red' }
+];
+
+const PlanDialog: React.FC<PlanDialogProps> = ({ plan, onApprove, onReject }) => {
+  const [steps, setSteps] = useState<PlanStep[]>(plan.steps);
+  const [selected, setSelected] = useState(0);
+  const [editing, setEditing] = useState(false);           // Step list editor open
+  const [cursor, setCursor] = useState(0);                 // Step under the cursor
+  const [draft, setDraft] = useState<string | null>(null); // Text of the step being rewritten
+
+  const answer = (value: PlanAnswer): void => {
+    if (value === 'approve') onApprove({ ...plan, steps });
+    else if (value === 'reject') onReject();
+    else setEditing(true);
+  };
+
+  // "title - details", split back apart on save; an empty line removes the step
+  const saveDraft = (text: string): void => {
+    const [title, ...details] = text.split(' - ');
+    if (!title.trim()) {
+      if (steps.length > 1) {
+        setSteps(prev => prev.filter((_, i) => i !== cursor));
+        setCursor(c => Math.min(c, steps.length - 2));
+      }
+    } else {
+      setSteps(prev => prev.map((step, i) => i === cursor
+        ? { ...step, title: title.trim(), details: details.join(' - ').trim() || undefined }
+        : step));
+    }
+    setDraft(null);
+  };
+
+  useInput((input: string, key: InkKey) => {
+    if (draft !== null) {
+      if (key.escape) setDraft(null);
+      return; // The text input has the keyboard
+    }
+    if (editing) {
+      if (key.escape) setEditing(false);
+      if (key.upArrow) setCursor(c => Math.max(0, c - 1));
+      if (key.downArrow) setCursor(c => Math.min(steps.length - 1, c + 1));
+      if (key.return) {
+        const step = steps[cursor];
+        setDraft(step.details ? `${step.title} - ${step.details}` : step.title);
+      }
+      if (input === 'a' || input === 'A') {
+        setSteps(prev => [...prev.slice(0, cursor + 1), { title: '', status: 'pending' }, ...prev.slice(cursor + 1)]);
+        setCursor(cursor + 1);
+        setDraft('');
+      }
+      if ((input === 'd' || input === 'D') && steps.length > 1) {
+        setSteps(prev => prev.filter((_, i) => i !== cursor));
+        setCursor(c => Math.max(0, Math.min(c, steps.length - 2)));
+      }
+      return;
+    }
+    if (key.escape) onReject();
+    if (key.return) answer(PLAN_OPTIONS[selected].value);
+    if (key.leftArrow) setSelected(s => (s + PLAN_OPTIONS.length - 1) % PLAN_OPTIONS.length);
+    if (key.rightArrow) setSelected(s => (s + 1) % PLAN_OPTIONS.length);
+    if (input === 'y' || input === 'Y') answer('approve');
+    if (input === 'e' || input === 'E') answer('edit');
+    if (input === 'n' || input === 'N') answer('reject');
+  });
+
+  return h(Box, {
+    flexDirection: 'column',
+    borderStyle: 'double',
+    borderColor: 'blue',
+    paddingX: 2,
+    paddingY: 1,
+    width: 80
+  },
+    h(Box, { marginBottom: 1 },
+      h(Text, { color: 'blue', bold: true }, editing ? '📋 Edit plan' : '📋 Approve this plan?')
+    ),
+    plan.summary && h(Box, { marginBottom: 1 }, h(Text, { color: 'white' }, plan.summary)),
+    ...steps.map((step, i) => {
+      const marker = editing && i === cursor ? '›' : ' ';
+      if (draft !== null && i === cursor) {
+        return h(Box, { key: `step-${i}` },
+          h(Text, { color: 'cyan' }, `${marker} ${i + 1}. `),
+          h(TextInput, { value: draft, onChange: setDraft, onSubmit: saveDraft, focus: true })
+        );
+      }
+      return h(Box, { key: `step-${i}`, flexDirection: 'column' },
+        h(Text, { color: editing && i === cursor ? 'cyan' : 'white' }, `${marker} ${i + 1}. ${step.title}`),
+        step.details && h(Text, { color: 'gray', dimColor: true }, `     ${step.details}`)
+      );
+    }),
+    !editing && h(Box, { gap: 2, marginTop: 1 },
+      ...PLAN_OPTIONS.map((opt, i) =>
+        h(Box, {
+          key: opt.value,
+          borderStyle: selected === i ? 'single' : undefined,
+          borderColor: opt.color,
+          paddingX: 2
+        },
+          h(Text, { color: selected === i ? opt.color : 'gray', bold: selected === i }, opt.label)
+        )
+      )
+    ),
+    h(Box, { marginTop: 1 },
+      h(Text, { color: 'gray', dimColor: true }, editing
+        ? (draft !== null ? 'Enter: Save (empty removes the step)  |  Esc: Cancel' : '↑↓ Select  |  Enter: Rewrite  |  A: Add  |  D: Delete  |  Esc: Done')
+        : 'Y: Approve  |  E: Edit  |  N/Esc: Reject  |  ←→ + Enter')
+    )
+  );
+};
+
+// Progress of the approved plan while it is being executed
+const PLAN_STEP_ICONS: Record<PlanStep['status'], { icon: string; color: string }> = {
+  pending: { icon: '○', color: 'gray' },
+  in_progress: { icon: '◐', color: 'yellow' },
+  done: { icon: '✓', color: 'green' },
+  skipped: { icon: '–', color: 'gray' }
+};
+
+const PlanProgress: React.FC<{ plan: Plan }> = ({ plan }) => {
+  const { finished, total } = getPlanProgress(plan);
+  return h(Box, { flexDirection: 'column', borderStyle: 'round', borderColor: 'blue', paddingX: 1, width: 80 },
+    h(Text, { color: 'blue', bold: true }, `📋 Plan ${finished}/${total}`),
+    ...plan.steps.map((step, i) => {
+      const { icon, color } = PLAN_STEP_ICONS[step.status];
+      return h(Text, { key: `plan-${i}`, color, dimColor: step.status === 'skipped' }, `${icon} ${i + 1}. ${step.title}`);
+    })
+  );
+};
+
 // Main App
 interface ChatAppProps {
   agent: AgentType;
@@ -1170,6 +1581,8 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [currentResponse, setCurrentResponse] = useState('');
+  const [currentReasoning, setCurrentReasoning] = useState('');
+  const [showThinking, setShowThinking] = useState(false);
   const [_tokenCount, setTokenCount] = useState(0);
   const [totalTokens, setTotalTokens] = useState(0);
   const [responseTime, setResponseTime] = useState<string | null>(null);
@@ -1182,6 +1595,7 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
   const [showSkillsMenu, setShowSkillsMenu] = useState(false);
   const [showYoloMenu, setShowYoloMenu] = useState(false);
   const [showThemeMenu, setShowThemeMenu] = useState(false);
+  const [rewindCheckpoints, setRewindCheckpoints] = useState<Checkpoint[] | null>(null);
   const [themeName, setThemeName] = useState<string>(DEFAULT_THEME);
   const theme = THEMES[themeName] || THEMES[DEFAULT_THEME];
 
@@ -1201,6 +1615,13 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
   const [loadedSkillsCount, setLoadedSkillsCount] = useState(0);
   const [attachedFiles, setAttachedFiles] = useState<string[]>([]);
   const [activeToolCalls, setActiveToolCalls] = useState<ToolCallData[]>([]);
+  const [permissionRequest, setPermissionRequest] = useState<PermissionRequest | null>(null);
+  const [planMode, setPlanMode] = useState(agent.planMode);
+  const [pendingPlan, setPendingPlan] = useState<Plan | null>(null); // Waiting for approve / edit / reject
+  const [activePlan, setActivePlan] = useState<Plan | null>(null);   // Approved plan being executed
+  const permissionResolver = useRef<((answer: PermissionAnswer) => void) | null>(null);
+  const [hookTrustRequest, setHookTrustRequest] = useState<HookTrustRequest | null>(null);
+  const hookTrustResolver = useRef<((trusted: boolean) => void) | null>(null);
   const startTime = useRef<number | null>(null);
 
   // Context manager for file attachments
@@ -1218,6 +1639,7 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
 
   // Buffered response for smoother rendering (reduce flicker)
   const responseBuffer = useRef('');
+  const reasoningBuffer = useRef('');
   const tokenBuffer = useRef(0);
   const updateTimer = useRef<NodeJS.Timeout | null>(null);
 
@@ -1230,6 +1652,11 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
       console.log('\n👋 Goodbye!\n');
       exit();
     }
+    // Ctrl+O - expand/collapse model thinking
+    if (key.ctrl && input === 'o') {
+      setShowThinking(prev => !prev);
+      return;
+    }
     if (key.ctrl && input === 'l') {
       setMessages([]);
       agent.clearHistory();
@@ -1237,18 +1664,15 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
     }
     // ESC to interrupt or close menus
     if (key.escape) {
+      // Permission, hook trust and plan dialogs handle their own Esc
+      if (permissionRequest || hookTrustRequest || pendingPlan) return;
       if (focusMode === 'suggestions') {
         setFocusMode('input');
         return;
       }
-      if (isLoading || isTyping) {
-        if (abortController.current) {
-          abortController.current.abort();
-        }
-        setIsLoading(false);
-        setIsTyping(false);
-        setCurrentResponse('');
-        addMessage('system', '⚠️ Interrupted by user');
+      if ((isLoading || isTyping) && abortController.current) {
+        // Stops the model request and running tools; the turn's onAbort resets the UI
+        abortController.current.abort();
       }
       setShowSlashMenu(false);
       setShowProviderMenu(false);
@@ -1259,13 +1683,14 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
       setShowSkillsMenu(false);
       setShowYoloMenu(false);
       setShowThemeMenu(false);
+      setRewindCheckpoints(null);
       setShowAuthDialog(false);
       setShowApiKeyDialog(false);
       completionCycler.current.reset();
     }
 
     // Up arrow - previous input history OR move focus back to input
-    if (key.upArrow && !showSlashMenu && !showProviderMenu && !showModelMenu) {
+    if (key.upArrow && !showSlashMenu && !showProviderMenu && !showModelMenu && !rewindCheckpoints) {
       if (focusMode === 'suggestions') {
         setFocusMode('input');
         return;
@@ -1279,7 +1704,7 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
     }
 
     // Down arrow - next input history OR move focus to suggestions
-    if ((key.downArrow || (key.tab && query === '')) && !showSlashMenu && !showProviderMenu && !showModelMenu) {
+    if ((key.downArrow || (key.tab && query === '')) && !showSlashMenu && !showProviderMenu && !showModelMenu && !rewindCheckpoints) {
       if (focusMode === 'input' && suggestions.length > 0) {
          setFocusMode('suggestions');
          return;
@@ -1362,6 +1787,22 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
     }]);
   };
 
+  // Restore files and conversation, then redraw the transcript from the remaining history
+  const rewindTo = (checkpointId: string): void => {
+    setRewindCheckpoints(null);
+    const result = agent.rewind(checkpointId);
+    if (!result) return;
+    if (result.conversationRestored) {
+      setMessages(agent.history
+        .filter(m => (m.role === 'user' || m.role === 'assistant') && m.content)
+        .map(m => ({ role: m.role as MessageData['role'], content: m.content })));
+    }
+    addMessage('success', `⏪ Rewound to before turn ${result.checkpoint.turn}\n${formatRestoreResult(result, agent.cwd)}`);
+    if (!result.conversationRestored) {
+      addMessage('system', 'The conversation was compacted past this turn; only files were restored.');
+    }
+  };
+
   const handleSubmit = async (input: string): Promise<void> => {
     if (!input.trim()) return;
 
@@ -1385,27 +1826,35 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
 
     setShowSlashMenu(false);
 
-    // Build context message from attached files
-    let userInput = input;
-    const ctxMsg = contextManager.current.buildContextMessage();
-    if (ctxMsg && attachedFiles.length > 0) {
-      userInput = `${ctxMsg}\n\nUser message: ${input}`;
+    // Pending images stay attached if the model can't take them
+    if (contextManager.current.getAttachedImages().length > 0 && !supportsVision(agent.model, agent.provider)) {
+      addMessage('error', `${agent.model} does not accept images. Switch to a vision-capable model with /model, or /detach the images.`);
+      return;
     }
+    const images = contextManager.current.takeImages();
 
-    addMessage('user', input);
+    // Attached files go to the model as one replaceable context block, not into each message
+    agent.setAttachedContext(contextManager.current.buildContextMessage());
+    const userInput = input;
+
+    addMessage('user', images.length > 0 ? `${input}\n${images.map(i => `🖼️ ${i.name}`).join('\n')}` : input);
     setQuery('');
     setIsLoading(true);
     setIsTyping(false);
     setCurrentResponse('');
+    setCurrentReasoning('');
     setTokenCount(0);
     startTime.current = Date.now();
 
     try {
       let fullResponse = '';
+      let fullReasoning = '';
       let tokens = 0;
+      const toolOutput = new Map<string, string>();   // Live bash output by tool call id, not yet shown
 
       // Reset buffers
       responseBuffer.current = '';
+      reasoningBuffer.current = '';
       tokenBuffer.current = 0;
 
       // Flush buffer to UI (throttled updates reduce flicker)
@@ -1414,9 +1863,30 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
           setCurrentResponse(responseBuffer.current);
           setTokenCount(tokenBuffer.current);
         }
+        if (reasoningBuffer.current) {
+          setCurrentReasoning(reasoningBuffer.current);
+        }
+        if (toolOutput.size > 0) {
+          const updates = new Map(toolOutput);
+          toolOutput.clear();
+          setActiveToolCalls(prev => prev.map(tc => {
+            const chunk = updates.get(tc.id);
+            return chunk ? { ...tc, output: ((tc.output || '') + chunk).slice(-TOOL_OUTPUT_KEEP_CHARS) } : tc;
+          }));
+        }
+      };
+
+      const scheduleFlush = (): void => {
+        if (!updateTimer.current) {
+          updateTimer.current = setTimeout(() => {
+            flushBuffer();
+            updateTimer.current = null;
+          }, 33);
+        }
       };
 
-      await agent.chat(input, {
+      abortController.current = new AbortController();
+      await agent.chat(userInput, {
         onStart: () => {
           setIsLoading(false);
           setIsTyping(true);
@@ -1431,15 +1901,38 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
             tokenBuffer.current = tokens;
 
             // Throttle UI updates (30fps) to prevent flickering
-            if (!updateTimer.current) {
-              updateTimer.current = setTimeout(() => {
-                flushBuffer();
-                updateTimer.current = null;
-              }, 33);
-            }
+            scheduleFlush();
           }
         },
-        onToolCall: async (tool: string, args: Record<string, unknown>) => {
+        onReasoning: (token: string) => {
+          fullReasoning += token;
+          reasoningBuffer.current = fullReasoning;
+          scheduleFlush();
+        },
+        onPermissionRequest: (request: PermissionRequest) => {
+          if (updateTimer.current) {
+            clearTimeout(updateTimer.current);
+            updateTimer.current = null;
+          }
+          flushBuffer();
+          return new Promise<PermissionAnswer>(resolve => {
+            if (request.signal?.aborted) return resolve('deny');
+            permissionResolver.current = resolve;
+            setPermissionRequest(request);
+            // Interrupted while the dialog is open: close it and deny
+            request.signal?.addEventListener('abort', () => {
+              if (permissionResolver.current !== resolve) return;
+              permissionResolver.current = null;
+              setPermissionRequest(null);
+              resolve('deny');
+            }, { once: true });
+          });
+        },
+        onHookTrustRequest: (request: HookTrustRequest) => new Promise<boolean>(resolve => {
+          hookTrustResolver.current = resolve;
+          setHookTrustRequest(request);
+        }),
+        onToolCall: async (tool: string, args: Record<string, unknown>, toolCallId?: string) => {
           // Flush before tool call
           if (updateTimer.current) {
             clearTimeout(updateTimer.current);
@@ -1447,11 +1940,12 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
           }
           flushBuffer();
 
-          // Create tool call with unique ID
-          const toolCallId = `${tool}_${Date.now()}`;
-          const argsStr = JSON.stringify(args).substring(0, 100);
+          // Subagents show their description instead of the (long) prompt
+          const argsStr = tool === 'task' && typeof args.description === 'string'
+            ? args.description
+            : JSON.stringify(args).substring(0, 100);
           const newToolCall: ToolCallData = {
-            id: toolCallId,
+            id: toolCallId || `${tool}_${Date.now()}`,
             name: tool,
             args: argsStr,
             status: 'running',
@@ -1461,14 +1955,46 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
           setActiveToolCalls(prev => [...prev, newToolCall]);
           return true;
         },
-        onToolResult: (tool: string, result: unknown) => {
-          // Update tool call status to completed
+        onCompact: (result: CompactResult) => {
+          if (result.compacted) {
+            addMessage('system', `🗜️ Context compacted: ${formatTokenCount(result.tokensBefore)} → ${formatTokenCount(result.tokensAfter)} tokens`);
+          }
+        },
+        onRetry: (info: RetryInfo) => {
+          addMessage('system', `${info.failoverTo ? '↪️' : '⏳'} ${formatRetryInfo(info)}`);
+        },
+        onHookError: (event: HookEvent, command: string, error: string) => {
+          addMessage('error', `${event} hook failed (${command}): ${error}`);
+        },
+        onWarning: (message: string) => {
+          addMessage('error', message);
+        },
+        onToolResult: (tool: string, result: unknown, toolCallId?: string) => {
+          // Update tool call status to completed; concurrent calls of one tool are told apart by id
+          const target = toolCallId
+            ? (tc: ToolCallData) => tc.id === toolCallId
+            : (tc: ToolCallData) => tc.name === tool && tc.status === 'running';
           setActiveToolCalls(prev => prev.map(tc =>
-            tc.name === tool && tc.status === 'running'
+            target(tc)
               ? { ...tc, status: 'completed' as const, result: String(result).slice(0, 100) }
               : tc
           ));
         },
+        onToolOutput: (toolCallId: string, chunk: string) => {
+          toolOutput.set(toolCallId, ((toolOutput.get(toolCallId) || '') + chunk).slice(-TOOL_OUTPUT_KEEP_CHARS));
+          scheduleFlush();
+        },
+        onPlan: (plan: Plan) => {
+          setPendingPlan(plan);
+        },
+        onPlanUpdate: (plan: Plan) => {
+          setActivePlan(plan);
+        },
+        onSubagent: (progress: SubagentProgress) => {
+          const activity = progress.status === 'running' ? (progress.currentTool || 'thinking') : progress.status;
+          const detail = `${activity} · ${progress.toolCalls} tool calls · ${formatTokenCount(progress.tokens)} tokens`;
+          setActiveToolCalls(prev => prev.map(tc => tc.id === progress.id ? { ...tc, detail } : tc));
+        },
         onEnd: () => {
           // Clear timer and final flush
           if (updateTimer.current) {
@@ -1478,13 +2004,20 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
 
           const elapsed = ((Date.now() - (startTime.current || Date.now())) / 1000).toFixed(1);
           setResponseTime(`${elapsed}s`);
+          const answeredBy = agent.stats.answeredBy;
+          const failedOver = answeredBy && (answeredBy.provider !== agent.provider || answeredBy.model !== agent.model);
           setTotalTokens(prev => prev + tokens);
+          if (fullResponse || fullReasoning) {
+            // Apply syntax highlighting to code blocks; reasoning stays out of the answer
+            const processedResponse = highlightCodeBlocks(fullResponse);
+            addMessage('assistant', processedResponse, { tokens, reasoning: fullReasoning || undefined });
+          }
           if (fullResponse) {
             // Save for /copy command
             lastResponse.current = fullResponse;
-            // Apply syntax highlighting to code blocks
-            const processedResponse = highlightCodeBlocks(fullResponse);
-            addMessage('assistant', processedResponse, { tokens });
+            if (failedOver) {
+              addMessage('system', `↪️ Answered by ${PROVIDERS[answeredBy.provider]?.name || answeredBy.provider} (${answeredBy.model})`);
+            }
 
             // Generate AI-powered suggestions
             agent.generateSuggestions().then(aiSuggestions => {
@@ -1508,12 +2041,40 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
               }
             });
           }
+          // Unpin the plan once every step is done or skipped
+          if (agent.plan?.approved) {
+            const { finished, total } = getPlanProgress(agent.plan);
+            if (finished === total) {
+              addMessage('success', `✅ Plan complete (${total} steps)`);
+              agent.clearPlan();
+              setActivePlan(null);
+            }
+          }
           setCurrentResponse('');
+          setCurrentReasoning('');
           setIsLoading(false);
           setIsTyping(false);
           // Clear active tool calls after a short delay to show completion
           setTimeout(() => setActiveToolCalls([]), 1500);
         },
+        onAbort: () => {
+          if (updateTimer.current) {
+            clearTimeout(updateTimer.current);
+            updateTimer.current = null;
+          }
+          // The partial response and finished tool results stay in the agent's history
+          setTotalTokens(prev => prev + tokens);
+          if (fullResponse || fullReasoning) {
+            addMessage('assistant', highlightCodeBlocks(fullResponse), { tokens, reasoning: fullReasoning || undefined });
+          }
+          if (fullResponse) lastResponse.current = fullResponse;
+          addMessage('system', '⚠️ Interrupted by user');
+          setCurrentResponse('');
+          setCurrentReasoning('');
+          setIsLoading(false);
+          setIsTyping(false);
+          setActiveToolCalls([]);
+        },
         onError: (err: Error) => {
           if (updateTimer.current) {
             clearTimeout(updateTimer.current);
@@ -1523,12 +2084,36 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
           setIsLoading(false);
           setIsTyping(false);
         }
-      });
+      }, { signal: abortController.current.signal, images });
     } catch (err) {
       const error = err as Error;
       addMessage('error', error.message);
       setIsLoading(false);
       setIsTyping(false);
+    } finally {
+      abortController.current = null;
+    }
+  };
+
+  // Fetch an MCP prompt and send its messages as the next user turn
+  const runMCPPrompt = async (prompt: MCPPromptInfo, args: string): Promise<void> => {
+    const { values, missing } = parsePromptArgs(prompt, args);
+    if (missing.length > 0) {
+      const usage = prompt.arguments.map(a => a.required ? `<${a.name}>` : `[${a.name}]`).join(' ');
+      addMessage('error', `Missing argument: ${missing.join(', ')}\n\nUsage: ${promptCommandName(prompt)} ${usage}`);
+      return;
+    }
+
+    try {
+      const text = await getMCPManager().getPrompt(prompt.server, prompt.name, values);
+      if (!text.trim()) {
+        addMessage('error', `MCP prompt ${prompt.name} returned no text`);
+        return;
+      }
+      await handleSubmit(text);
+    } catch (e) {
+      const error = e as Error;
+      addMessage('error', `MCP prompt failed: ${error.message}`);
     }
   };
 
@@ -1536,10 +2121,17 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
     const [rawCommand, ...argParts] = cmd.split(' ');
     const args = argParts.join(' ');
 
+    // MCP server prompts (/server:prompt)
+    const mcpPrompt = getMCPManager().listPrompts().find(p => promptCommandName(p) === rawCommand);
+    if (mcpPrompt) {
+      await runMCPPrompt(mcpPrompt, args);
+      return;
+    }
+
     // All supported commands for partial matching
     const ALL_COMMANDS = [
       '/help', '/setup', '/providers', '/provider', '/model', '/apikey', '/auth', '/free',
-      '/clear', '/yolo', '/stats', '/context', '/config',
+      '/clear', '/compact', '/undo', '/rewind', '/yolo', '/plan', '/reasoning', '/thinking', '/jobs', '/permissions', '/hooks', '/stats', '/context', '/config',
       '/save', '/load', '/resume', '/sessions',
       '/attach', '/detach', '/files', '/preview', '/diff',
       '/export', '/history', '/copy', '/paste', '/shortcuts',
@@ -1576,7 +2168,16 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
 
 💬 CHAT:
   /clear           Clear conversation
+  /compact         Summarize older turns to free context
+  /undo            Undo file changes of the last turn
+  /rewind [n]      Restore files and conversation to before turn n
   /yolo            Toggle auto-approve
+  /plan [on|off]   Read-only plan mode (show, clear)
+  /reasoning [lvl] Reasoning: low|medium|high|<budget tokens>|off
+  /thinking        Expand/collapse model thinking (Ctrl+O)
+  /jobs [kill id]  List or stop background jobs
+  /permissions     Show tool permission policy
+  /hooks           Show lifecycle hooks
   /stats           Session statistics
   /context         Show project context
   /config          Show configuration
@@ -1588,7 +2189,7 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
   /sessions        List all saved sessions
 
 📎 FILES & CONTEXT:
-  /attach <file>   Attach file to context
+  /attach <file>   Attach file, image (PNG/JPEG/WebP) or MCP resource URI
   /detach <file>   Remove file from context
   /files           List attached files
   /preview <file>  Preview file content
@@ -1598,10 +2199,12 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
   /export [fmt]    Export chat (markdown/json/html/text)
   /history [query] Search conversation history
   /copy            Copy last response
-  /paste           Paste from clipboard
+  /paste           Paste text, or attach a clipboard image
 
 🛠️ TOOLS (AI can use):
-  bash, read, write, edit, glob, grep, web_fetch
+  bash, bash_output, bash_kill, read, write, edit, multi_edit, apply_patch, glob, grep, web_fetch
+  git_status, git_diff, git_log, git_show, git_blame, git_add, git_reset,
+  git_commit, git_restore, git_branch, git_checkout, git_stash, git_worktree
   + MCP tools from connected servers
 
 🔌 MCP (Model Context Protocol):
@@ -1609,6 +2212,8 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
   /mcp connect      Connect to configured servers
   /mcp disconnect   Disconnect all
   /mcp tools        List MCP tools
+  /mcp resources    List MCP resources (attach with /attach <uri>)
+  /mcp prompts      List MCP prompts (run as /<server>:<prompt>)
   /mcp browse       Browse popular MCP servers
   /mcp search <q>   Search MCP servers
   /mcp install <id> Install MCP server
@@ -1623,6 +2228,7 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
   Ctrl+C      Exit
   Ctrl+L      Clear screen
   Ctrl+Y      Copy last response
+  Ctrl+O      Expand/collapse thinking
   Tab         Auto-complete
   Up/Down     Input history
   ESC         Interrupt/Close menus
@@ -1633,11 +2239,66 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
       case '/clear':
         setMessages([]);
         agent.clearHistory();
+        agent.clearPlan();
+        setActivePlan(null);
+        setPendingPlan(null);
         setTotalTokens(0);
         setResponseTime(null);
         addMessage('success', 'Conversation cleared');
         break;
 
+      case '/compact': {
+        setIsLoading(true);
+        const compactResult = await agent.compactHistory();
+        setIsLoading(false);
+        if (compactResult.compacted) {
+          addMessage('success', `🗜️ Compacted ${compactResult.summarizedMessages} messages: ${formatTokenCount(compactResult.tokensBefore)} → ${formatTokenCount(compactResult.tokensAfter)} tokens`);
+        } else {
+          addMessage('system', `Nothing compacted: ${compactResult.reason}`);
+        }
+        break;
+      }
+
+      case '/undo': {
+        const undoResult = agent.undo();
+        if (undoResult) {
+          addMessage('success', `↩️ Undid turn ${undoResult.checkpoint.turn}: ${undoResult.checkpoint.prompt}\n${formatRestoreResult(undoResult, agent.cwd)}`);
+        } else {
+          addMessage('system', 'Nothing to undo.');
+        }
+        break;
+      }
+
+      case '/jobs': {
+        const jobManager = getJobManager();
+        const [action, jobId] = args.trim().split(/\s+/);
+        if (action === 'kill' && jobId) {
+          const job = jobManager.kill(jobId);
+          if (!job) {
+            addMessage('error', `No background job ${jobId}`);
+          } else {
+            addMessage('success', job.status === 'killed' ? `Stopped ${job.id}` : `${job.id} already finished`);
+          }
+        } else {
+          const running = jobManager.running().length;
+          addMessage('system', `⚙️ BACKGROUND JOBS (${running} running):\n\n${formatJobs(jobManager.list())}\n\nStop one with /jobs kill <id>`);
+        }
+        break;
+      }
+
+      case '/rewind': {
+        const checkpoints = agent.listCheckpoints();
+        const target = checkpoints.find(c => String(c.turn) === args.trim());
+        if (target) {
+          rewindTo(target.id);
+        } else if (checkpoints.length > 0) {
+          setRewindCheckpoints(checkpoints);
+        } else {
+          addMessage('system', 'No turns to rewind to.');
+        }
+        break;
+      }
+
       case '/model':
         if (args) {
           agent.model = args;
@@ -1684,11 +2345,9 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
       case '/apikey':
         if (args) {
           // Direct API key set via command line
-          const info = PROVIDER_INFO[agent.provider];
-          const keyFile = path.join(os.homedir(), `.${agent.provider}_api_key`);
+          const info = PROVIDERS[agent.provider];
           try {
-            fs.writeFileSync(keyFile, args.trim());
-            fs.chmodSync(keyFile, 0o600);
+            saveApiKey(agent.provider, args.trim());
             agent.apiKey = args.trim();
             addMessage('success', `API key saved for ${info?.name || agent.provider}`);
           } catch (e) {
@@ -1712,6 +2371,79 @@ const ChatApp: React.FC<ChatAppProps> = ({ agent, initialPrompt }) => {
         setShowYoloMenu(true);
         break;
 
+      case '/plan': {
+        const sub = args.trim().toLowerCase();
+        if (sub === 'show') {
+          addMessage('system', agent.plan
+            ? `📋 PLAN${agent.plan.approved ? '' : ' (not approved)'}:\n${agent.plan.summary}\n\n${formatPlanSteps(agent.plan, { details: true })}`
+            : 'No plan. Use /plan to enter plan mode.');
+          break;
+        }
+        if (sub === 'clear') {
+          agent.clearPlan();
+          setActivePlan(null);
+          addMessage('success', '📋 Plan cleared');
+          break;
+        }
+        const enable = sub === 'on' ? true : sub === 'off' ? false : !agent.planMode;
+        agent.setPlanMode(enable);
+        setPlanMode(enable);
+        addMessage('success', enable
+          ? '📋 Plan mode ON - read-only tools only; the AI will propose a plan for you to approve'
+          : '📋 Plan mode OFF');
+        break;
+      }
+
+      case '/reasoning': {
+        const mode = getReasoningMode(agent.model, agent.provider);
+        if (!args.trim()) {
+          const usage = !mode
+            ? 'This model has no reasoning setting.'
+            : mode === 'text'
+              ? 'This model always reasons; it takes no setting.'
+              : `Usage: /reasoning ${mode === 'effort' ? 'low|medium|high' : '<budget tokens>'}|off`;
+          addMessage('system', `💭 Reasoning for ${agent.model}: ${formatReasoningSetting(agent.reasoning[agent.model])}\n${usage}`);
+          break;
+        }
+        const setting = parseReasoningSetting(args.trim());
+        if (!setting) {
+          addMessage('error', 'Expected low, medium, high, a token budget (>= 1024) or off');
+        } else if (setting === 'off') {
+          agent.setReasoning(agent.model, null);
+          saveReasoningSetting(agent.model, null);
+          addMessage('success', `💭 Reasoning for ${agent.model} back to the model default`);
+        } else if (mode !== 'effort' && mode !== 'budget') {
+          addMessage('error', `${agent.model} takes no reasoning effort or budget`);
+        } else if ((mode === 'effort') !== Boolean(setting.effort)) {
+          addMessage('error', `${agent.model} takes ${mode === 'effort' ? 'an effort (low|medium|high)' : 'a token budget'}`);
+        } else {
+          agent.setReasoning(agent.model, setting);
+          saveReasoningSetting(agent.model, setting);
+          addMessage('success', `💭 Reasoning for ${agent.model}: ${formatReasoningSetting(setting)}`);
+        }
+        break;
+      }
+
+      case '/thinking': {
+        const sub = args.trim().toLowerCase();
+        const show = sub === 'on' ? true : sub === 'off' ? false : !showThinking;
+        setShowThinking(show);
+        addMessage('success', `💭 Thinking ${show ? 'expanded' : 'collapsed'} (Ctrl+O toggles)`);
+        break;
+      }
+
+      case '/permissions':
+        addMessage('system', `🔐 PERMISSIONS:\n\n${formatPolicy(getPermissionManager().reload(agent.cwd))}`);
+        getPermissionManager().takeWarnings().forEach(warning => addMessage('error', warning));
+        break;
+
+      case '/hooks': {
+        const hooks = getHookManager();
+        const config = hooks.reload(agent.cwd);
+        addMessage('system', `🪝 HOOKS:\n\n${formatHooks(config, hooks.getUntrustedProjectHooks())}`);
+        break;
+      }
+
       case '/config':
         addMessage('system', `⚙️ CONFIG:
 Provider: ${PROVIDERS[agent.provider]?.name || agent.provider}
@@ -1729,9 +2461,13 @@ Project Context: ${agent.projectContext ? agent.projectContext.file : 'None'}`);
 ├─ Requests: ${agent.stats.requests}
 ├─ Tool Calls: ${agent.stats.toolCalls}
 ├─ Total Tokens: ${agent.stats.totalTokens}
+├─ Last Turn: ${agent.stats.lastTurn ? formatUsage(agent.stats.lastTurn) : '-'}
+├─ Session: ${formatUsage(agent.stats)}
 ├─ Uptime: ${mins}m ${secs}s
 ├─ Provider: ${PROVIDERS[agent.provider]?.name}
 ├─ Model: ${agent.model}
+├─ Last Answered By: ${agent.stats.answeredBy ? `${agent.stats.answeredBy.provider}/${agent.stats.answeredBy.model}` : '-'}
+├─ Retries: ${agent.stats.retries} (failovers: ${agent.stats.failovers})
 └─ Project: ${agent.projectContext?.file || 'No context file'}`);
         break;
 
@@ -1908,6 +2644,11 @@ Example config:
     "filesystem": {
       "command": "npx",
       "args": ["-y", "@modelcontextprotocol/server-filesystem", "~/"]
+    },
+    "remote": {
+      "url": "https://example.com/mcp",
+      "transport": "http",
+      "headers": { "Authorization": "Bearer <token>" }
     }
   }
 }
@@ -1915,7 +2656,7 @@ Example config:
 Then run: /mcp connect`);
           } else {
             const list = servers.map(s =>
-              `• ${s.name} (${s.tools} tools)\n  ${s.toolNames.join(', ')}`
+              `• ${s.name} [${s.transport}${s.status === 'reconnecting' ? ', reconnecting…' : ''}] (${s.tools} tools, ${s.resources} resources, ${s.prompts} prompts)\n  ${s.toolNames.join(', ')}`
             ).join('\n');
             addMessage('system', `🔌 MCP SERVERS:\n\n${list}`);
           }
@@ -1937,6 +2678,27 @@ Then run: /mcp connect`);
             const list = tools.map(t => `• ${t.function.name}`).join('\n');
             addMessage('system', `🔧 MCP TOOLS:\n\n${list}`);
           }
+        } else if (mcpCmd === 'resources') {
+          const resources = mcpManager.listResources();
+          if (resources.length === 0) {
+            addMessage('system', 'No MCP resources available. Run /mcp connect first.');
+          } else {
+            const list = resources.map(r =>
+              `• [${r.server}] ${r.name}\n  ${r.uri}${r.description ? `\n  ${r.description}` : ''}`
+            ).join('\n');
+            addMessage('system', `🗂️ MCP RESOURCES:\n\n${list}\n\nAttach with /attach <uri>`);
+          }
+        } else if (mcpCmd === 'prompts') {
+          const prompts = mcpManager.listPrompts();
+          if (prompts.length === 0) {
+            addMessage('system', 'No MCP prompts available. Run /mcp connect first.');
+          } else {
+            const list = prompts.map(p => {
+              const usage = p.arguments.map(a => a.required ? `<${a.name}>` : `[${a.name}]`).join(' ');
+              return `• ${promptCommandName(p)} ${usage}${p.description ? `\n  ${p.description}` : ''}`;
+            }).join('\n');
+            addMessage('system', `💬 MCP PROMPTS:\n\n${list}`);
+          }
         } else if (mcpCmd === 'browse') {
           // Show interactive menu for MCP servers
           setShowMCPBrowseMenu(true);
@@ -1976,6 +2738,8 @@ Then run: /mcp connect`);
   /mcp connect      Connect to all configured servers
   /mcp disconnect   Disconnect from all servers
   /mcp tools        List available MCP tools
+  /mcp resources    List MCP resources (attach with /attach <uri>)
+  /mcp prompts      List MCP prompts (run as /<server>:<prompt>)
   /mcp browse       Browse popular MCP servers
   /mcp search <q>   Search MCP servers
   /mcp install <id> Install an MCP server
@@ -1987,7 +2751,29 @@ Config file: ~/.zesbe/mcp.json`);
 
       case '/attach':
         if (!args) {
-          addMessage('system', 'Usage: /attach <file-path>\n\nExample: /attach src/index.ts\n\nUse /files to see attached files');
+          addMessage('system', 'Usage: /attach <file-path|image|resource-uri>\n\nExample: /attach src/index.ts\n         /attach screenshot.png\n\nUse /files to see attached files, /mcp resources for MCP resource URIs');
+        } else if (isImagePath(args)) {
+          try {
+            const image = contextManager.current.attachImage(loadImage(args));
+            addMessage('success', `🖼️ Attached image: ${image.name} (sent with your next message)`);
+            if (!supportsVision(agent.model, agent.provider)) {
+              addMessage('system', `⚠️ ${agent.model} has no vision support. Switch models with /model before sending.`);
+            }
+          } catch (e) {
+            const error = e as Error;
+            addMessage('error', `Failed to attach: ${error.message}`);
+          }
+        } else if (/^[a-z][a-z0-9+.-]*:\/\//i.test(args) || getMCPManager().listResources().some(r => r.uri === args)) {
+          try {
+            const resource = await getMCPManager().readResource(args);
+            const listed = getMCPManager().listResources().find(r => r.uri === args);
+            const file = contextManager.current.attachResource(resource, listed?.name);
+            setAttachedFiles(contextManager.current.getAttachedFiles().map(f => f.path));
+            addMessage('success', `📎 Attached MCP resource: ${file.name} (${file.tokens} tokens, from ${resource.server})`);
+          } catch (e) {
+            const error = e as Error;
+            addMessage('error', `Failed to attach: ${error.message}`);
+          }
         } else {
           const file = contextManager.current.attachFile(args);
           if (file) {
@@ -2018,7 +2804,7 @@ Config file: ~/.zesbe/mcp.json`);
 
       case '/files':
         const files = contextManager.current.getAttachedFiles();
-        if (files.length === 0) {
+        if (files.length === 0 && contextManager.current.getAttachedImages().length === 0) {
           addMessage('system', '📁 No files attached\n\nUse /attach <file> to add files to context');
         } else {
           const info = contextManager.current.getContextInfo();
@@ -2081,6 +2867,20 @@ Config file: ~/.zesbe/mcp.json`);
         break;
 
       case '/paste':
+        const clipboardImage = await readImageFromClipboard();
+        if (clipboardImage) {
+          try {
+            const image = contextManager.current.attachImage(saveImage(clipboardImage));
+            addMessage('success', `🖼️ Pasted image: ${image.name} (sent with your next message)`);
+            if (!supportsVision(agent.model, agent.provider)) {
+              addMessage('system', `⚠️ ${agent.model} has no vision support. Switch models with /model before sending.`);
+            }
+          } catch (e) {
+            const error = e as Error;
+            addMessage('error', `Failed to paste image: ${error.message}`);
+          }
+          break;
+        }
         const clipboardText = await readFromClipboard();
         if (clipboardText) {
           setQuery(prev => prev + clipboardText);
@@ -2107,6 +2907,7 @@ Config file: ~/.zesbe/mcp.json`);
         shortcutsHelp += `  Tab            Auto-complete\n`;
         shortcutsHelp += `  Shift+Tab      Previous completion\n`;
         shortcutsHelp += `  Ctrl+Y         Copy last response\n`;
+        shortcutsHelp += `  Ctrl+O         Expand/collapse thinking\n`;
         shortcutsHelp += `  ESC            Interrupt/Close menus\n`;
         addMessage('system', shortcutsHelp);
         break;
@@ -2169,6 +2970,44 @@ Config file: ~/.zesbe/mcp.json`);
     }
   };
 
+  const handlePermissionAnswer = (answer: PermissionAnswer): void => {
+    const request = permissionRequest;
+    const resolve = permissionResolver.current;
+    permissionResolver.current = null;
+    setPermissionRequest(null);
+    if (request && answer === 'deny') {
+      addMessage('system', `🔐 Denied: ${request.toolName}`);
+    } else if (request && answer === 'always') {
+      addMessage('success', `🔐 ${request.toolName} is now always allowed`);
+    }
+    if (resolve) resolve(answer);
+  };
+
+  const handleHookTrustAnswer = (trusted: boolean): void => {
+    const request = hookTrustRequest;
+    const resolve = hookTrustResolver.current;
+    hookTrustResolver.current = null;
+    setHookTrustRequest(null);
+    if (request && trusted) addMessage('success', `🪝 Trusted project hooks: ${request.file}`);
+    if (resolve) resolve(trusted);
+  };
+
+  // Approval leaves plan mode and starts executing with the plan pinned into the system prompt
+  const handlePlanApprove = (plan: Plan): void => {
+    setPendingPlan(null);
+    agent.approvePlan(plan);
+    setPlanMode(false);
+    setActivePlan(agent.plan);
+    addMessage('success', `📋 Plan approved (${plan.steps.length} steps) - executing`);
+    handleSubmit('The plan is approved. Carry it out step by step.');
+  };
+
+  const handlePlanReject = (): void => {
+    setPendingPlan(null);
+    agent.rejectPlan();
+    addMessage('system', '📋 Plan rejected. Still in plan mode: say what to change, or /plan off to leave it.');
+  };
+
   const handleProviderSelect = (id: string): void => {
     setShowProviderMenu(false);
     const p = PROVIDERS[id];
@@ -2177,14 +3016,8 @@ Config file: ~/.zesbe/mcp.json`);
       agent.baseUrl = p.baseUrl;
 
       // Load API key for new provider
-      const keyFile = path.join(os.homedir(), p.apiKeyFile || `.${id}_api_key`);
-      if (fs.existsSync(keyFile)) {
-        try {
-          agent.apiKey = fs.readFileSync(keyFile, 'utf-8').trim();
-        } catch (_e) {
-          // Ignore read errors
-        }
-      }
+      const apiKey = getApiKey(id);
+      if (apiKey) agent.apiKey = apiKey;
 
       const firstModel = p.models?.[0];
       agent.model = typeof firstModel === 'object' ? firstModel.id : firstModel;
@@ -2227,7 +3060,7 @@ Config file: ~/.zesbe/mcp.json`);
           }, 500);
         } else {
           const list = servers.map(s =>
-            `• ${s.name} (${s.tools} tools)\n  ${s.toolNames.join(', ')}`
+            `• ${s.name} [${s.transport}${s.status === 'reconnecting' ? ', reconnecting…' : ''}] (${s.tools} tools)\n  ${s.toolNames.join(', ')}`
           ).join('\n');
           addMessage('system', `🔌 INSTALLED SERVERS (${servers.length}):\n\n${list}\n\nTo remove, edit ~/.zesbe/mcp.json`);
         }
@@ -2374,11 +3207,9 @@ Config file: ~/.zesbe/mcp.json`);
   const handleApiKeySubmit = (apiKey: string): void => {
     setShowApiKeyDialog(false);
     const providerId = apiKeyDialogProvider || agent.provider;
-    const info = PROVIDER_INFO[providerId];
-    const keyFile = path.join(os.homedir(), `.${providerId}_api_key`);
+    const info = PROVIDERS[providerId];
     try {
-      fs.writeFileSync(keyFile, apiKey);
-      fs.chmodSync(keyFile, 0o600);
+      saveApiKey(providerId, apiKey);
       if (providerId === agent.provider) {
         agent.apiKey = apiKey;
       }
@@ -2397,11 +3228,9 @@ Config file: ~/.zesbe/mcp.json`);
   // Handler for Auth dialog - API key submission
   const handleAuthApiKeySubmit = (providerId: string, apiKey: string): void => {
     setShowAuthDialog(false);
-    const info = PROVIDER_INFO[providerId];
-    const keyFile = path.join(os.homedir(), `.${providerId}_api_key`);
+    const info = PROVIDERS[providerId];
     try {
-      fs.writeFileSync(keyFile, apiKey);
-      fs.chmodSync(keyFile, 0o600);
+      saveApiKey(providerId, apiKey);
 
       // Also switch to this provider
       const providerConfig = PROVIDERS[providerId];
@@ -2433,6 +3262,7 @@ Config file: ~/.zesbe/mcp.json`);
       h(Text, { color: 'gray' }, ` • ${PROVIDERS[agent.provider]?.name || agent.provider}`),
       h(Text, { color: 'magenta' }, ` • ${agent.model}`),
       agent.yolo && h(Text, { color: 'yellow' }, ' ⚡'),
+      planMode && h(Text, { color: 'blue', bold: true }, ' 📋 PLAN'),
       h(Text, { color: 'cyan', bold: true }, '                    │'),
     ),
     h(Box, { marginBottom: 1 },
@@ -2442,7 +3272,7 @@ Config file: ~/.zesbe/mcp.json`);
     // Messages
     h(Box, { flexDirection: 'column', marginBottom: 1 },
       ...messages.slice(-15).map((msg, i) =>
-        h(Message, { key: `${i}-${msg.role}`, ...msg })
+        h(Message, { key: `${i}-${msg.role}`, ...msg, showThinking })
       ),
 
       // Active tool calls (Claude-style indicators)
@@ -2452,18 +3282,39 @@ Config file: ~/.zesbe/mcp.json`);
       isLoading && !activeToolCalls.some(tc => tc.status === 'running') && h(AssessingIndicator, { agentName: 'Zesbe' }),
 
       // Typing indicator (while AI is responding)
-      isTyping && currentResponse && h(Box, { flexDirection: 'column', marginY: 1 },
+      isTyping && (currentResponse || currentReasoning) && h(Box, { flexDirection: 'column', marginY: 1 },
         h(Box, { gap: 2 },
           h(Text, { color: 'green', bold: true }, '┌─ Assistant'),
           h(TypingIndicator, { type: 'dots' })
         ),
-        h(Box, { marginLeft: 2 },
+        currentReasoning && h(ThinkingBlock, { reasoning: currentReasoning, expanded: showThinking, streaming: !currentResponse }),
+        currentResponse && h(Box, { marginLeft: 2 },
           h(Text, { color: 'white' }, currentResponse),
           h(Text, { color: 'cyan' }, '▊')
         )
       )
     ),
 
+    // Tool permission prompt
+    permissionRequest && h(PermissionDialog, {
+      request: permissionRequest,
+      onAnswer: handlePermissionAnswer
+    }),
+
+    // A repository's own hooks wait for the user's trust
+    hookTrustRequest && h(HookTrustDialog, {
+      request: hookTrustRequest,
+      onAnswer: handleHookTrustAnswer
+    }),
+
+    // Plan mode: approve / edit / reject, then progress while executing
+    pendingPlan && !permissionRequest && h(PlanDialog, {
+      plan: pendingPlan,
+      onApprove: handlePlanApprove,
+      onReject: handlePlanReject
+    }),
+    activePlan && !pendingPlan && h(PlanProgress, { plan: activePlan }),
+
     // Menus
     showSlashMenu && h(SlashMenu, {
       query,
@@ -2510,10 +3361,10 @@ Config file: ~/.zesbe/mcp.json`);
 
     // API Key Dialog (popup modal)
     showApiKeyDialog && h(TextInputDialog, {
-      title: `API Key for ${PROVIDER_INFO[apiKeyDialogProvider]?.name || apiKeyDialogProvider}`,
+      title: `API Key for ${PROVIDERS[apiKeyDialogProvider]?.name || apiKeyDialogProvider}`,
       placeholder: 'Paste your API key here...',
-      description: PROVIDER_INFO[apiKeyDialogProvider]?.apiKeyUrl
-        ? `Get your key: ${PROVIDER_INFO[apiKeyDialogProvider].apiKeyUrl}`
+      description: PROVIDERS[apiKeyDialogProvider]?.setup?.apiKeyUrl
+        ? `Get your key: ${PROVIDERS[apiKeyDialogProvider].setup?.apiKeyUrl}`
         : undefined,
       maskInput: true,
       onSubmit: handleApiKeySubmit,
@@ -2575,6 +3426,13 @@ Config file: ~/.zesbe/mcp.json`);
       onCancel: () => setShowCustomInstallDialog(false)
     }),
 
+    // Rewind Menu
+    rewindCheckpoints && h(RewindMenu, {
+      checkpoints: rewindCheckpoints,
+      onSelect: rewindTo,
+      onCancel: () => setRewindCheckpoints(null)
+    }),
+
     // Theme Menu
     showThemeMenu && h(ThemeMenu, {
       current: themeName,
@@ -2603,7 +3461,7 @@ Config file: ~/.zesbe/mcp.json`);
           onChange: setQuery,
           onSubmit: handleSubmit,
           placeholder: 'Ketik pesan atau / untuk perintah...',
-          focus: focusMode === 'input'
+          focus: focusMode === 'input' && !permissionRequest && !hookTrustRequest && !pendingPlan
         })
       ),
       // Status line with streaming indicator
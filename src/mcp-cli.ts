@@ -1,6 +1,6 @@
 import chalk from 'chalk';
 import enquirer from 'enquirer';
-import { MCPManager } from './mcp/client.js';
+import { MCPManager, describeServerConfig, getTransportType } from './mcp/client.js';
 import {
   POPULAR_MCP_SERVERS,
   searchServers,
@@ -28,8 +28,8 @@ export async function handleMCPCommand(options: any) {
     } else {
       for (const name of servers) {
         const server = config.mcpServers![name];
-        console.log(chalk.green(`  • ${name}`));
-        console.log(chalk.gray(`    ${server.command} ${server.args?.join(' ')}`));
+        console.log(chalk.green(`  • ${name}`) + chalk.gray(` [${getTransportType(server)}]`));
+        console.log(chalk.gray(`    ${describeServerConfig(server)}`));
         console.log('');
       }
     }
@@ -0,0 +1,106 @@
+/**
+ * MCP client against in-process servers: connecting over streamable HTTP and SSE,
+ * reconnecting with backoff after the server goes away, and tool-name collisions.
+ */
+
+import { describe, it, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { MCPManager } from './client.js';
+import { startFakeMCP } from '../testing/fake-mcp.js';
+import type { FakeMCP } from '../testing/fake-mcp.js';
+
+const servers: FakeMCP[] = [];
+async function fakeServer(label: string, tools: string[]): Promise<FakeMCP> {
+  const server = await startFakeMCP(label, tools);
+  servers.push(server);
+  return server;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+describe('MCPManager', () => {
+  after(async () => {
+    await Promise.all(servers.map(server => server.close()));
+  });
+
+  it('connects over streamable HTTP and SSE and calls tools', async () => {
+    const server = await fakeServer('echo', ['say']);
+    const manager = new MCPManager();
+    try {
+      const http = await manager.connectToServer('web', { transport: 'http', url: `${server.url}/mcp` }, true);
+      const sse = await manager.connectToServer('stream', { transport: 'sse', url: `${server.url}/sse` }, true);
+      assert.deepEqual([http.success, sse.success], [true, true]);
+
+      assert.deepEqual(manager.getToolsForAI().map(t => t.function.name).sort(), ['mcp_stream_say', 'mcp_web_say']);
+      assert.equal(await manager.executeTool('mcp_web_say', { text: 'hi' }), 'echo:say:hi');
+      assert.equal(await manager.executeTool('mcp_stream_say', { text: 'yo' }), 'echo:say:yo');
+      assert.deepEqual(manager.listServers().map(s => [s.name, s.transport, s.status]), [
+        ['web', 'http', 'connected'],
+        ['stream', 'sse', 'connected']
+      ]);
+    } finally {
+      await manager.disconnectAll();
+    }
+  });
+
+  it('gives clashing tools distinct names as each server connects', async () => {
+    // mcp_a + b_c and mcp_a_b + c both sanitize to mcp_a_b_c
+    const first = await fakeServer('first', ['b_c']);
+    const second = await fakeServer('second', ['c']);
+    const manager = new MCPManager();
+    const warn = mock.method(console, 'error', () => {});
+    try {
+      await manager.connectToServer('a', { url: `${first.url}/mcp` }, true);
+      assert.deepEqual(manager.getToolsForAI().map(t => t.function.name), ['mcp_a_b_c']);
+
+      await manager.connectToServer('a_b', { url: `${second.url}/mcp` }, true);
+      const names = manager.getToolsForAI().map(t => t.function.name);
+      assert.equal(names.length, 2);
+      assert.equal(names[0], 'mcp_a_b_c');
+      assert.match(names[1], /^mcp_a_b_c_[0-9a-f]{8}$/);
+      assert.match(String(warn.mock.calls[0]?.arguments[0]), /clashes with a\/b_c/);
+
+      assert.equal(await manager.executeTool(names[0], { text: '1' }), 'first:b_c:1');
+      assert.equal(await manager.executeTool(names[1], { text: '2' }), 'second:c:2');
+    } finally {
+      warn.mock.restore();
+      await manager.disconnectAll();
+    }
+  });
+
+  it('reconnects with growing delays after the server becomes unreachable', async () => {
+    const server = await fakeServer('flaky', ['ping']);
+    const manager = new MCPManager();
+    try {
+      await manager.connectToServer('flaky', { url: `${server.url}/mcp` }, true);
+      assert.equal(await manager.executeTool('mcp_flaky_ping', { text: 'a' }), 'flaky:ping:a');
+
+      server.down = true;
+      const lostAt = Date.now();
+      const failed = await manager.executeTool('mcp_flaky_ping', { text: 'b' });
+      assert.ok(typeof failed === 'object' && 'error' in failed);
+      assert.equal(manager.listServers()[0].status, 'reconnecting');
+      assert.match(JSON.stringify(await manager.executeTool('mcp_flaky_ping', { text: 'c' })), /reconnecting/);
+
+      // First attempt after ~1s is refused; bring the server back for the second, ~2s later
+      const refused = server.rejected.length;
+      await waitFor(() => server.rejected.length > refused, 3000);
+      const firstAttempt = server.rejected[server.rejected.length - 1];
+      server.down = false;
+      await waitFor(() => manager.listServers()[0]?.status === 'connected', 5000);
+      const secondAttempt = Date.now();
+
+      assert.ok(firstAttempt - lostAt >= 900, `first retry after ${firstAttempt - lostAt}ms`);
+      assert.ok(secondAttempt - firstAttempt >= 1800, `second retry after ${secondAttempt - firstAttempt}ms`);
+      assert.equal(await manager.executeTool('mcp_flaky_ping', { text: 'd' }), 'flaky:ping:d');
+    } finally {
+      await manager.disconnectAll();
+    }
+  });
+});
@@ -1,18 +1,40 @@
 /**
  * MCP (Model Context Protocol) Client for Zesbe CLI
- * Connects to MCP servers and provides their tools to the AI
+ * Connects to MCP servers and provides their tools, resources and prompts to the AI
  */
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import type { JsonSchemaValidator, JsonSchemaType } from '@modelcontextprotocol/sdk/validation/types.js';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import type { MCPServerConfig, MCPConfig, Tool } from '../types/index.js';
+import { ToolNameRegistry } from './naming.js';
+import type {
+  MCPServerConfig,
+  MCPConfig,
+  MCPServer,
+  MCPTransportType,
+  MCPResourceInfo,
+  MCPResourceContent,
+  MCPPromptInfo,
+  Tool,
+  ToolFunction
+} from '../types/index.js';
 
 const CONFIG_DIR = path.join(os.homedir(), '.zesbe');
 const MCP_CONFIG_FILE = path.join(CONFIG_DIR, 'mcp.json');
 
+// Reconnect after an unexpected disconnect: 1s, 2s, 4s, ... capped at 30s
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const RECONNECT_MAX_ATTEMPTS = 5;
+
 // Default MCP config template
 const DEFAULT_MCP_CONFIG: MCPConfig = {
   mcpServers: {
@@ -30,16 +52,23 @@ interface MCPTool {
   description?: string;
   inputSchema?: {
     type: string;
-    properties: Record<string, unknown>;
+    properties?: Record<string, unknown>;
     required?: string[];
+    [key: string]: unknown;   // $defs, additionalProperties, etc.
   };
   _mcpServer?: string;
+  _exposedName?: string;   // Provider-safe name registered in ToolNameRegistry
 }
 
 interface MCPClientInfo {
   client: Client;
-  transport: StdioClientTransport;
+  transport: Transport;
+  transportType: MCPTransportType;
+  status: 'connected' | 'reconnecting';
+  closing?: boolean;         // Set by disconnectServer so onclose doesn't reconnect
   tools: MCPTool[];
+  resources: MCPResourceInfo[];
+  prompts: MCPPromptInfo[];
   config: MCPServerConfig;
 }
 
@@ -49,13 +78,67 @@ interface ConnectResult {
   error?: string;
 }
 
+// Full input schema as an object schema; the $schema dialect marker is dropped for providers and Ajv
+function normalizeInputSchema(schema: MCPTool['inputSchema']): Record<string, unknown> {
+  const { $schema: _dialect, ...rest } = schema || { type: 'object' };
+  return { ...rest, type: 'object', properties: rest.properties || {} };
+}
+
+export function getTransportType(config: MCPServerConfig): MCPTransportType {
+  return config.transport || (config.url ? 'http' : 'stdio');
+}
+
+// Short description of where a server runs, for listings
+export function describeServerConfig(config: MCPServerConfig): string {
+  return getTransportType(config) === 'stdio' ? [config.command, ...(config.args || [])].join(' ') : config.url || '';
+}
+
+function createTransport(config: MCPServerConfig): Transport {
+  const type = getTransportType(config);
+
+  if (type === 'stdio') {
+    if (!config.command) throw new Error('stdio server needs a "command"');
+    return new StdioClientTransport({
+      command: config.command,
+      args: config.args || [],
+      env: { ...process.env, ...config.env } as Record<string, string>
+    });
+  }
+
+  if (!config.url) throw new Error(`${type} server needs a "url"`);
+  const url = new URL(config.url);
+  const requestInit = config.headers ? { headers: config.headers } : undefined;
+  return type === 'sse'
+    ? new SSEClientTransport(url, { requestInit })
+    : new StreamableHTTPClientTransport(url, { requestInit });
+}
+
+type PromptContent = { type: string; text?: string; resource?: { uri: string; mimeType?: string; text?: string } };
+
+// Render prompt message content as plain text; non-text parts become placeholders
+function promptContentToText(content: PromptContent): string {
+  if (content.type === 'text') return content.text || '';
+  if (content.type === 'resource' && content.resource) {
+    return content.resource.text ?? `[Binary resource: ${content.resource.uri}]`;
+  }
+  return `[${content.type} content omitted]`;
+}
+
 export class MCPManager {
   private clients: Map<string, MCPClientInfo>;
   private allTools: MCPTool[];
+  private toolNames: ToolNameRegistry;
+  private schemaValidator: AjvJsonSchemaValidator;
+  private validators: Map<string, JsonSchemaValidator<unknown> | null>;
+  private reconnectTimers: Map<string, NodeJS.Timeout>;
 
   constructor() {
     this.clients = new Map();
     this.allTools = [];
+    this.toolNames = new ToolNameRegistry();
+    this.schemaValidator = new AjvJsonSchemaValidator();
+    this.validators = new Map();
+    this.reconnectTimers = new Map();
   }
 
   // Load MCP configuration
@@ -86,39 +169,66 @@ export class MCPManager {
     }
   }
 
-  // Connect to a single MCP server
-  async connectToServer(name: string, serverConfig: MCPServerConfig): Promise<ConnectResult> {
-    try {
-      const { command, args = [], env = {} } = serverConfig;
-
-      // Create transport
-      const transport = new StdioClientTransport({
-        command,
-        args,
-        env: { ...process.env, ...env } as Record<string, string>
-      });
+  // Open a connection with the transport the config asks for and list what the server offers
+  private async openClient(name: string, serverConfig: MCPServerConfig): Promise<MCPClientInfo> {
+    const transport = createTransport(serverConfig);
 
-      // Create and connect client
-      const client = new Client({
-        name: 'zesbe-cli',
-        version: '1.0.0'
-      });
+    // Create and connect client
+    const client = new Client({
+      name: 'zesbe-cli',
+      version: '1.0.0'
+    });
 
+    try {
       await client.connect(transport);
+    } catch (e) {
+      // A failed SSE start leaves its EventSource retrying; close it so it can't keep the process alive
+      await transport.close().catch(() => {});
+      throw e;
+    }
 
-      // List available tools
-      const toolsResult = await client.listTools();
-      const tools = (toolsResult.tools || []) as MCPTool[];
+    // List available tools
+    const toolsResult = await client.listTools();
+    const tools = (toolsResult.tools || []) as MCPTool[];
+
+    // Resources and prompts are optional server capabilities
+    const capabilities = client.getServerCapabilities();
+    const resources = capabilities?.resources ? await this.fetchResources(client, name) : [];
+    const prompts = capabilities?.prompts ? await this.fetchPrompts(client, name) : [];
+
+    client.onclose = () => this.handleConnectionLost(name, client);
+
+    return {
+      client,
+      transport,
+      transportType: getTransportType(serverConfig),
+      status: 'connected',
+      tools,
+      resources,
+      prompts,
+      config: serverConfig
+    };
+  }
 
-      // Store client info
-      this.clients.set(name, {
-        client,
-        transport,
-        tools,
-        config: serverConfig
-      });
+  // Connect to a single MCP server (replaces an existing connection with the same name)
+  async connectToServer(name: string, serverConfig: MCPServerConfig, quiet: boolean = false): Promise<ConnectResult> {
+    if (this.clients.has(name)) {
+      await this.disconnectServer(name);
+    }
 
-      console.log(`✅ Connected to MCP server: ${name} (${tools.length} tools)`);
+    try {
+      const info = await this.openClient(name, serverConfig);
+      this.clients.set(name, info);
+      this.rebuildToolIndex();
+
+      const { tools, resources, prompts } = info;
+      if (!quiet) {
+        const extras = [
+          resources.length > 0 && `${resources.length} resources`,
+          prompts.length > 0 && `${prompts.length} prompts`
+        ].filter(Boolean);
+        console.log(`✅ Connected to MCP server: ${name} (${[`${tools.length} tools`, ...extras].join(', ')})`);
+      }
       return { success: true, tools };
     } catch (e) {
       const error = e as Error;
@@ -127,38 +237,116 @@ export class MCPManager {
     }
   }
 
-  // Connect to all configured servers
-  async connectAll(): Promise<Array<{ name: string } & ConnectResult>> {
+  // Server crashed or the network dropped: keep the tools listed and reconnect in the background.
+  // Stdio reports this through onclose; HTTP transports only surface it as failed requests.
+  private handleConnectionLost(name: string, client: Client): void {
+    const info = this.clients.get(name);
+    if (!info || info.client !== client || info.closing) return;
+
+    info.status = 'reconnecting';
+    this.scheduleReconnect(name, 0);
+  }
+
+  private scheduleReconnect(name: string, attempt: number): void {
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+    const timer = setTimeout(() => void this.reconnect(name, attempt), delay);
+    timer.unref(); // Don't keep the process alive just to reconnect
+    this.reconnectTimers.set(name, timer);
+  }
+
+  private async reconnect(name: string, attempt: number): Promise<void> {
+    this.reconnectTimers.delete(name);
+    const info = this.clients.get(name);
+    if (!info || info.closing) return;
+
+    try {
+      const fresh = await this.openClient(name, info.config);
+      if (this.clients.get(name) !== info || info.closing) {
+        await fresh.client.close(); // Disconnected or replaced while we were reconnecting
+        return;
+      }
+      this.clients.set(name, fresh);
+      this.rebuildToolIndex();
+      info.closing = true;
+      info.client.close().catch(() => {});
+    } catch (e) {
+      if (attempt + 1 < RECONNECT_MAX_ATTEMPTS) {
+        this.scheduleReconnect(name, attempt + 1);
+        return;
+      }
+      const error = e as Error;
+      console.error(`❌ Lost connection to MCP server ${name}: ${error.message}`);
+      this.clients.delete(name);
+      this.rebuildToolIndex();
+    }
+  }
+
+  private async fetchResources(client: Client, server: string): Promise<MCPResourceInfo[]> {
+    try {
+      const { resources } = await client.listResources();
+      return resources.map(r => ({ server, uri: r.uri, name: r.name, description: r.description, mimeType: r.mimeType }));
+    } catch (_e) {
+      return [];
+    }
+  }
+
+  private async fetchPrompts(client: Client, server: string): Promise<MCPPromptInfo[]> {
+    try {
+      const { prompts } = await client.listPrompts();
+      return prompts.map(p => ({ server, name: p.name, description: p.description, arguments: p.arguments || [] }));
+    } catch (_e) {
+      return [];
+    }
+  }
+
+  // Connect to all configured servers (quiet: no success output on stdout, e.g. headless mode)
+  async connectAll(options: { quiet?: boolean } = {}): Promise<Array<{ name: string } & ConnectResult>> {
     const config = this.loadConfig();
     const servers = config.mcpServers || {};
     const results: Array<{ name: string } & ConnectResult> = [];
 
     for (const [name, serverConfig] of Object.entries(servers)) {
-      const result = await this.connectToServer(name, serverConfig);
+      const result = await this.connectToServer(name, serverConfig, options.quiet);
       results.push({ name, ...result });
     }
 
-    // Aggregate all tools
+    return results;
+  }
+
+  // Aggregate tools from connected servers and assign each a unique exposed name
+  private rebuildToolIndex(): void {
     this.allTools = [];
+    this.toolNames.clear();
+    this.validators.clear();
     for (const [name, info] of this.clients) {
       for (const tool of info.tools) {
+        const { name: exposedName, collidedWith } = this.toolNames.register(name, tool.name);
+        if (collidedWith) {
+          console.error(
+            `⚠️  MCP tool ${name}/${tool.name} clashes with ${collidedWith.server}/${collidedWith.tool}; exposed as ${exposedName}`
+          );
+        }
         this.allTools.push({
           ...tool,
-          _mcpServer: name // Track which server this tool belongs to
+          _mcpServer: name, // Track which server this tool belongs to
+          _exposedName: exposedName
         });
       }
     }
-
-    return results;
   }
 
   // Disconnect from a server
   async disconnectServer(name: string): Promise<boolean> {
+    clearTimeout(this.reconnectTimers.get(name));
+    this.reconnectTimers.delete(name);
+
     const info = this.clients.get(name);
     if (info) {
+      info.closing = true;
       try {
         await info.client.close();
         this.clients.delete(name);
+        this.rebuildToolIndex();
         return true;
       } catch (e) {
         const error = e as Error;
@@ -180,34 +368,70 @@ export class MCPManager {
     return this.allTools.map(tool => ({
       type: 'function' as const,
       function: {
-        name: `mcp_${tool._mcpServer}_${tool.name}`,
+        name: tool._exposedName!,
         description: `[MCP:${tool._mcpServer}] ${tool.description || ''}`,
-        parameters: {
-          type: 'object' as const,
-          properties: (tool.inputSchema?.properties || {}) as Record<string, { type: string; description: string }>,
-          required: tool.inputSchema?.required
-        }
+        // Pass the server's JSON Schema through unchanged
+        parameters: normalizeInputSchema(tool.inputSchema) as ToolFunction['parameters']
       }
     }));
   }
 
+  // Resolve an exposed tool name to its server and tool via the name registry
+  private resolveTool(fullName: string): { serverName: string; toolName: string; info?: MCPClientInfo; tool?: MCPTool } | null {
+    const ref = this.toolNames.resolve(fullName);
+    if (!ref) return null;
+    const info = this.clients.get(ref.server);
+    return { serverName: ref.server, toolName: ref.tool, info, tool: info?.tools.find(t => t.name === ref.tool) };
+  }
+
+  // Validate model-supplied arguments against the tool's input schema. Returns an error message, or null if valid.
+  validateToolArgs(fullName: string, args: unknown): string | null {
+    const tool = this.resolveTool(fullName)?.tool;
+    if (!tool) return null;
+
+    if (!this.validators.has(fullName)) {
+      try {
+        const schema = normalizeInputSchema(tool.inputSchema) as JsonSchemaType;
+        this.validators.set(fullName, this.schemaValidator.getValidator(schema));
+      } catch (_e) {
+        // Schema uses features Ajv can't compile; let the server validate instead
+        this.validators.set(fullName, null);
+      }
+    }
+
+    const validate = this.validators.get(fullName);
+    if (!validate) return null;
+
+    const result = validate(args ?? {});
+    return result.valid ? null : `Invalid arguments for ${tool.name}: ${result.errorMessage}`;
+  }
+
   // Execute an MCP tool
-  async executeTool(fullName: string, args: Record<string, unknown>): Promise<string | { error: string }> {
-    // Parse tool name: mcp_servername_toolname
-    const parts = fullName.replace('mcp_', '').split('_');
-    const serverName = parts[0];
-    const toolName = parts.slice(1).join('_');
+  async executeTool(fullName: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<string | { error: string }> {
+    const resolved = this.resolveTool(fullName);
+    if (!resolved) {
+      return { error: `Unknown MCP tool: ${fullName}` };
+    }
 
-    const info = this.clients.get(serverName);
+    const { serverName, toolName, info } = resolved;
     if (!info) {
       return { error: `MCP server ${serverName} not connected` };
     }
+    if (info.status === 'reconnecting') {
+      return { error: `MCP server ${serverName} is reconnecting, try again shortly` };
+    }
+
+    const validationError = this.validateToolArgs(fullName, args);
+    if (validationError) {
+      return { error: validationError };
+    }
 
     try {
+      // The signal cancels the request and sends notifications/cancelled to the server
       const result = await info.client.callTool({
         name: toolName,
         arguments: args
-      });
+      }, undefined, { signal });
 
       // Extract text content
       if (result.content) {
@@ -215,19 +439,77 @@ export class MCPManager {
       }
       return JSON.stringify(result);
     } catch (e) {
+      // JSON-RPC errors come from the server; anything else (except our own abort) means the connection is gone
+      if (!(e instanceof McpError) && !signal?.aborted) {
+        this.handleConnectionLost(serverName, info.client);
+      }
       const error = e as Error;
       return { error: error.message };
     }
   }
 
+  // Resources from all connected servers
+  listResources(): MCPResourceInfo[] {
+    return [...this.clients.values()].flatMap(info => info.resources);
+  }
+
+  // Read a resource by URI. The server is looked up from the listed resources unless given.
+  async readResource(uri: string, serverName?: string): Promise<MCPResourceContent> {
+    let server = serverName || this.listResources().find(r => r.uri === uri)?.server;
+    if (!server) {
+      // Unlisted URI (e.g. from a resource template): only unambiguous with a single resource server
+      const candidates = [...this.clients.entries()]
+        .filter(([, info]) => info.client.getServerCapabilities()?.resources)
+        .map(([name]) => name);
+      if (candidates.length !== 1) {
+        throw new Error(`Unknown MCP resource: ${uri}${candidates.length > 1 ? ' (specify the server)' : ''}`);
+      }
+      server = candidates[0];
+    }
+
+    const info = this.clients.get(server);
+    if (!info) {
+      throw new Error(`MCP server ${server} not connected`);
+    }
+
+    const result = await info.client.readResource({ uri });
+    const parts = result.contents.map(c =>
+      'text' in c ? c.text : `[Binary content: ${c.mimeType || 'unknown type'}, ${Math.floor(String(c.blob).length * 3 / 4)} bytes]`
+    );
+    return { server, uri, mimeType: result.contents[0]?.mimeType, text: parts.join('\n') };
+  }
+
+  // Prompts from all connected servers
+  listPrompts(): MCPPromptInfo[] {
+    return [...this.clients.values()].flatMap(info => info.prompts);
+  }
+
+  // Fetch a prompt and render its messages as text
+  async getPrompt(serverName: string, name: string, args: Record<string, string> = {}): Promise<string> {
+    const info = this.clients.get(serverName);
+    if (!info) {
+      throw new Error(`MCP server ${serverName} not connected`);
+    }
+
+    const result = await info.client.getPrompt({ name, arguments: args });
+    return result.messages
+      .map(m => promptContentToText(m.content as PromptContent))
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
   // List connected servers
-  listServers(): Array<{ name: string; tools: number; toolNames: string[] }> {
-    const servers: Array<{ name: string; tools: number; toolNames: string[] }> = [];
+  listServers(): MCPServer[] {
+    const servers: MCPServer[] = [];
     for (const [name, info] of this.clients) {
       servers.push({
         name,
         tools: info.tools.length,
-        toolNames: info.tools.map(t => t.name)
+        toolNames: info.tools.map(t => t.name),
+        resources: info.resources.length,
+        prompts: info.prompts.length,
+        transport: info.transportType,
+        status: info.status
       });
     }
     return servers;
@@ -0,0 +1,83 @@
+/**
+ * MCP Tool Naming
+ * Maps (server, tool) pairs to provider-safe function names and back
+ */
+
+import crypto from 'crypto';
+
+// Function names accepted by OpenAI, Anthropic and Gemini: letters, digits, _ and -, at most 64 chars
+export const MAX_TOOL_NAME_LENGTH = 64;
+const TOOL_NAME_PREFIX = 'mcp_';
+const HASH_LENGTH = 8;
+
+export interface MCPToolRef {
+  server: string;
+  tool: string;
+}
+
+export interface RegisteredToolName {
+  name: string;
+  collidedWith?: MCPToolRef; // Another tool already owned the plain name
+}
+
+function refKey(ref: MCPToolRef): string {
+  return `${ref.server}\0${ref.tool}`;
+}
+
+// Replace characters providers reject
+export function sanitizeNamePart(part: string): string {
+  return part.replace(/[^a-zA-Z0-9_-]/g, '_') || '_';
+}
+
+// Truncate and append a stable hash of the original server/tool pair
+function withHashSuffix(base: string, ref: MCPToolRef, attempt: number = 0): string {
+  const hash = crypto.createHash('sha256')
+    .update(attempt ? `${refKey(ref)}\0${attempt}` : refKey(ref))
+    .digest('hex')
+    .slice(0, HASH_LENGTH);
+  return `${base.slice(0, MAX_TOOL_NAME_LENGTH - HASH_LENGTH - 1)}_${hash}`;
+}
+
+// Reversible map between exposed names (mcp_<server>_<tool>) and the server/tool they call.
+// Underscores in server names make the exposed name ambiguous, so routing always goes through here.
+export class ToolNameRegistry {
+  private byName: Map<string, MCPToolRef>;
+  private byRef: Map<string, string>;
+
+  constructor() {
+    this.byName = new Map();
+    this.byRef = new Map();
+  }
+
+  // Assign an exposed name. The first tool registered keeps the plain name; later collisions get a hash suffix.
+  register(server: string, tool: string): RegisteredToolName {
+    const ref = { server, tool };
+    const existing = this.byRef.get(refKey(ref));
+    if (existing) return { name: existing };
+
+    const base = `${TOOL_NAME_PREFIX}${sanitizeNamePart(server)}_${sanitizeNamePart(tool)}`;
+    let name = base.length > MAX_TOOL_NAME_LENGTH ? withHashSuffix(base, ref) : base;
+    const collidedWith = this.byName.get(name);
+
+    for (let attempt = 0; this.byName.has(name); attempt++) {
+      name = withHashSuffix(base, ref, attempt);
+    }
+
+    this.byName.set(name, ref);
+    this.byRef.set(refKey(ref), name);
+    return { name, ...(collidedWith && { collidedWith }) };
+  }
+
+  resolve(name: string): MCPToolRef | undefined {
+    return this.byName.get(name);
+  }
+
+  nameFor(server: string, tool: string): string | undefined {
+    return this.byRef.get(refKey({ server, tool }));
+  }
+
+  clear(): void {
+    this.byName.clear();
+    this.byRef.clear();
+  }
+}
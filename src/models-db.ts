@@ -1,191 +1,642 @@
 /**
- * Enterprise Model Database
- * Comprehensive list of all supported AI providers and models
+ * Provider Registry & Model Database
+ * Every supported AI provider (endpoint, API style, key lookup, setup guide) and its models.
+ * Provider entries in config.json are merged in, so custom endpoints need no code.
  */
 
+import type { RetryPolicy } from './types/index.js';
+
+// USD per 1M tokens
+export interface ModelPricing {
+  input: number;
+  output: number;          // Includes reasoning tokens
+  cachedInput?: number;    // Prompt cache reads (defaults to input)
+  cacheWrite?: number;     // Prompt cache writes (defaults to input)
+}
+
 export interface ModelInfo {
   id: string;
   name: string;
   description: string;
+  contextWindow?: number;
+  pricing?: ModelPricing;  // Omitted when unknown; cost is then not reported
+  vision?: boolean;        // Accepts image input
+  reasoning?: ReasoningMode;
   recommended?: boolean;
 }
 
+// How a model reasons: 'effort' takes a reasoning effort, 'budget' a thinking token budget,
+// 'text' always streams its reasoning (reasoning_content or <think> blocks) with no setting
+export type ReasoningMode = 'effort' | 'budget' | 'text';
+
+export interface UsageForCost {
+  inputTokens: number;     // All input tokens, cached ones included
+  outputTokens: number;
+  cachedInputTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Models run locally cost nothing
+const LOCAL_PRICING: ModelPricing = { input: 0, output: 0 };
+
+// Wire format a provider speaks
+export type ProviderApi = 'openai-chat' | 'anthropic';
+
+// Setup guide shown by /setup, /free and the auth dialog
+export interface ProviderSetup {
+  website: string;
+  pricing: string;
+  freeCredits: string;
+  apiKeyUrl: string | null;
+  signupUrl: string;
+  docsUrl: string;
+  steps: string[];
+  tips: string[];
+}
+
 export interface ProviderConfig {
   name: string;
+  api: ProviderApi;
   baseUrl: string;
   apiKeyEnv: string | null;
-  apiKeyFile: string | null;
+  apiKeyFile: string | null;       // Relative to the home directory unless absolute
+  apiKey?: string;                 // Fixed key for endpoints that need none (local servers)
   description: string;
   models: ModelInfo[];
+  retry?: Partial<RetryPolicy>;
+  setup?: ProviderSetup;
+  custom?: boolean;                // Defined in config.json rather than built in
 }
 
-export const PROVIDERS: Record<string, ProviderConfig> = {
+// Provider entry in config.json. For a built-in id it overrides the given fields (models are added,
+// not replaced); any other id defines a new provider, which needs at least a baseUrl.
+export interface ProviderConfigEntry {
+  name?: string;
+  api?: ProviderApi;
+  baseUrl?: string;
+  apiKeyEnv?: string | null;
+  apiKeyFile?: string | null;
+  apiKey?: string;
+  description?: string;
+  models?: Array<string | (Partial<ModelInfo> & { id: string })>;
+  retry?: Partial<RetryPolicy>;
+  setup?: ProviderSetup;
+}
+
+const BUILTIN_PROVIDERS: Record<string, ProviderConfig> = {
   minimax: {
     name: 'MiniMax',
+    api: 'openai-chat',
     baseUrl: 'https://api.minimax.io/v1',
     apiKeyEnv: 'MINIMAX_API_KEY',
     apiKeyFile: '.minimax_api_key',
     description: 'High-performance AI with excellent coding capabilities',
+    setup: {
+      website: 'https://platform.minimax.io',
+      pricing: 'Pay-as-you-go or Coding Plan ($3/month)',
+      freeCredits: '$1 free credits on signup',
+      apiKeyUrl: 'https://platform.minimax.io/user-center/basic-information/interface-key',
+      signupUrl: 'https://platform.minimax.io/login',
+      docsUrl: 'https://platform.minimax.io/docs/guides/quickstart',
+      steps: [
+        '1. Buka https://platform.minimax.io/login',
+        '2. Daftar dengan email atau login',
+        '3. Buka Settings → API Keys',
+        '4. Klik "Create API Key"',
+        '5. Copy dan simpan API key',
+      ],
+      tips: [
+        '💡 Gunakan Coding Plan untuk harga lebih murah ($3/bulan)',
+        '💡 Compatible dengan Anthropic API format',
+        '💡 Model terbaik: MiniMax-M2.1 untuk coding',
+      ],
+    },
     models: [
-      { id: 'minimax-m2.1', name: 'MiniMax M2.1', description: 'Latest flagship - Best performance', recommended: true },
-      { id: 'minimax-m2', name: 'MiniMax M2', description: 'Standard flagship - 200k context' },
-      { id: 'abab6.5s-chat', name: 'ABAB 6.5s', description: 'Fast & efficient' },
-      { id: 'abab6.5-chat', name: 'ABAB 6.5', description: 'General purpose MoE' },
+      { id: 'minimax-m2.1', name: 'MiniMax M2.1', description: 'Latest flagship - Best performance', contextWindow: 204800, pricing: { input: 0.3, output: 1.2, cachedInput: 0.03 }, recommended: true, reasoning: 'text' },
+      { id: 'minimax-m2', name: 'MiniMax M2', description: 'Standard flagship - 200k context', contextWindow: 204800, pricing: { input: 0.3, output: 1.2, cachedInput: 0.03 }, reasoning: 'text' },
+      { id: 'abab6.5s-chat', name: 'ABAB 6.5s', description: 'Fast & efficient', contextWindow: 245760 },
+      { id: 'abab6.5-chat', name: 'ABAB 6.5', description: 'General purpose MoE', contextWindow: 8192 },
     ]
   },
   openai: {
     name: 'OpenAI',
+    api: 'openai-chat',
     baseUrl: 'https://api.openai.com/v1',
     apiKeyEnv: 'OPENAI_API_KEY',
     apiKeyFile: '.openai_api_key',
     description: 'GPT models - Industry standard',
+    setup: {
+      website: 'https://platform.openai.com',
+      pricing: 'Pay-as-you-go (from $0.50/1M tokens)',
+      freeCredits: '$5 free credits for new users',
+      apiKeyUrl: 'https://platform.openai.com/api-keys',
+      signupUrl: 'https://platform.openai.com/signup',
+      docsUrl: 'https://platform.openai.com/docs',
+      steps: [
+        '1. Buka https://platform.openai.com/signup',
+        '2. Daftar dengan Google/Microsoft/email',
+        '3. Verifikasi nomor telepon',
+        '4. Buka API Keys di menu',
+        '5. Klik "Create new secret key"',
+        '6. Copy dan simpan (hanya ditampilkan sekali!)',
+      ],
+      tips: [
+        '💡 GPT-4.1 untuk coding terbaik',
+        '💡 GPT-4o-mini untuk harga murah',
+        '💡 Set billing limit untuk kontrol budget',
+      ],
+    },
     models: [
-      { id: 'gpt-4.1', name: 'GPT-4.1', description: 'Flagship - 1M context, best coding', recommended: true },
-      { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini', description: '90% accuracy, lower cost' },
-      { id: 'gpt-4.1-nano', name: 'GPT-4.1 Nano', description: 'Ultra-fast, cost-effective' },
-      { id: 'gpt-4o', name: 'GPT-4o', description: 'Multimodal, real-time' },
-      { id: 'gpt-4o-mini', name: 'GPT-4o Mini', description: 'Fast multimodal' },
-      { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', description: 'Legacy powerful model' },
-      { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', description: 'Fast and cheap' },
-      { id: 'o1', name: 'o1', description: 'Advanced reasoning model' },
-      { id: 'o1-mini', name: 'o1 Mini', description: 'Efficient reasoning' },
+      { id: 'gpt-4.1', name: 'GPT-4.1', description: 'Flagship - 1M context, best coding', contextWindow: 1047576, pricing: { input: 2, output: 8, cachedInput: 0.5 }, vision: true, recommended: true },
+      { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini', description: '90% accuracy, lower cost', contextWindow: 1047576, pricing: { input: 0.4, output: 1.6, cachedInput: 0.1 }, vision: true },
+      { id: 'gpt-4.1-nano', name: 'GPT-4.1 Nano', description: 'Ultra-fast, cost-effective', contextWindow: 1047576, pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 }, vision: true },
+      { id: 'gpt-4o', name: 'GPT-4o', description: 'Multimodal, real-time', contextWindow: 128000, pricing: { input: 2.5, output: 10, cachedInput: 1.25 }, vision: true },
+      { id: 'gpt-4o-mini', name: 'GPT-4o Mini', description: 'Fast multimodal', contextWindow: 128000, pricing: { input: 0.15, output: 0.6, cachedInput: 0.075 }, vision: true },
+      { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', description: 'Legacy powerful model', contextWindow: 128000, pricing: { input: 10, output: 30 }, vision: true },
+      { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', description: 'Fast and cheap', contextWindow: 16385, pricing: { input: 0.5, output: 1.5 } },
+      { id: 'o1', name: 'o1', description: 'Advanced reasoning model', contextWindow: 200000, pricing: { input: 15, output: 60, cachedInput: 7.5 }, vision: true, reasoning: 'effort' },
+      { id: 'o1-mini', name: 'o1 Mini', description: 'Efficient reasoning', contextWindow: 128000, pricing: { input: 1.1, output: 4.4, cachedInput: 0.55 } },
     ]
   },
   anthropic: {
     name: 'Anthropic',
+    api: 'anthropic',
     baseUrl: 'https://api.anthropic.com/v1',
     apiKeyEnv: 'ANTHROPIC_API_KEY',
     apiKeyFile: '.anthropic_api_key',
     description: 'Claude models - Best for coding & reasoning',
+    setup: {
+      website: 'https://console.anthropic.com',
+      pricing: 'Pay-as-you-go (Sonnet: $3/$15 per 1M tokens)',
+      freeCredits: '$5 free credits for new users',
+      apiKeyUrl: 'https://console.anthropic.com/settings/keys',
+      signupUrl: 'https://console.anthropic.com',
+      docsUrl: 'https://docs.anthropic.com',
+      steps: [
+        '1. Buka https://console.anthropic.com',
+        '2. Sign up dengan email',
+        '3. Verifikasi email',
+        '4. Buka Settings → API Keys',
+        '5. Klik "Create Key"',
+        '6. Copy API key (dimulai dengan sk-ant-)',
+      ],
+      tips: [
+        '💡 Claude Opus 4 = coding terbaik di dunia',
+        '💡 Claude Sonnet 4 = balance harga & performa',
+        '💡 200k context window',
+      ],
+    },
     models: [
-      { id: 'claude-opus-4', name: 'Claude Opus 4', description: 'Most powerful - Best coding worldwide', recommended: true },
-      { id: 'claude-sonnet-4', name: 'Claude Sonnet 4', description: 'Balanced performance & cost' },
-      { id: 'claude-3.5-haiku', name: 'Claude 3.5 Haiku', description: 'Fast responses' },
-      { id: 'claude-3-opus', name: 'Claude 3 Opus', description: 'Previous flagship' },
-      { id: 'claude-3-sonnet', name: 'Claude 3 Sonnet', description: 'Previous balanced model' },
+      { id: 'claude-opus-4', name: 'Claude Opus 4', description: 'Most powerful - Best coding worldwide', contextWindow: 200000, pricing: { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 }, vision: true, recommended: true, reasoning: 'budget' },
+      { id: 'claude-sonnet-4', name: 'Claude Sonnet 4', description: 'Balanced performance & cost', contextWindow: 200000, pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 }, vision: true, reasoning: 'budget' },
+      { id: 'claude-3.5-haiku', name: 'Claude 3.5 Haiku', description: 'Fast responses', contextWindow: 200000, pricing: { input: 0.8, output: 4, cachedInput: 0.08, cacheWrite: 1 } },
+      { id: 'claude-3-opus', name: 'Claude 3 Opus', description: 'Previous flagship', contextWindow: 200000, pricing: { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 }, vision: true },
+      { id: 'claude-3-sonnet', name: 'Claude 3 Sonnet', description: 'Previous balanced model', contextWindow: 200000, pricing: { input: 3, output: 15 }, vision: true },
     ]
   },
   gemini: {
     name: 'Google Gemini',
-    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    api: 'openai-chat',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai/',
     apiKeyEnv: 'GEMINI_API_KEY',
     apiKeyFile: '.gemini_api_key',
     description: 'Google AI - Multimodal & long context',
+    setup: {
+      website: 'https://aistudio.google.com',
+      pricing: 'FREE tier available! (15 RPM)',
+      freeCredits: 'FREE tier dengan limit',
+      apiKeyUrl: 'https://aistudio.google.com/app/apikey',
+      signupUrl: 'https://aistudio.google.com',
+      docsUrl: 'https://ai.google.dev/gemini-api/docs',
+      steps: [
+        '1. Buka https://aistudio.google.com/app/apikey',
+        '2. Login dengan akun Google',
+        '3. Klik "Create API Key"',
+        '4. Pilih project (atau buat baru)',
+        '5. Copy API key',
+      ],
+      tips: [
+        '💡 GRATIS untuk penggunaan dasar!',
+        '💡 Gemini 2.0 Flash = cepat & gratis',
+        '💡 1M token context window',
+      ],
+    },
     models: [
-      { id: 'gemini-3-pro', name: 'Gemini 3 Pro', description: 'Latest - Rich visuals & interactivity', recommended: true },
-      { id: 'gemini-3-flash', name: 'Gemini 3 Flash', description: 'Fast with superior search' },
-      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Advanced reasoning - 1M context' },
-      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Price-performance optimized' },
-      { id: 'gemini-2.0-flash-exp', name: 'Gemini 2.0 Flash', description: 'Experimental latest' },
+      { id: 'gemini-3-pro', name: 'Gemini 3 Pro', description: 'Latest - Rich visuals & interactivity', contextWindow: 1048576, pricing: { input: 2, output: 12, cachedInput: 0.2 }, vision: true, recommended: true, reasoning: 'effort' },
+      { id: 'gemini-3-flash', name: 'Gemini 3 Flash', description: 'Fast with superior search', contextWindow: 1048576, pricing: { input: 0.5, output: 3, cachedInput: 0.05 }, vision: true, reasoning: 'effort' },
+      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Advanced reasoning - 1M context', contextWindow: 1048576, pricing: { input: 1.25, output: 10, cachedInput: 0.125 }, vision: true, reasoning: 'effort' },
+      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Price-performance optimized', contextWindow: 1048576, pricing: { input: 0.3, output: 2.5, cachedInput: 0.03 }, vision: true, reasoning: 'effort' },
+      { id: 'gemini-2.0-flash-exp', name: 'Gemini 2.0 Flash', description: 'Experimental latest', contextWindow: 1048576, pricing: { input: 0, output: 0 }, vision: true },
     ]
   },
   xai: {
     name: 'xAI (Grok)',
+    api: 'openai-chat',
     baseUrl: 'https://api.x.ai/v1',
     apiKeyEnv: 'XAI_API_KEY',
     apiKeyFile: '.xai_api_key',
     description: "Grok models by Elon Musk's xAI",
+    setup: {
+      website: 'https://console.x.ai',
+      pricing: 'Pay-as-you-go ($2/$10 per 1M tokens)',
+      freeCredits: '$25 free credits monthly',
+      apiKeyUrl: 'https://console.x.ai/team/default/api-keys',
+      signupUrl: 'https://accounts.x.ai/sign-up',
+      docsUrl: 'https://docs.x.ai/docs',
+      steps: [
+        '1. Buka https://console.x.ai',
+        '2. Sign up / Login',
+        '3. Top up credits jika perlu',
+        '4. Buka API Keys',
+        '5. Klik "Create New Key"',
+        '6. Copy dan simpan key',
+      ],
+      tips: [
+        '💡 $25 gratis setiap bulan!',
+        '💡 Grok 3 = 1M context window',
+        '💡 Integrasi dengan X/Twitter data',
+      ],
+    },
     models: [
-      { id: 'grok-3', name: 'Grok 3', description: 'Most advanced - 1M context', recommended: true },
-      { id: 'grok-3-mini', name: 'Grok 3 Mini', description: 'Cost-efficient reasoning' },
-      { id: 'grok-2', name: 'Grok 2', description: 'Previous flagship' },
-      { id: 'grok-2-mini', name: 'Grok 2 Mini', description: 'Fast responses' },
+      { id: 'grok-3', name: 'Grok 3', description: 'Most advanced - 1M context', contextWindow: 131072, pricing: { input: 3, output: 15, cachedInput: 0.75 }, recommended: true },
+      { id: 'grok-3-mini', name: 'Grok 3 Mini', description: 'Cost-efficient reasoning', contextWindow: 131072, pricing: { input: 0.3, output: 0.5, cachedInput: 0.075 }, reasoning: 'effort' },
+      { id: 'grok-2', name: 'Grok 2', description: 'Previous flagship', contextWindow: 131072, pricing: { input: 2, output: 10 } },
+      { id: 'grok-2-mini', name: 'Grok 2 Mini', description: 'Fast responses', contextWindow: 131072 },
     ]
   },
   deepseek: {
     name: 'DeepSeek',
+    api: 'openai-chat',
     baseUrl: 'https://api.deepseek.com/v1',
     apiKeyEnv: 'DEEPSEEK_API_KEY',
     apiKeyFile: '.deepseek_api_key',
     description: 'Chinese AI - Excellent reasoning & coding',
+    setup: {
+      website: 'https://platform.deepseek.com',
+      pricing: 'Very cheap ($0.14/$0.28 per 1M tokens)',
+      freeCredits: 'Free tier available',
+      apiKeyUrl: 'https://platform.deepseek.com/api_keys',
+      signupUrl: 'https://platform.deepseek.com/sign_up',
+      docsUrl: 'https://platform.deepseek.com/docs',
+      steps: [
+        '1. Buka https://platform.deepseek.com/sign_up',
+        '2. Daftar dengan email',
+        '3. Verifikasi email',
+        '4. Buka API Keys',
+        '5. Create new API key',
+      ],
+      tips: [
+        '💡 SANGAT MURAH - cocok untuk budget terbatas',
+        '💡 DeepSeek Coder = spesialis coding',
+        '💡 DeepSeek R1 = reasoning kuat',
+      ],
+    },
     models: [
-      { id: 'deepseek-chat', name: 'DeepSeek Chat', description: 'General chat model', recommended: true },
-      { id: 'deepseek-coder', name: 'DeepSeek Coder', description: 'Optimized for coding' },
-      { id: 'deepseek-reasoner', name: 'DeepSeek Reasoner', description: 'Advanced reasoning (R1)' },
+      { id: 'deepseek-chat', name: 'DeepSeek Chat', description: 'General chat model', contextWindow: 128000, pricing: { input: 0.28, output: 0.42, cachedInput: 0.028 }, recommended: true },
+      { id: 'deepseek-coder', name: 'DeepSeek Coder', description: 'Optimized for coding', contextWindow: 128000, pricing: { input: 0.28, output: 0.42, cachedInput: 0.028 } },
+      { id: 'deepseek-reasoner', name: 'DeepSeek Reasoner', description: 'Advanced reasoning (R1)', contextWindow: 128000, pricing: { input: 0.28, output: 0.42, cachedInput: 0.028 }, reasoning: 'text' },
     ]
   },
   groq: {
     name: 'Groq',
+    api: 'openai-chat',
     baseUrl: 'https://api.groq.com/openai/v1',
     apiKeyEnv: 'GROQ_API_KEY',
     apiKeyFile: '.groq_api_key',
     description: 'Ultra-fast inference on LPU',
+    setup: {
+      website: 'https://console.groq.com',
+      pricing: 'FREE tier with limits',
+      freeCredits: 'FREE - generous limits',
+      apiKeyUrl: 'https://console.groq.com/keys',
+      signupUrl: 'https://console.groq.com',
+      docsUrl: 'https://console.groq.com/docs',
+      steps: [
+        '1. Buka https://console.groq.com',
+        '2. Sign up dengan email/Google',
+        '3. Buka API Keys',
+        '4. Create API Key',
+        '5. Copy key',
+      ],
+      tips: [
+        '💡 GRATIS & SANGAT CEPAT!',
+        '💡 Llama 3.3 70B gratis',
+        '💡 Perfect untuk testing & development',
+      ],
+    },
     models: [
-      { id: 'llama-3.3-70b-versatile', name: 'Llama 3.3 70B', description: 'Best open model', recommended: true },
-      { id: 'llama-3.1-8b-instant', name: 'Llama 3.1 8B', description: 'Ultra-fast' },
-      { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B', description: 'MoE architecture' },
-      { id: 'gemma2-9b-it', name: 'Gemma 2 9B', description: 'Google open model' },
+      { id: 'llama-3.3-70b-versatile', name: 'Llama 3.3 70B', description: 'Best open model', contextWindow: 131072, pricing: { input: 0.59, output: 0.79 }, recommended: true },
+      { id: 'llama-3.1-8b-instant', name: 'Llama 3.1 8B', description: 'Ultra-fast', contextWindow: 131072, pricing: { input: 0.05, output: 0.08 } },
+      { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B', description: 'MoE architecture', contextWindow: 32768, pricing: { input: 0.24, output: 0.24 } },
+      { id: 'gemma2-9b-it', name: 'Gemma 2 9B', description: 'Google open model', contextWindow: 8192, pricing: { input: 0.2, output: 0.2 } },
     ]
   },
   ollama: {
     name: 'Ollama (Local)',
+    api: 'openai-chat',
     baseUrl: 'http://localhost:11434/v1',
     apiKeyEnv: null,
     apiKeyFile: null,
+    apiKey: 'ollama',
     description: 'Local LLM hosting - Free & private',
+    setup: {
+      website: 'https://ollama.ai',
+      pricing: 'FREE - runs on your machine',
+      freeCredits: 'Completely FREE',
+      apiKeyUrl: null,
+      signupUrl: 'https://ollama.ai/download',
+      docsUrl: 'https://ollama.ai/docs',
+      steps: [
+        '1. Install Ollama: curl -fsSL https://ollama.ai/install.sh | sh',
+        '2. Jalankan: ollama serve',
+        '3. Download model: ollama pull llama3.2',
+        '4. Tidak perlu API key!',
+      ],
+      tips: [
+        '💡 100% GRATIS & PRIVATE',
+        '💡 Data tidak dikirim ke cloud',
+        '💡 Butuh GPU/RAM besar untuk model besar',
+      ],
+    },
     models: [
-      { id: 'llama3.2', name: 'Llama 3.2', description: 'Latest Llama', recommended: true },
-      { id: 'llama3.1', name: 'Llama 3.1', description: 'Stable Llama' },
-      { id: 'codellama', name: 'Code Llama', description: 'Coding specialized' },
-      { id: 'mistral', name: 'Mistral', description: 'European AI' },
-      { id: 'mixtral', name: 'Mixtral', description: 'MoE model' },
-      { id: 'qwen2.5-coder', name: 'Qwen 2.5 Coder', description: 'Alibaba coding model' },
-      { id: 'deepseek-coder-v2', name: 'DeepSeek Coder v2', description: 'Local DeepSeek' },
+      { id: 'llama3.2', name: 'Llama 3.2', description: 'Latest Llama', contextWindow: 131072, pricing: LOCAL_PRICING, recommended: true },
+      { id: 'llama3.1', name: 'Llama 3.1', description: 'Stable Llama', contextWindow: 131072, pricing: LOCAL_PRICING },
+      { id: 'codellama', name: 'Code Llama', description: 'Coding specialized', contextWindow: 16384, pricing: LOCAL_PRICING },
+      { id: 'mistral', name: 'Mistral', description: 'European AI', contextWindow: 32768, pricing: LOCAL_PRICING },
+      { id: 'mixtral', name: 'Mixtral', description: 'MoE model', contextWindow: 32768, pricing: LOCAL_PRICING },
+      { id: 'qwen2.5-coder', name: 'Qwen 2.5 Coder', description: 'Alibaba coding model', contextWindow: 32768, pricing: LOCAL_PRICING },
+      { id: 'deepseek-coder-v2', name: 'DeepSeek Coder v2', description: 'Local DeepSeek', contextWindow: 163840, pricing: LOCAL_PRICING },
     ]
   },
   glm: {
     name: 'GLM (Z.AI)',
+    api: 'openai-chat',
     baseUrl: 'https://api.z.ai/api/coding/paas/v4/',
     apiKeyEnv: 'GLM_API_KEY',
     apiKeyFile: '.glm_api_key',
     description: 'Chinese GLM models - GLM Coding Plan ($3/mo)',
+    setup: {
+      website: 'https://z.ai',
+      pricing: 'Coding Plan: $3/month',
+      freeCredits: 'Free trial available',
+      apiKeyUrl: 'https://z.ai/manage-apikey/apikey-list',
+      signupUrl: 'https://z.ai/model-api',
+      docsUrl: 'https://docs.z.ai',
+      steps: [
+        '1. Buka https://z.ai/model-api',
+        '2. Register / Login',
+        '3. Buka Billing → Top up jika perlu',
+        '4. Buka API Keys',
+        '5. Create new API key',
+      ],
+      tips: [
+        '💡 GLM Coding Plan = $3/bulan unlimited',
+        '💡 Compatible dengan Claude Code',
+        '💡 GLM-4.7 untuk coding',
+      ],
+    },
     models: [
-      { id: 'glm-4.7', name: 'GLM-4.7', description: 'Latest & best for coding (200k context)', recommended: true },
-      { id: 'glm-4.6', name: 'GLM-4.6', description: 'Previous flagship model' },
-      { id: 'glm-4.5', name: 'GLM-4.5', description: 'Hybrid reasoning model' },
-      { id: 'glm-4.5-air', name: 'GLM-4.5 Air', description: 'Lightweight & fast' },
+      { id: 'glm-4.7', name: 'GLM-4.7', description: 'Latest & best for coding (200k context)', contextWindow: 200000, pricing: { input: 0.6, output: 2.2, cachedInput: 0.11 }, recommended: true, reasoning: 'text' },
+      { id: 'glm-4.6', name: 'GLM-4.6', description: 'Previous flagship model', contextWindow: 200000, pricing: { input: 0.6, output: 2.2, cachedInput: 0.11 }, reasoning: 'text' },
+      { id: 'glm-4.5', name: 'GLM-4.5', description: 'Hybrid reasoning model', contextWindow: 131072, pricing: { input: 0.6, output: 2.2, cachedInput: 0.11 }, reasoning: 'text' },
+      { id: 'glm-4.5-air', name: 'GLM-4.5 Air', description: 'Lightweight & fast', contextWindow: 131072, pricing: { input: 0.2, output: 1.1, cachedInput: 0.03 } },
     ]
   },
   mistral: {
     name: 'Mistral AI',
+    api: 'openai-chat',
     baseUrl: 'https://api.mistral.ai/v1',
     apiKeyEnv: 'MISTRAL_API_KEY',
     apiKeyFile: '.mistral_api_key',
     description: 'European AI - Open weights available',
+    setup: {
+      website: 'https://console.mistral.ai',
+      pricing: 'Pay-as-you-go',
+      freeCredits: 'Free tier available',
+      apiKeyUrl: 'https://console.mistral.ai/api-keys',
+      signupUrl: 'https://console.mistral.ai',
+      docsUrl: 'https://docs.mistral.ai',
+      steps: [
+        '1. Buka https://console.mistral.ai',
+        '2. Sign up dengan email',
+        '3. Buka API Keys',
+        '4. Create new key',
+      ],
+      tips: [
+        '💡 Codestral = coding specialist',
+        '💡 Open weights tersedia',
+        '💡 European company - GDPR compliant',
+      ],
+    },
     models: [
-      { id: 'mistral-large-latest', name: 'Mistral Large', description: 'Flagship model', recommended: true },
-      { id: 'mistral-medium-latest', name: 'Mistral Medium', description: 'Balanced' },
-      { id: 'mistral-small-latest', name: 'Mistral Small', description: 'Fast & efficient' },
-      { id: 'codestral-latest', name: 'Codestral', description: 'Coding specialized' },
+      { id: 'mistral-large-latest', name: 'Mistral Large', description: 'Flagship model', contextWindow: 128000, pricing: { input: 2, output: 6 }, recommended: true },
+      { id: 'mistral-medium-latest', name: 'Mistral Medium', description: 'Balanced', contextWindow: 128000, pricing: { input: 0.4, output: 2 }, vision: true },
+      { id: 'mistral-small-latest', name: 'Mistral Small', description: 'Fast & efficient', contextWindow: 128000, pricing: { input: 0.1, output: 0.3 }, vision: true },
+      { id: 'codestral-latest', name: 'Codestral', description: 'Coding specialized', contextWindow: 256000, pricing: { input: 0.3, output: 0.9 } },
     ]
   },
   perplexity: {
     name: 'Perplexity',
+    api: 'openai-chat',
     baseUrl: 'https://api.perplexity.ai',
     apiKeyEnv: 'PERPLEXITY_API_KEY',
     apiKeyFile: '.perplexity_api_key',
     description: 'Search-augmented AI',
+    setup: {
+      website: 'https://www.perplexity.ai',
+      pricing: 'Pay-as-you-go',
+      freeCredits: 'Free tier available',
+      apiKeyUrl: 'https://www.perplexity.ai/settings/api',
+      signupUrl: 'https://www.perplexity.ai',
+      docsUrl: 'https://docs.perplexity.ai',
+      steps: [
+        '1. Buka https://www.perplexity.ai',
+        '2. Sign up / Login',
+        '3. Buka Settings → API',
+        '4. Generate API key',
+      ],
+      tips: [
+        '💡 Real-time internet search',
+        '💡 Sonar Pro = search + reasoning',
+        '💡 Great untuk riset & fact-checking',
+      ],
+    },
     models: [
-      { id: 'sonar-pro', name: 'Sonar Pro', description: 'Best search-augmented', recommended: true },
-      { id: 'sonar', name: 'Sonar', description: 'Standard search model' },
-      { id: 'sonar-reasoning-pro', name: 'Sonar Reasoning Pro', description: 'Deep reasoning' },
+      { id: 'sonar-pro', name: 'Sonar Pro', description: 'Best search-augmented', contextWindow: 200000, pricing: { input: 3, output: 15 }, recommended: true },
+      { id: 'sonar', name: 'Sonar', description: 'Standard search model', contextWindow: 127072, pricing: { input: 1, output: 1 } },
+      { id: 'sonar-reasoning-pro', name: 'Sonar Reasoning Pro', description: 'Deep reasoning', contextWindow: 128000, pricing: { input: 2, output: 8 }, reasoning: 'text' },
     ]
   },
   openrouter: {
     name: 'OpenRouter',
+    api: 'openai-chat',
     baseUrl: 'https://openrouter.ai/api/v1',
     apiKeyEnv: 'OPENROUTER_API_KEY',
     apiKeyFile: '.openrouter_api_key',
     description: 'Multi-provider aggregator - Access all models',
+    setup: {
+      website: 'https://openrouter.ai',
+      pricing: 'Pay-as-you-go (varies by model)',
+      freeCredits: 'Some free models available',
+      apiKeyUrl: 'https://openrouter.ai/settings/keys',
+      signupUrl: 'https://openrouter.ai',
+      docsUrl: 'https://openrouter.ai/docs',
+      steps: [
+        '1. Buka https://openrouter.ai',
+        '2. Sign in dengan Google/GitHub',
+        '3. Buka Settings → Keys',
+        '4. Create API key',
+        '5. Add credits jika perlu',
+      ],
+      tips: [
+        '💡 Akses SEMUA model dari 1 API key',
+        '💡 Beberapa model gratis!',
+        '💡 Great untuk testing berbagai model',
+      ],
+    },
     models: [
-      { id: 'anthropic/claude-3.5-sonnet', name: 'Claude 3.5 Sonnet', description: 'Via OpenRouter' },
-      { id: 'openai/gpt-4o', name: 'GPT-4o', description: 'Via OpenRouter' },
-      { id: 'google/gemini-pro-1.5', name: 'Gemini Pro 1.5', description: 'Via OpenRouter' },
-      { id: 'meta-llama/llama-3.1-405b', name: 'Llama 3.1 405B', description: 'Largest open model' },
+      { id: 'anthropic/claude-3.5-sonnet', name: 'Claude 3.5 Sonnet', description: 'Via OpenRouter', contextWindow: 200000, pricing: { input: 3, output: 15 }, vision: true },
+      { id: 'openai/gpt-4o', name: 'GPT-4o', description: 'Via OpenRouter', contextWindow: 128000, pricing: { input: 2.5, output: 10 }, vision: true },
+      { id: 'google/gemini-pro-1.5', name: 'Gemini Pro 1.5', description: 'Via OpenRouter', contextWindow: 2000000, pricing: { input: 1.25, output: 5 }, vision: true },
+      { id: 'meta-llama/llama-3.1-405b', name: 'Llama 3.1 405B', description: 'Largest open model', contextWindow: 131072 },
     ]
   }
 };
 
+// Built-in providers plus the ones from config (see registerProviders)
+export const PROVIDERS: Record<string, ProviderConfig> = { ...BUILTIN_PROVIDERS };
+
+// Older model IDs still accepted in config; looked up for context window and pricing, not listed in menus
+const LEGACY_MODELS: ModelInfo[] = [
+  { id: 'gpt-4', name: 'GPT-4', description: 'Legacy', contextWindow: 8192, pricing: { input: 30, output: 60 } },
+  { id: 'claude-3.5-sonnet', name: 'Claude 3.5 Sonnet', description: 'Legacy', contextWindow: 200000, pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 }, vision: true },
+  { id: 'claude-3-haiku', name: 'Claude 3 Haiku', description: 'Legacy', contextWindow: 200000, pricing: { input: 0.25, output: 1.25, cachedInput: 0.03, cacheWrite: 0.3 }, vision: true },
+  { id: 'glm-4-plus', name: 'GLM-4 Plus', description: 'Legacy', contextWindow: 128000 },
+  { id: 'glm-4-flash', name: 'GLM-4 Flash', description: 'Legacy', contextWindow: 128000, pricing: { input: 0, output: 0 } },
+  { id: 'glm-4-long', name: 'GLM-4 Long', description: 'Legacy', contextWindow: 1000000 },
+  { id: 'gemini-pro', name: 'Gemini Pro', description: 'Legacy', contextWindow: 32000 },
+  { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', description: 'Legacy', contextWindow: 2000000, pricing: { input: 1.25, output: 5 }, vision: true },
+  { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash', description: 'Legacy', contextWindow: 1000000, pricing: { input: 0.075, output: 0.3 }, vision: true },
+  { id: 'abab6.5', name: 'ABAB 6.5', description: 'Legacy', contextWindow: 8192 },
+  { id: 'abab6.5s', name: 'ABAB 6.5s', description: 'Legacy', contextWindow: 245760 },
+  { id: 'llama3', name: 'Llama 3', description: 'Legacy (Ollama)', contextWindow: 8192, pricing: LOCAL_PRICING },
+];
+
+// Comparable form of a model ID: lowercase, dots as dashes ("claude-3.5-sonnet" = "claude-3-5-sonnet")
+function normalizeModelId(id: string): string {
+  return id.toLowerCase().replace(/\./g, '-');
+}
+
+// Find a model by ID, preferring the given provider's list. Dated or tagged variants
+// ("gpt-4o-2024-08-06", "llama3.1:8b") match the longest known base ID.
+export function findModel(modelId: string, providerId?: string): ModelInfo | null {
+  const providerModels = providerId ? getModelsForProvider(providerId) : [];
+  const candidates = [
+    ...providerModels,
+    ...Object.values(PROVIDERS).flatMap(p => p.models),
+    ...LEGACY_MODELS
+  ];
+
+  const bare = modelId.includes('/') && !candidates.some(m => m.id === modelId)
+    ? modelId.slice(modelId.lastIndexOf('/') + 1)
+    : modelId;
+  const wanted = normalizeModelId(bare);
+
+  const exact = candidates.find(m => normalizeModelId(m.id) === wanted);
+  if (exact) return exact;
+
+  let best: ModelInfo | null = null;
+  for (const model of candidates) {
+    const id = normalizeModelId(model.id);
+    const isVariant = wanted.startsWith(id) && /^[-:]/.test(wanted.slice(id.length));
+    if (isVariant && (!best || id.length > normalizeModelId(best.id).length)) {
+      best = model;
+    }
+  }
+  return best;
+}
+
+// Context window in tokens (conservative default for unknown models)
+export function getModelContextWindow(modelId: string, providerId?: string): number {
+  return findModel(modelId, providerId)?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+}
+
+// Pricing per 1M tokens, or null when unknown
+export function getModelPricing(modelId: string, providerId?: string): ModelPricing | null {
+  return findModel(modelId, providerId)?.pricing || null;
+}
+
+// Whether the model accepts image parts
+export function supportsVision(modelId: string, providerId?: string): boolean {
+  return !!findModel(modelId, providerId)?.vision;
+}
+
+export function getReasoningMode(modelId: string, providerId?: string): ReasoningMode | null {
+  return findModel(modelId, providerId)?.reasoning || null;
+}
+
+// Cost in USD; cached reads and cache writes are billed at their own rates
+export function calculateCost(usage: UsageForCost, pricing: ModelPricing): number {
+  const cached = usage.cachedInputTokens || 0;
+  const cacheWrite = usage.cacheWriteTokens || 0;
+  const uncached = Math.max(0, usage.inputTokens - cached - cacheWrite);
+
+  return (
+    uncached * pricing.input +
+    cached * (pricing.cachedInput ?? pricing.input) +
+    cacheWrite * (pricing.cacheWrite ?? pricing.input) +
+    usage.outputTokens * pricing.output
+  ) / 1000000;
+}
+
+// Rebuild the registry from the built-in providers and the config's provider entries.
+// Entries for unknown ids without a baseUrl are skipped.
+export function registerProviders(entries: Record<string, ProviderConfigEntry> = {}): void {
+  for (const id of Object.keys(PROVIDERS)) delete PROVIDERS[id];
+  Object.assign(PROVIDERS, BUILTIN_PROVIDERS);
+
+  for (const [id, entry] of Object.entries(entries)) {
+    const base = BUILTIN_PROVIDERS[id];
+    if (!base && !entry.baseUrl) continue;
+
+    const { models: extraModels, ...fields } = entry;
+    const models = [...(base?.models || [])];
+    for (const model of extraModels || []) {
+      const info = typeof model === 'string' ? { id: model } : model;
+      const index = models.findIndex(m => m.id === info.id);
+      if (index >= 0) {
+        if (typeof model !== 'string') models[index] = { ...models[index], ...info };
+        continue;
+      }
+      // A bare ID borrows what is known about the model (context window, pricing) from other providers
+      const known = typeof model === 'string' ? findModel(info.id) : null;
+      models.push({
+        name: info.id,
+        description: base ? 'Added in config' : `${entry.name || id} model`,
+        ...known,
+        ...info,
+        recommended: info.recommended
+      });
+    }
+
+    PROVIDERS[id] = {
+      ...(base || {
+        name: id,
+        api: 'openai-chat',
+        baseUrl: '',
+        apiKeyEnv: null,
+        apiKeyFile: `.${id}_api_key`,
+        description: 'Custom provider',
+        custom: true
+      }),
+      ...fields,
+      models
+    } as ProviderConfig;
+  }
+}
+
 // Get all providers as array
 export function getProviderList(): Array<{ id: string } & ProviderConfig> {
   return Object.entries(PROVIDERS).map(([id, provider]) => ({
@@ -0,0 +1,140 @@
+/**
+ * Permission policy: rule precedence, wildcard tool keys, project tightening and bash command matching
+ */
+
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { PermissionPolicy } from '../types/index.js';
+
+// The global policy lives under ~/.zesbe
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+const project = fs.mkdtempSync(path.join(os.tmpdir(), 'zesbe-permissions-'));
+
+const { PermissionManager, GLOBAL_POLICY_FILE, PROJECT_POLICY_FILE } = await import('./manager.js');
+type Policy = Partial<PermissionPolicy>;
+
+function writePolicies(global: Policy | null, projectPolicy: Policy | null = null): InstanceType<typeof PermissionManager> {
+  fs.rmSync(GLOBAL_POLICY_FILE, { force: true });
+  fs.rmSync(path.join(project, PROJECT_POLICY_FILE), { force: true });
+  if (global) {
+    fs.mkdirSync(path.dirname(GLOBAL_POLICY_FILE), { recursive: true });
+    fs.writeFileSync(GLOBAL_POLICY_FILE, JSON.stringify(global));
+  }
+  if (projectPolicy) {
+    fs.mkdirSync(path.join(project, '.zesbe'), { recursive: true });
+    fs.writeFileSync(path.join(project, PROJECT_POLICY_FILE), JSON.stringify(projectPolicy));
+  }
+  const permissions = new PermissionManager();
+  permissions.reload(project);
+  return permissions;
+}
+
+const bash = (permissions: InstanceType<typeof PermissionManager>, command: string) =>
+  permissions.check('bash', { command }, project).action;
+
+describe('PermissionManager', () => {
+  after(() => {
+    fs.rmSync(project, { recursive: true, force: true });
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('lets the most restrictive matching rule win, and rules win over "always allow"', () => {
+    const permissions = writePolicies({
+      tools: { bash: 'allow' },
+      rules: [
+        { tool: 'bash', command: 'npm *', action: 'allow' },
+        { tool: 'bash', command: 'npm publish*', action: 'ask' },
+        { tool: 'bash', command: 'npm publish --force*', action: 'deny' }
+      ]
+    });
+    assert.equal(bash(permissions, 'npm test'), 'allow');
+    assert.equal(bash(permissions, 'npm publish'), 'ask');
+    assert.equal(bash(permissions, 'npm publish --force'), 'deny');
+    assert.equal(bash(permissions, 'cd pkg && npm publish --force'), 'deny');
+
+    permissions.allowAlways('bash');
+    assert.equal(bash(permissions, 'npm publish'), 'ask');
+  });
+
+  it('picks an exact tool key over a wildcard, and a longer wildcard over a shorter one', () => {
+    const permissions = writePolicies({
+      defaultAction: 'deny',
+      tools: { 'mcp_*': 'ask', 'mcp_github_*': 'allow', mcp_github_delete_repo: 'deny' }
+    });
+    assert.equal(permissions.check('mcp_slack_post').action, 'ask');
+    assert.equal(permissions.check('mcp_github_list_issues').action, 'allow');
+    assert.equal(permissions.check('mcp_github_delete_repo').action, 'deny');
+    assert.equal(permissions.check('write', { file_path: 'x' }, project).action, 'deny');
+  });
+
+  it('only lets a project policy make things stricter', () => {
+    const permissions = writePolicies(
+      { defaultAction: 'ask', tools: { bash: 'allow' }, rules: [] },
+      {
+        defaultAction: 'allow',
+        tools: { bash: 'ask', write: 'allow', 'git_*': 'deny' },
+        rules: [
+          { tool: 'bash', command: 'curl*', action: 'deny' },
+          { tool: 'bash', command: 'rm*', action: 'allow' }
+        ]
+      }
+    );
+    const policy = permissions.getPolicy();
+    assert.equal(policy.defaultAction, 'ask');
+    assert.equal(policy.tools.bash, 'ask');
+    assert.notEqual(policy.tools.write, 'allow');
+    assert.equal(permissions.check('git_commit').action, 'deny');
+    assert.equal(bash(permissions, 'curl https://example.com'), 'deny');
+    assert.equal(bash(permissions, 'rm notes.txt'), 'ask');
+
+    const warnings = permissions.takeWarnings().join('\n');
+    assert.match(warnings, /defaultAction "allow"/);
+    assert.match(warnings, /tools\.write "allow"/);
+    assert.match(warnings, /allow rule for bash/);
+  });
+
+  it('keeps the built-in denies when the global file replaces the default rules', () => {
+    const permissions = writePolicies({ tools: { bash: 'allow' }, rules: [] });
+    assert.equal(bash(permissions, 'rm -rf build'), 'allow');
+    assert.equal(bash(permissions, 'rm -rf /'), 'deny');
+    assert.equal(bash(permissions, 'rm -rf ~'), 'deny');
+  });
+
+  it('sees through wrappers, spacing and flag order in deny and ask rules', () => {
+    const permissions = writePolicies(null);
+    for (const command of [
+      'sudo rm -rf /',
+      'sudo -u root rm -rf /',
+      'rm  -rf /',
+      'rm -fr /',
+      'rm -r -f /',
+      'rm --recursive --force /',
+      'rm -rf /*',
+      'rm -rf / --no-preserve-root',
+      'rm -rf build /',
+      'FOO=1 rm -rf ~',
+      'env HOME=/tmp command rm -rf ~/',
+      'rm -rf "$HOME"',
+      'cd /tmp && sudo rm -rf /'
+    ]) {
+      assert.equal(bash(permissions, command), 'deny', command);
+    }
+
+    assert.equal(bash(permissions, 'rm -fr build'), 'ask');
+    assert.equal(bash(permissions, 'sudo rm -r -f build'), 'ask');
+    assert.equal(bash(permissions, 'rm -rf /tmp/build'), 'ask');
+  });
+
+  it('matches allow rules only against the command as written', () => {
+    const permissions = writePolicies({
+      rules: [{ tool: 'bash', command: 'npm test*', action: 'allow' }]
+    });
+    assert.equal(bash(permissions, 'npm test'), 'allow');
+    assert.equal(bash(permissions, 'sudo npm test'), 'ask');
+    assert.equal(bash(permissions, 'NODE_OPTIONS=--require=./x.js npm test'), 'ask');
+  });
+});
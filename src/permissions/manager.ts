@@ -0,0 +1,365 @@
+/**
+ * Permission Manager for Zesbe CLI
+ * Decides whether a tool call is allowed, needs approval, or is denied
+ * based on a policy file (per-tool actions + argument pattern rules)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { getPatchPaths } from '../utils/patch.js';
+import type {
+  PermissionAction,
+  PermissionDecision,
+  PermissionPolicy,
+  PermissionRule,
+  ToolRefusal
+} from '../types/index.js';
+
+const CONFIG_DIR = path.join(os.homedir(), '.zesbe');
+const GLOBAL_POLICY_FILE = path.join(CONFIG_DIR, 'permissions.json');
+const PROJECT_POLICY_FILE = path.join('.zesbe', 'permissions.json');
+
+// Always in effect; policy files add rules after these but can't remove them
+const BUILTIN_DENY_RULES: PermissionRule[] = [
+  { tool: 'bash', command: 'rm -rf /', action: 'deny', reason: 'Recursive delete of filesystem root' },
+  { tool: 'bash', command: 'rm -rf ~', action: 'deny', reason: 'Recursive delete of home directory' }
+];
+
+// Default policy: read-only tools run freely, everything else asks first
+const DEFAULT_POLICY: PermissionPolicy = {
+  defaultAction: 'ask',
+  tools: {
+    read: 'allow',
+    bash_output: 'allow',
+    glob: 'allow',
+    grep: 'allow',
+    web_fetch: 'allow',
+    list_mcp_resources: 'allow',
+    git_status: 'allow',
+    git_diff: 'allow',
+    git_log: 'allow',
+    git_show: 'allow',
+    git_blame: 'allow',
+    task: 'allow',  // The subagent's own tool calls are checked one by one
+    submit_plan: 'allow',
+    update_plan: 'allow'
+  },
+  rules: [
+    ...BUILTIN_DENY_RULES,
+    { tool: 'bash', command: 'rm -rf*', action: 'ask', reason: 'Recursive delete' },
+    { tool: 'bash', command: 'git push*--force*', action: 'ask', reason: 'Force push' },
+    { tool: 'write', outsideCwd: true, action: 'ask', reason: 'Writes outside the working directory' },
+    { tool: 'edit', outsideCwd: true, action: 'ask', reason: 'Edits outside the working directory' },
+    { tool: 'multi_edit', outsideCwd: true, action: 'ask', reason: 'Edits outside the working directory' },
+    { tool: 'apply_patch', outsideCwd: true, action: 'ask', reason: 'Patches files outside the working directory' },
+    { tool: 'git_stash', args: { action: 'drop' }, action: 'ask', reason: 'Drops a stash' },
+    { tool: 'git_worktree', args: { action: 'remove' }, action: 'ask', reason: 'Removes a worktree' }
+  ]
+};
+
+// Most restrictive action wins when several rules match
+const ACTION_WEIGHT: Record<PermissionAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+// Convert a simple glob (* and ?) to an anchored RegExp
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 's');
+}
+
+// Split a shell command into its chained parts so "cd x && rm -rf y" still matches "rm -rf*"
+function splitCommand(command: string): string[] {
+  const parts = command.split(/&&|\|\||;|\||\n/).map(p => p.trim()).filter(Boolean);
+  return [command.trim(), ...parts];
+}
+
+// Wrappers that run the rest of the line as a command: "sudo rm -rf /" still deletes "/"
+const COMMAND_PREFIX = /^(?:sudo(?: (?:-[ug] \S+|-\S+))*|env(?: (?:-u \S+|-\S+))*|command|[A-Za-z_]\w*=(?:"[^"]*"|'[^']*'|\S)*) /;
+
+// A chained part as deny and ask rules see it: whitespace collapsed and wrappers stripped.
+// rm is rewritten to one "rm -rf <target>" per target, so "rm -fr /*" and "rm -r -f ~/" match "rm -rf /" and "rm -rf ~".
+function normalizeCommand(part: string): string[] {
+  let command = part.replace(/\s+/g, ' ').trim();
+  for (let prefix = command.match(COMMAND_PREFIX); prefix; prefix = command.match(COMMAND_PREFIX)) {
+    command = command.slice(prefix[0].length);
+  }
+  if (!/^rm( |$)/.test(command)) return [command];
+
+  let recursive = false;
+  let force = false;
+  let options = true;
+  const targets: string[] = [];
+  for (const word of command.split(' ').slice(1)) {
+    if (options && word === '--') {
+      options = false;
+    } else if (options && word.startsWith('--')) {
+      recursive ||= word === '--recursive';
+      force ||= word === '--force';
+    } else if (options && /^-./.test(word)) {
+      recursive ||= /[rR]/.test(word);
+      force ||= word.includes('f');
+    } else {
+      // Unquoted, $HOME as ~, and without a trailing "/" or "/*"
+      const target = word.replace(/^(["'])(.*)\1$/, '$2').replace(/^\$(?:HOME\b|\{HOME\})/, '~');
+      targets.push(target.replace(/\/\*?$/, '') || '/');
+    }
+  }
+  const flags = `${recursive ? 'r' : ''}${force ? 'f' : ''}`;
+  const rm = flags ? `rm -${flags}` : 'rm';
+  return targets.length > 0 ? targets.map(target => `${rm} ${target}`) : [rm];
+}
+
+// File paths a call touches; apply_patch names its files inside the patch
+function getPathArgs(args: Record<string, any>): string[] {
+  const value = args.file_path ?? args.path;
+  if (typeof value === 'string' && value) return [value];
+  if (typeof args.patch === 'string') return getPatchPaths(args.patch);
+  return [];
+}
+
+function isOutside(target: string, cwd: string, base: string): boolean {
+  const relative = path.relative(cwd, path.resolve(base, target));
+  return relative.startsWith('..') || path.isAbsolute(relative);
+}
+
+function readPolicyFile(file: string, warnings: string[]): Partial<PermissionPolicy> | null {
+  try {
+    if (fs.existsSync(file)) {
+      return JSON.parse(fs.readFileSync(file, 'utf-8')) as Partial<PermissionPolicy>;
+    }
+  } catch (e) {
+    const error = e as Error;
+    warnings.push(`Error loading permission policy ${file}: ${error.message}`);
+  }
+  return null;
+}
+
+// Action for a tool from the tools map: an exact name first, then the most specific wildcard key
+function lookupTool(tools: Record<string, PermissionAction>, toolName: string): PermissionAction | undefined {
+  if (tools[toolName]) return tools[toolName];
+  let best: string | undefined;
+  for (const key of Object.keys(tools)) {
+    if (key.includes('*') || key.includes('?')) {
+      if (globToRegExp(key).test(toolName) && (!best || key.length > best.length)) best = key;
+    }
+  }
+  return best ? tools[best] : undefined;
+}
+
+export class PermissionManager {
+  private policy: PermissionPolicy;
+  private sessionAllowed: Set<string>;
+  private warnings: string[];
+
+  constructor() {
+    this.policy = DEFAULT_POLICY;
+    this.sessionAllowed = new Set();
+    this.warnings = [];
+    this.reload();
+  }
+
+  // Load the global policy, then the project policy on top of it. A repository's own
+  // policy file can only make things stricter, so a cloned project can't approve its own tool calls.
+  reload(cwd: string = process.cwd()): PermissionPolicy {
+    const global = readPolicyFile(GLOBAL_POLICY_FILE, this.warnings);
+    const projectFile = path.join(cwd, PROJECT_POLICY_FILE);
+    const project = readPolicyFile(projectFile, this.warnings);
+
+    const defaultRules = DEFAULT_POLICY.rules.filter(rule => !BUILTIN_DENY_RULES.includes(rule));
+    const policy: PermissionPolicy = {
+      defaultAction: global?.defaultAction || DEFAULT_POLICY.defaultAction,
+      tools: { ...DEFAULT_POLICY.tools, ...global?.tools },
+      rules: [...BUILTIN_DENY_RULES, ...(Array.isArray(global?.rules) ? global.rules : defaultRules)]
+    };
+
+    const ignored: string[] = [];
+    if (project?.defaultAction) {
+      if (ACTION_WEIGHT[project.defaultAction] >= ACTION_WEIGHT[policy.defaultAction]) {
+        policy.defaultAction = project.defaultAction;
+      } else {
+        ignored.push(`defaultAction "${project.defaultAction}"`);
+      }
+    }
+    for (const [tool, action] of Object.entries(project?.tools || {})) {
+      const current = lookupTool(policy.tools, tool) || policy.defaultAction;
+      if (ACTION_WEIGHT[action] >= ACTION_WEIGHT[current]) {
+        policy.tools[tool] = action;
+      } else {
+        ignored.push(`tools.${tool} "${action}"`);
+      }
+    }
+    for (const rule of Array.isArray(project?.rules) ? project.rules : []) {
+      if (rule.action === 'allow') {
+        ignored.push(`allow rule for ${rule.tool}`);
+      } else {
+        policy.rules.push(rule);
+      }
+    }
+    if (ignored.length > 0) {
+      this.warnings.push(`${projectFile}: ignored ${ignored.join(', ')}; a project policy can only make permissions stricter`);
+    }
+
+    this.policy = policy;
+    return this.policy;
+  }
+
+  // Problems found loading or saving policy files since the last call, for the UI to show
+  takeWarnings(): string[] {
+    const warnings = [...new Set(this.warnings)];   // A reload repeats the previous one's warnings
+    this.warnings = [];
+    return warnings;
+  }
+
+  getPolicy(): PermissionPolicy {
+    return this.policy;
+  }
+
+  // Check whether a rule's argument patterns match this call
+  private ruleMatches(rule: PermissionRule, toolName: string, args: Record<string, any>, cwd: string, base: string): boolean {
+    if (!globToRegExp(rule.tool).test(toolName)) return false;
+
+    if (rule.command) {
+      if (typeof args.command !== 'string') return false;
+      const regex = globToRegExp(rule.command);
+      const parts = splitCommand(args.command);
+      // Allow rules match only the command as written, so "sudo npm test" doesn't pass as "npm test*"
+      const candidates = rule.action === 'allow' ? parts : [...parts, ...parts.flatMap(normalizeCommand)];
+      if (!candidates.some(part => regex.test(part))) return false;
+    }
+
+    if (rule.path || rule.outsideCwd) {
+      const targets = getPathArgs(args);
+      const matches = (target: string): boolean => {
+        if (rule.outsideCwd && !isOutside(target, cwd, base)) return false;
+        if (rule.path) {
+          const regex = globToRegExp(rule.path);
+          const absolute = path.resolve(base, target);
+          if (!regex.test(target) && !regex.test(path.relative(cwd, absolute)) && !regex.test(absolute)) return false;
+        }
+        return true;
+      };
+      if (!targets.some(matches)) return false;
+    }
+
+    if (rule.args) {
+      for (const [key, expected] of Object.entries(rule.args)) {
+        const value = args[key];
+        if (value === undefined) return false;
+        if (typeof expected === 'string') {
+          if (!globToRegExp(expected).test(String(value))) return false;
+        } else if (value !== expected) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  // Decide what to do with a tool call. Relative path arguments resolve from base (the shell's
+  // current directory, which `cd` may have moved); outsideCwd is judged against cwd.
+  check(toolName: string, args: Record<string, any> = {}, cwd: string = process.cwd(), base: string = cwd): PermissionDecision {
+    let matched: PermissionRule | undefined;
+    for (const rule of this.policy.rules) {
+      if (!this.ruleMatches(rule, toolName, args, cwd, base)) continue;
+      if (!matched || ACTION_WEIGHT[rule.action] > ACTION_WEIGHT[matched.action]) {
+        matched = rule;
+      }
+    }
+
+    // Argument rules that deny or ask always win over "always allow"
+    if (matched && matched.action !== 'allow') {
+      return {
+        action: matched.action,
+        reason: matched.reason || `Matched ${matched.action} rule for ${matched.tool}`,
+        rule: matched
+      };
+    }
+
+    if (this.sessionAllowed.has(toolName)) {
+      return { action: 'allow', reason: 'Always allowed this session' };
+    }
+
+    if (matched) {
+      return { action: 'allow', reason: matched.reason || `Matched allow rule for ${matched.tool}`, rule: matched };
+    }
+
+    const toolAction = lookupTool(this.policy.tools, toolName);
+    if (toolAction) {
+      return { action: toolAction, reason: `Policy for ${toolName}: ${toolAction}` };
+    }
+
+    return { action: this.policy.defaultAction, reason: `Default policy: ${this.policy.defaultAction}` };
+  }
+
+  // "Always allow" from the approval prompt: remember for this session and persist globally
+  allowAlways(toolName: string): boolean {
+    this.sessionAllowed.add(toolName);
+
+    const global = readPolicyFile(GLOBAL_POLICY_FILE, this.warnings) || {};
+    const updated: Partial<PermissionPolicy> = {
+      ...global,
+      tools: { ...global.tools, [toolName]: 'allow' }
+    };
+
+    try {
+      if (!fs.existsSync(CONFIG_DIR)) {
+        fs.mkdirSync(CONFIG_DIR, { recursive: true });
+      }
+      fs.writeFileSync(GLOBAL_POLICY_FILE, JSON.stringify(updated, null, 2));
+      this.policy.tools[toolName] = 'allow';
+      return true;
+    } catch (e) {
+      const error = e as Error;
+      this.warnings.push(`Error saving permission policy ${GLOBAL_POLICY_FILE}: ${error.message}`);
+      return false;
+    }
+  }
+}
+
+// Structured refusal returned to the model instead of running the tool
+export function createToolRefusal(toolName: string, reason: string): ToolRefusal {
+  return {
+    status: 'denied',
+    tool: toolName,
+    reason,
+    message: `The ${toolName} tool call was not executed. Do not retry the same call; ask the user how to proceed or choose a different approach.`
+  };
+}
+
+// Human-readable summary of the active policy for /permissions
+export function formatPolicy(policy: PermissionPolicy): string {
+  const lines: string[] = [`Default: ${policy.defaultAction}`, '', 'Tools:'];
+  for (const [tool, action] of Object.entries(policy.tools)) {
+    lines.push(`  ${tool.padEnd(14)} ${action}`);
+  }
+  if (policy.rules.length > 0) {
+    lines.push('', 'Rules:');
+    for (const rule of policy.rules) {
+      const match = [
+        rule.command && `command "${rule.command}"`,
+        rule.path && `path "${rule.path}"`,
+        rule.outsideCwd && 'outside cwd',
+        ...Object.entries(rule.args || {}).map(([key, value]) => `${key}=${value}`)
+      ].filter(Boolean).join(', ');
+      lines.push(`  ${rule.action.padEnd(5)} ${rule.tool}${match ? ` (${match})` : ''}`);
+    }
+  }
+  lines.push('', `Global: ${GLOBAL_POLICY_FILE}`, `Project: ${PROJECT_POLICY_FILE}`);
+  return lines.join('\n');
+}
+
+// Singleton instance
+let permissionManager: PermissionManager | null = null;
+
+export function getPermissionManager(): PermissionManager {
+  if (!permissionManager) {
+    permissionManager = new PermissionManager();
+  }
+  return permissionManager;
+}
+
+export { GLOBAL_POLICY_FILE, PROJECT_POLICY_FILE, DEFAULT_POLICY };
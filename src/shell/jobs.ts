@@ -0,0 +1,191 @@
+/**
+ * Background Jobs for Zesbe CLI
+ * Long-running commands (dev servers, watchers) started by the bash tool with run_in_background.
+ * Output is kept in memory and read incrementally with bash_output; bash_kill stops a job.
+ */
+
+import { spawn } from 'child_process';
+import type { ChildProcess } from 'child_process';
+import type { Socket } from 'net';
+
+// Output kept per job; older output is dropped first
+const MAX_JOB_OUTPUT = 1024 * 1024;
+
+// Grace period before a job that ignores SIGTERM is killed
+const KILL_GRACE_MS = 3000;
+
+export type JobStatus = 'running' | 'exited' | 'killed';
+
+export interface Job {
+  id: string;
+  command: string;
+  cwd: string;
+  pid?: number;
+  status: JobStatus;
+  exitCode: number | null;
+  startedAt: number;
+  endedAt?: number;
+}
+
+interface JobState extends Job {
+  child: ChildProcess;
+  output: string;     // stdout and stderr, interleaved as they arrive
+  readOffset: number; // Where the next bash_output read starts
+  dropped: number;    // Characters dropped (over MAX_JOB_OUTPUT) that were never read
+}
+
+export class JobManager {
+  private jobs = new Map<string, JobState>();
+  private nextId = 1;
+
+  constructor() {
+    // Jobs are children of the CLI; don't leave them running after it exits
+    process.on('exit', () => this.killAll());
+  }
+
+  start(command: string, options: { cwd: string; env?: NodeJS.ProcessEnv }): Job {
+    const id = `job-${this.nextId++}`;
+    const child = spawn('/bin/bash', ['-c', command], {
+      cwd: options.cwd,
+      env: options.env || process.env,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+    // A running job must not keep the CLI from exiting
+    child.unref();
+    (child.stdout as unknown as Socket | null)?.unref();
+    (child.stderr as unknown as Socket | null)?.unref();
+
+    const job: JobState = {
+      id,
+      command,
+      cwd: options.cwd,
+      pid: child.pid,
+      status: 'running',
+      exitCode: null,
+      startedAt: Date.now(),
+      child,
+      output: '',
+      readOffset: 0,
+      dropped: 0
+    };
+    this.jobs.set(id, job);
+
+    const append = (chunk: Buffer): void => {
+      job.output += chunk.toString();
+      const excess = job.output.length - MAX_JOB_OUTPUT;
+      if (excess > 0) {
+        job.output = job.output.slice(excess);
+        job.dropped += Math.max(0, excess - job.readOffset);
+        job.readOffset = Math.max(0, job.readOffset - excess);
+      }
+    };
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+    child.on('error', (err: Error) => {
+      job.output += `\n${err.message}\n`;
+      this.finish(job, null);
+    });
+    child.on('exit', (code: number | null) => this.finish(job, code));
+
+    return this.toJob(job);
+  }
+
+  get(id: string): Job | undefined {
+    const job = this.jobs.get(id);
+    return job && this.toJob(job);
+  }
+
+  list(): Job[] {
+    return [...this.jobs.values()].map(job => this.toJob(job));
+  }
+
+  running(): Job[] {
+    return this.list().filter(job => job.status === 'running');
+  }
+
+  // Output since the previous read
+  read(id: string): { job: Job; output: string; dropped: number } | null {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    const output = job.output.slice(job.readOffset);
+    const dropped = job.dropped;
+    job.readOffset = job.output.length;
+    job.dropped = 0;
+    return { job: this.toJob(job), output, dropped };
+  }
+
+  // SIGTERM to the job's process group, then SIGKILL if it is still running after the grace period
+  kill(id: string): Job | null {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    if (job.status !== 'running') return this.toJob(job);
+
+    job.status = 'killed';
+    this.signal(job, 'SIGTERM');
+    setTimeout(() => {
+      if (job.endedAt === undefined) this.signal(job, 'SIGKILL');
+    }, KILL_GRACE_MS).unref();
+    return this.toJob(job);
+  }
+
+  killAll(): void {
+    for (const job of this.jobs.values()) {
+      if (job.status === 'running') {
+        job.status = 'killed';
+        this.signal(job, 'SIGKILL');
+      }
+    }
+  }
+
+  private finish(job: JobState, code: number | null): void {
+    if (job.endedAt !== undefined) return;
+    job.endedAt = Date.now();
+    job.exitCode = code;
+    if (job.status === 'running') job.status = 'exited';
+  }
+
+  private signal(job: JobState, signal: NodeJS.Signals): void {
+    if (!job.pid) return;
+    try {
+      process.kill(-job.pid, signal);
+    } catch (_e) {
+      job.child.kill(signal);
+    }
+  }
+
+  private toJob(job: JobState): Job {
+    const { child: _child, output: _output, readOffset: _readOffset, dropped: _dropped, ...info } = job;
+    return info;
+  }
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+// One line per job, e.g. "job-2  running  4m12s  pid 4711  npm run dev"
+export function formatJob(job: Job): string {
+  const status = job.status === 'exited' ? `exited ${job.exitCode ?? '?'}` : job.status;
+  const elapsed = formatDuration((job.endedAt ?? Date.now()) - job.startedAt);
+  const command = job.command.length > 60 ? `${job.command.slice(0, 57)}...` : job.command;
+  return `${job.id}  ${status.padEnd(9)} ${elapsed.padEnd(7)} pid ${job.pid ?? '?'}  ${command}`;
+}
+
+export function formatJobs(jobs: Job[]): string {
+  if (jobs.length === 0) return 'No background jobs.';
+  return jobs.map(formatJob).join('\n');
+}
+
+// Singleton instance
+let jobManager: JobManager | null = null;
+
+export function getJobManager(): JobManager {
+  if (!jobManager) {
+    jobManager = new JobManager();
+  }
+  return jobManager;
+}
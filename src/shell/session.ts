@@ -0,0 +1,233 @@
+/**
+ * Shell Session for Zesbe CLI
+ * One long-lived bash per agent, so cd, exported variables and activated virtualenvs
+ * carry over between bash tool calls.
+ */
+
+import { spawn } from 'child_process';
+import type { ChildProcessWithoutNullStreams } from 'child_process';
+import crypto from 'crypto';
+import type { Socket } from 'net';
+
+const MAX_OUTPUT_BYTES = 1024 * 1024 * 10; // 10MB
+
+export interface ShellResult {
+  output: string;            // stdout followed by stderr
+  exitCode: number | null;   // null when the command did not finish
+  stopReason?: 'timeout' | 'abort' | 'maxBuffer' | 'exit';
+}
+
+export interface ShellRunOptions {
+  timeout: number;
+  cwd?: string;
+  signal?: AbortSignal;
+  onOutput?: (chunk: string) => void;  // stdout and stderr as they arrive
+}
+
+interface PendingCommand {
+  stdout: string;
+  stderr: string;
+  scanned: { stdout: number; stderr: number };  // Where to look for the end marker next
+  emitted: { stdout: number; stderr: number };  // Characters already passed to onOutput
+  onOutput?: (chunk: string) => void;
+  bytes: number;
+  stdoutDone: boolean;
+  stderrDone: boolean;
+  exitCode: number | null;
+  finish: (result: ShellResult) => void;
+}
+
+// Quote a string for bash as a single-quoted word
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export class ShellSession {
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private pending: PendingCommand | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly marker = `__ZESBE_DONE_${crypto.randomBytes(8).toString('hex')}__`;
+  private _cwd: string;
+
+  constructor(cwd: string = process.cwd()) {
+    this._cwd = cwd;
+  }
+
+  // Working directory after the last command
+  get cwd(): string {
+    return this._cwd;
+  }
+
+  // Commands run one at a time, in the order they were given
+  run(command: string, options: ShellRunOptions): Promise<ShellResult> {
+    const result = this.queue.then(() => this.execute(command, options));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Exported environment of the shell (e.g. after activating a virtualenv), for background jobs
+  async environment(): Promise<NodeJS.ProcessEnv> {
+    const result = await this.run('env -0', { timeout: 5000 });
+    if (result.exitCode !== 0) return { ...process.env };
+
+    const env: NodeJS.ProcessEnv = {};
+    for (const entry of result.output.split('\0')) {
+      const eq = entry.indexOf('=');
+      if (eq > 0) env[entry.slice(0, eq)] = entry.slice(eq + 1);
+    }
+    return env;
+  }
+
+  close(): void {
+    if (!this.child) return;
+    this.killGroup(this.child);
+    this.child = null;
+  }
+
+  private start(): ChildProcessWithoutNullStreams {
+    // Own process group, so stopping a command also stops its pipelines and children
+    const child = spawn('/bin/bash', ['--noprofile', '--norc'], {
+      cwd: this._cwd,
+      env: { ...process.env, PS1: '', PS2: '' },
+      detached: true
+    });
+    // An idle shell must not keep the CLI running; a pending command's timer does that
+    child.unref();
+    for (const stream of [child.stdin, child.stdout, child.stderr]) {
+      (stream as unknown as Socket).unref();
+    }
+
+    child.stdout.setEncoding('utf8');
+    child.stderr.setEncoding('utf8');
+    // Late output of a stopped shell must not reach the next command
+    child.stdout.on('data', (chunk: string) => { if (this.child === child) this.collect('stdout', chunk); });
+    child.stderr.on('data', (chunk: string) => { if (this.child === child) this.collect('stderr', chunk); });
+    child.stdin.on('error', () => { /* Shell already gone; reported by 'exit' */ });
+    // A shell that was stopped on purpose has already settled its command
+    const onGone = (): void => {
+      if (this.child !== child) return;
+      this.child = null;
+      this.pending?.finish({ output: '', exitCode: null, stopReason: 'exit' });
+    };
+    child.on('exit', onGone);
+    child.on('error', onGone);
+    return child;
+  }
+
+  private execute(command: string, options: ShellRunOptions): Promise<ShellResult> {
+    const { timeout, cwd, signal, onOutput } = options;
+    if (signal?.aborted) {
+      return Promise.resolve({ output: '', exitCode: null, stopReason: 'abort' });
+    }
+
+    const child = this.child || (this.child = this.start());
+    return new Promise<ShellResult>((resolve) => {
+      let stopReason: ShellResult['stopReason'];
+
+      const stop = (reason: 'timeout' | 'abort' | 'maxBuffer'): void => {
+        stopReason = stopReason || reason;
+        // The command runs inside the shell, so the shell goes too; the next call starts a new one
+        this.killGroup(child);
+        if (this.child === child) this.child = null;
+        this.pending?.finish({ output: '', exitCode: null });
+      };
+
+      const timer = setTimeout(() => stop('timeout'), timeout);
+      const onAbort = (): void => stop('abort');
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending = {
+        stdout: '',
+        stderr: '',
+        scanned: { stdout: 0, stderr: 0 },
+        emitted: { stdout: 0, stderr: 0 },
+        onOutput,
+        bytes: 0,
+        stdoutDone: false,
+        stderrDone: false,
+        exitCode: null,
+        finish: (result) => {
+          if (!this.pending) return;
+          const pending = this.pending;
+          this.pending = null;
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve({
+            output: result.output || pending.stdout + pending.stderr,
+            exitCode: result.exitCode,
+            stopReason: stopReason || result.stopReason
+          });
+        }
+      };
+
+      // eval keeps syntax errors from ending the shell; stdin is closed so the command can't read the script
+      const body = `eval ${shellQuote(command)}`;
+      const script = cwd ? `(cd ${shellQuote(cwd)} && ${body})` : body;
+      child.stdin.write(
+        `${script} < /dev/null\n` +
+        `__zesbe_status=$?; printf '\\n${this.marker} %d %s\\n' "$__zesbe_status" "$PWD"; printf '\\n${this.marker}\\n' >&2\n`
+      );
+    });
+  }
+
+  private collect(stream: 'stdout' | 'stderr', chunk: string): void {
+    const pending = this.pending;
+    if (!pending) return;
+
+    pending.bytes += chunk.length;
+    if (pending.bytes > MAX_OUTPUT_BYTES) {
+      this.killGroup(this.child);
+      this.child = null;
+      pending.finish({ output: `Output exceeded ${MAX_OUTPUT_BYTES} bytes`, exitCode: null, stopReason: 'maxBuffer' });
+      return;
+    }
+    pending[stream] += chunk;
+
+    let done = false;
+    const markerAt = pending[stream].indexOf(`\n${this.marker}`, pending.scanned[stream]);
+    if (markerAt === -1) {
+      pending.scanned[stream] = Math.max(0, pending[stream].length - this.marker.length - 1);
+    } else {
+      const tail = pending[stream].slice(markerAt + this.marker.length + 1);
+      if (stream === 'stdout') {
+        const match = tail.match(/^ (\d+) (.*)\n/);
+        if (!match) {
+          pending.scanned[stream] = markerAt; // Rest of the marker line still to come
+          return;
+        }
+        pending.exitCode = parseInt(match[1], 10);
+        this._cwd = match[2];
+        pending.stdoutDone = true;
+      } else {
+        pending.stderrDone = true;
+      }
+      pending[stream] = pending[stream].slice(0, markerAt);
+      done = true;
+    }
+
+    // Pass on new output, holding back a last line that could be the start of the marker
+    if (pending.onOutput) {
+      const text = pending[stream];
+      let end = text.length;
+      const lastLine = text.lastIndexOf('\n');
+      if (!done && lastLine !== -1 && `\n${this.marker}`.startsWith(text.slice(lastLine))) end = lastLine;
+      if (end > pending.emitted[stream]) {
+        pending.onOutput(text.slice(pending.emitted[stream], end));
+        pending.emitted[stream] = end;
+      }
+    }
+
+    if (pending.stdoutDone && pending.stderrDone) {
+      pending.finish({ output: '', exitCode: pending.exitCode });
+    }
+  }
+
+  private killGroup(child: ChildProcessWithoutNullStreams | null): void {
+    if (!child?.pid) return;
+    try {
+      process.kill(-child.pid, 'SIGTERM');
+    } catch (_e) {
+      child.kill('SIGTERM');
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Fake MCP Server (tests only)
+ * Serves one set of echo tools over streamable HTTP (/mcp) and SSE (/sse + /messages).
+ * While `down` is set, every request gets a 503 so clients see the server as unreachable.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+
+export interface FakeMCP {
+  url: string;             // Base URL; streamable HTTP is at /mcp, SSE at /sse
+  down: boolean;
+  rejected: number[];      // Times (ms) of requests refused while down
+  close(): Promise<void>;
+}
+
+// Each tool answers "<label>:<tool>:<text>", so tests can tell which server ran it
+function createServer(label: string, tools: string[]): McpServer {
+  const server = new McpServer({ name: label, version: '1.0.0' });
+  for (const tool of tools) {
+    server.registerTool(tool, { description: `Echo from ${label}`, inputSchema: { text: z.string() } }, ({ text }) => ({
+      content: [{ type: 'text', text: `${label}:${tool}:${text}` }]
+    }));
+  }
+  return server;
+}
+
+export async function startFakeMCP(label: string, tools: string[]): Promise<FakeMCP> {
+  const sseTransports = new Map<string, SSEServerTransport>();
+  const sockets = new Set<import('net').Socket>();
+
+  const fake: FakeMCP = {
+    url: '',
+    down: false,
+    rejected: [],
+    close: async () => {}
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    if (fake.down) {
+      fake.rejected.push(Date.now());
+      res.writeHead(503).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname === '/mcp') {
+      // Stateless: a fresh server and transport per request
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      await createServer(label, tools).connect(transport);
+      await transport.handleRequest(req, res);
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      const transport = new SSEServerTransport('/messages', res);
+      sseTransports.set(transport.sessionId, transport);
+      res.on('close', () => sseTransports.delete(transport.sessionId));
+      await createServer(label, tools).connect(transport);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      const transport = sseTransports.get(url.searchParams.get('sessionId') || '');
+      if (transport) await transport.handlePostMessage(req, res);
+      else res.writeHead(404).end();
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+
+  httpServer.on('connection', socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  fake.url = `http://127.0.0.1:${port}`;
+  fake.close = () => new Promise<void>(resolve => {
+    // Open SSE streams would keep the server open
+    for (const socket of sockets) socket.destroy();
+    httpServer.close(() => resolve());
+  });
+  return fake;
+}
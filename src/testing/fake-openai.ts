@@ -0,0 +1,125 @@
+/**
+ * Fake OpenAI-compatible Server (tests only)
+ * Answers /chat/completions with scripted text, tool calls or HTTP errors, streamed or not.
+ * GET requests return a small text page so web_fetch has something local to fetch.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface FakeReply {
+  text?: string;
+  toolCalls?: Array<{ name: string; args: Record<string, unknown> }>;
+  status?: number;                    // Fail the request with this HTTP status
+  headers?: Record<string, string>;   // Extra response headers, e.g. retry-after
+  hang?: boolean;                     // Never answer (timeout tests)
+}
+
+export interface ChatRequest {
+  model: string;
+  stream?: boolean;
+  messages: Array<{ role: string; content: unknown; tool_calls?: unknown[]; tool_call_id?: string }>;
+  tools?: Array<{ type: 'function'; function: { name: string; parameters: { properties?: Record<string, unknown> } } }>;
+  stream_options?: { include_usage?: boolean };
+}
+
+export interface FakeOpenAI {
+  url: string;
+  requests: ChatRequest[];
+  close(): Promise<void>;
+}
+
+export type FakeScript = (request: ChatRequest, index: number) => FakeReply;
+
+// Text of the last user message, or '' when the last message is a tool result
+export function lastUserText(request: ChatRequest): string {
+  const last = request.messages[request.messages.length - 1];
+  if (last?.role !== 'user') return '';
+  if (typeof last.content === 'string') return last.content;
+  return (last.content as Array<{ type: string; text?: string }>)
+    .map(part => part.text || '')
+    .join('');
+}
+
+export async function startFakeOpenAI(script: FakeScript): Promise<FakeOpenAI> {
+  const requests: ChatRequest[] = [];
+  const sockets = new Set<import('net').Socket>();
+
+  const server = http.createServer((req, res) => {
+    if (req.method === 'GET') {
+      res.writeHead(200, { 'content-type': 'text/plain' });
+      res.end('fake page');
+      return;
+    }
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const request = JSON.parse(body) as ChatRequest;
+      requests.push(request);
+      const reply = script(request, requests.length - 1);
+      if (reply.hang) return;
+
+      if (reply.status) {
+        res.writeHead(reply.status, { 'content-type': 'application/json', ...reply.headers });
+        res.end(JSON.stringify({ error: { message: `fake error ${reply.status}` } }));
+        return;
+      }
+
+      const id = `call_${requests.length}`;
+      const toolCalls = (reply.toolCalls || []).map((call, index) => ({
+        index,
+        id: `${id}_${index}`,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.args) }
+      }));
+      const finishReason = toolCalls.length > 0 ? 'tool_calls' : 'stop';
+      const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+      const base = { id: 'fake', created: 0, model: request.model };
+
+      if (!request.stream) {
+        const message = toolCalls.length > 0
+          ? { role: 'assistant', content: null, tool_calls: toolCalls.map(({ index: _index, ...call }) => call) }
+          : { role: 'assistant', content: reply.text || '' };
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({
+          ...base,
+          object: 'chat.completion',
+          choices: [{ index: 0, message, finish_reason: finishReason }],
+          usage
+        }));
+        return;
+      }
+
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      const send = (data: object): void => {
+        res.write(`data: ${JSON.stringify({ ...base, object: 'chat.completion.chunk', ...data })}\n\n`);
+      };
+      if (toolCalls.length > 0) {
+        send({ choices: [{ index: 0, delta: { role: 'assistant', tool_calls: toolCalls }, finish_reason: null }] });
+      } else {
+        send({ choices: [{ index: 0, delta: { role: 'assistant', content: reply.text || '' }, finish_reason: null }] });
+      }
+      send({ choices: [{ index: 0, delta: {}, finish_reason: finishReason }] });
+      if (request.stream_options?.include_usage) send({ choices: [], usage });
+      res.end('data: [DONE]\n\n');
+    });
+  });
+
+  server.on('connection', socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () => new Promise<void>(resolve => {
+      // Hanging requests would keep the server open
+      for (const socket of sockets) socket.destroy();
+      server.close(() => resolve());
+    })
+  };
+}
@@ -1,61 +1,161 @@
-import { exec, ExecException } from 'child_process';
-import { promisify } from 'util';
+// Bash Tools - Run commands in the agent's persistent shell, or as background jobs
+import { z } from 'zod';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { defineTool, toOpenAITool } from './define.js';
+import type { ToolContext } from './define.js';
 import type { Tool } from '../types/index.js';
+import { ShellSession } from '../shell/session.js';
+import { getJobManager, formatJob } from '../shell/jobs.js';
+import { splitHeadTail } from '../utils/tokens.js';
 
-const execAsync = promisify(exec);
-
-export const bashTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'bash',
-    description: 'Execute a shell command and return the output',
-    parameters: {
-      type: 'object',
-      properties: {
-        command: {
-          type: 'string',
-          description: 'The shell command to execute'
-        },
-        timeout: {
-          type: 'number',
-          description: 'Timeout in milliseconds (default: 30000)'
-        }
-      },
-      required: ['command']
-    }
-  }
-};
+// bash_output returns at most this much new output (the most recent part)
+const MAX_JOB_READ_CHARS = 30000;
 
-interface BashArgs {
-  command: string;
-  timeout?: number;
-}
+// Command output the model gets, unless set with bashOutputTokens in config.json
+export const DEFAULT_BASH_OUTPUT_TOKENS = 8000;
+
+// Full logs of capped output, for the model to read on demand
+const SPILL_DIR = path.join(os.tmpdir(), 'zesbe-bash');
+
+export const BashSchema = z.object({
+  command: z.string().describe('The shell command to execute'),
+  timeout: z.number().optional().describe('Timeout in milliseconds (default: 30000)'),
+  cwd: z.string().optional().describe('Run in this directory without changing the shell\'s working directory'),
+  run_in_background: z.boolean().optional().describe(
+    'Start as a background job and return its id at once (dev servers, watchers). Read output with bash_output, stop with bash_kill'
+  )
+});
+
+export const BashOutputSchema = z.object({
+  job_id: z.string().describe('Background job id returned by bash, e.g. "job-1"')
+});
+
+export const BashKillSchema = z.object({
+  job_id: z.string().describe('Background job id to stop')
+});
+
+type BashArgs = z.infer<typeof BashSchema>;
+type BashOutputArgs = z.infer<typeof BashOutputSchema>;
+type BashKillArgs = z.infer<typeof BashKillSchema>;
 
-interface ExecError extends ExecException {
-  killed?: boolean;
-  stderr?: string;
+// Keep the head and tail of long output; the middle is replaced by a pointer to the full log
+function capOutput(output: string, maxTokens: number): string {
+  const split = splitHeadTail(output, maxTokens);
+  if (!split) return output;
+
+  let fullLog: string;
+  try {
+    fs.mkdirSync(SPILL_DIR, { recursive: true });
+    const file = path.join(SPILL_DIR, `${Date.now().toString(36)}-${crypto.randomBytes(3).toString('hex')}.log`);
+    fs.writeFileSync(file, output);
+    fullLog = `full output in ${file} (use read with offset/limit)`;
+  } catch (e) {
+    const error = e as Error;
+    fullLog = `full output could not be saved: ${error.message}`;
+  }
+  const omitted = split.omittedLines > 0
+    ? `${split.omittedLines} lines`
+    : `${output.length - split.head.length - split.tail.length} characters`;
+  const head = split.head.endsWith('\n') ? split.head : `${split.head}\n`;
+  return `${head}[... ${omitted} omitted; ${fullLog} ...]\n${split.tail}`;
 }
 
-export async function executeBash(args: BashArgs): Promise<string> {
-  const { command, timeout = 30000 } = args;
+export async function executeBash(args: BashArgs, context: ToolContext = {}): Promise<string> {
+  const { command, timeout = 30000, cwd, run_in_background } = args;
+  const { signal, onOutput, maxOutputTokens = DEFAULT_BASH_OUTPUT_TOKENS } = context;
 
+  if (signal?.aborted) {
+    return 'Error: Command aborted by user';
+  }
+
+  // Without an agent's shell (direct calls), use a throwaway one
+  const shell = context.shell || new ShellSession();
   try {
-    const { stdout, stderr } = await execAsync(command, {
-      timeout,
-      maxBuffer: 1024 * 1024 * 10, // 10MB
-      shell: '/bin/bash'
-    });
+    if (run_in_background) {
+      // Jobs start where the shell is, with its exported environment (e.g. an activated virtualenv);
+      // a relative cwd starts from there too, as it does for foreground commands
+      const job = getJobManager().start(command, { cwd: path.resolve(shell.cwd, cwd || '.'), env: await shell.environment() });
+      return `Started background job ${job.id} (pid ${job.pid ?? '?'}). Use bash_output to read its output and bash_kill to stop it.`;
+    }
 
-    let output = '';
-    if (stdout) output += stdout;
-    if (stderr) output += stderr;
+    const result = await shell.run(command, { timeout, cwd, signal, onOutput });
+    const output = capOutput(result.output, maxOutputTokens);
+    switch (result.stopReason) {
+      case 'abort':
+        return 'Error: Command aborted by user';
+      case 'timeout':
+        return `Command timed out after ${timeout}ms. The shell was restarted in ${shell.cwd}; exported variables were reset. Use run_in_background for long-running commands.` +
+          (output.trim() ? `\nOutput so far:\n${output}` : '');
+      case 'maxBuffer':
+        return `Error: ${result.output}`;
+      case 'exit':
+        return `Shell exited${result.output.trim() ? `:\n${result.output.trim()}` : ''}. A new shell starts in ${shell.cwd} on the next command.`;
+    }
 
-    return output.trim() || '(no output)';
-  } catch (err) {
-    const error = err as ExecError;
-    if (error.killed) {
-      return `Command timed out after ${timeout}ms`;
+    if (result.exitCode !== 0) {
+      return `Error: Command failed with exit code ${result.exitCode}: ${command}\n${output}`;
     }
-    return `Error: ${error.message}\n${error.stderr || ''}`;
+    return output.trim() || '(no output)';
+  } finally {
+    if (!context.shell) shell.close();
+  }
+}
+
+export async function executeBashOutput(args: BashOutputArgs): Promise<string> {
+  const read = getJobManager().read(args.job_id);
+  if (!read) {
+    return `Error: No background job ${args.job_id}`;
+  }
+
+  let output = read.output;
+  let skipped = read.dropped;
+  if (output.length > MAX_JOB_READ_CHARS) {
+    skipped += output.length - MAX_JOB_READ_CHARS;
+    output = output.slice(-MAX_JOB_READ_CHARS);
   }
+
+  const lines = [`[${formatJob(read.job)}]`];
+  if (skipped > 0) lines.push(`[${skipped} earlier characters skipped]`);
+  lines.push(output.trim() || '(no new output)');
+  return lines.join('\n');
 }
+
+export async function executeBashKill(args: BashKillArgs): Promise<string> {
+  const job = getJobManager().kill(args.job_id);
+  if (!job) {
+    return `Error: No background job ${args.job_id}`;
+  }
+  return job.status === 'killed'
+    ? `Stopped background job ${job.id}`
+    : `Background job ${job.id} already ${job.status === 'exited' ? `exited with code ${job.exitCode}` : job.status}`;
+}
+
+export const bashDefinition = defineTool({
+  name: 'bash',
+  description: `Execute a shell command and return the output.
+Commands run in one persistent shell: cd, exported variables and activated virtualenvs carry over to later calls.
+Use run_in_background for servers and watchers that don't exit.`,
+  schema: BashSchema,
+  execute: executeBash
+});
+
+export const bashOutputDefinition = defineTool({
+  name: 'bash_output',
+  description: 'Read the new output of a background job since the last read, with its status (running, exited, killed).',
+  schema: BashOutputSchema,
+  execute: executeBashOutput
+});
+
+export const bashKillDefinition = defineTool({
+  name: 'bash_kill',
+  description: 'Stop a background job started with run_in_background.',
+  schema: BashKillSchema,
+  execute: executeBashKill
+});
+
+export const bashTool: Tool = toOpenAITool(bashDefinition);
+export const bashOutputTool: Tool = toOpenAITool(bashOutputDefinition);
+export const bashKillTool: Tool = toOpenAITool(bashKillDefinition);
@@ -0,0 +1,77 @@
+/**
+ * Tool Definitions
+ * Each built-in tool declares its name, description, zod schema and executor once.
+ * The OpenAI-format Tool and the AI SDK tool are both generated from that definition.
+ */
+
+import path from 'path';
+import { zodSchema } from 'ai';
+import { z } from 'zod';
+import type { Tool, ToolFunction, SubagentTask, PlanStepStatus } from '../types/index.js';
+import type { ShellSession } from '../shell/session.js';
+
+// Per-call context passed to executors alongside the parsed arguments
+export interface ToolContext {
+  signal?: AbortSignal;      // Aborted when the user cancels the turn
+  runSubagent?: (task: SubagentTask) => Promise<string>; // Set by the agent running the call; used by the task tool
+  planner?: Planner;         // Set in plan mode and while an approved plan is being executed
+  shell?: ShellSession;      // The agent's persistent shell, used by the bash tool
+  onOutput?: (chunk: string) => void;  // Live output of a running command
+  maxOutputTokens?: number;  // Cap on command output returned to the model
+}
+
+// Receives the plan tools' calls; returns the text sent back to the model
+export interface Planner {
+  submit(summary: string, steps: Array<{ title: string; details?: string }>): string;
+  update(step: number, status: PlanStepStatus, note?: string): string;
+}
+
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  schema: S;
+  execute: (args: z.infer<S>, context: ToolContext) => Promise<string | object>;
+}
+
+// Relative paths in tool arguments start from the persistent shell's directory, which follows `cd` in bash
+export function toolCwd(context: ToolContext = {}): string {
+  return context.shell?.cwd ?? process.cwd();
+}
+
+export function resolveToolPath(file: string, context: ToolContext = {}): string {
+  return path.resolve(toolCwd(context), file);
+}
+
+// Typed helper so `execute` receives the schema's inferred args; the registry stores the erased form
+export function defineTool<S extends z.AnyZodObject>(definition: ToolDefinition<S>): ToolDefinition {
+  return definition as unknown as ToolDefinition;
+}
+
+// OpenAI function-calling format, with parameters generated from the zod schema
+export function toOpenAITool(definition: ToolDefinition): Tool {
+  const { $schema: _schema, ...parameters } = zodSchema(definition.schema).jsonSchema as Record<string, unknown>;
+  return {
+    type: 'function',
+    function: {
+      name: definition.name,
+      description: definition.description,
+      parameters: parameters as ToolFunction['parameters']
+    }
+  };
+}
+
+// Validate raw arguments against the schema (defaults applied) before executing
+export async function runToolDefinition(
+  definition: ToolDefinition,
+  args: unknown,
+  context: ToolContext = {}
+): Promise<string | object> {
+  const parsed = definition.schema.safeParse(args ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || 'args'}: ${issue.message}`)
+      .join('; ');
+    return `Error: Invalid arguments for ${definition.name}: ${issues}`;
+  }
+  return definition.execute(parsed.data, context);
+}
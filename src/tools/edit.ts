@@ -1,79 +1,91 @@
 import fs from 'fs/promises';
-import path from 'path';
+import { z } from 'zod';
+import { defineTool, toOpenAITool, resolveToolPath } from './define.js';
+import type { ToolContext } from './define.js';
+import { getCheckpointManager } from '../checkpoints/manager.js';
+import { decodeText, encodeText, applyEdit, applyEdits } from '../utils/text-edit.js';
+import type { EditResult } from '../utils/text-edit.js';
 import type { Tool } from '../types/index.js';
 
-export const editTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'edit',
-    description: 'Edit a file by replacing text (search and replace)',
-    parameters: {
-      type: 'object',
-      properties: {
-        file_path: {
-          type: 'string',
-          description: 'Path to the file to edit'
-        },
-        old_string: {
-          type: 'string',
-          description: 'The exact text to find and replace'
-        },
-        new_string: {
-          type: 'string',
-          description: 'The text to replace with'
-        },
-        replace_all: {
-          type: 'boolean',
-          description: 'Replace all occurrences (default: false)'
-        }
-      },
-      required: ['file_path', 'old_string', 'new_string']
-    }
-  }
-};
+export const EditSchema = z.object({
+  file_path: z.string().describe('Path to the file to edit'),
+  old_string: z.string().describe('The exact text to replace; must match once unless replace_all is set'),
+  new_string: z.string().describe('The text to replace with'),
+  replace_all: z.boolean().optional().describe('Replace all occurrences (default: false)')
+});
 
-interface EditArgs {
-  file_path: string;
-  old_string: string;
-  new_string: string;
-  replace_all?: boolean;
-}
+export const MultiEditSchema = z.object({
+  file_path: z.string().describe('Path to the file to edit'),
+  edits: z.array(z.object({
+    old_string: z.string().describe('The exact text to replace; must match once unless replace_all is set'),
+    new_string: z.string().describe('The text to replace with'),
+    replace_all: z.boolean().optional().describe('Replace all occurrences (default: false)')
+  })).min(1).describe('Edits applied in order, each to the result of the previous one')
+});
+
+type EditArgs = z.infer<typeof EditSchema>;
+type MultiEditArgs = z.infer<typeof MultiEditSchema>;
 
 interface NodeError extends Error {
   code?: string;
 }
 
-function escapeRegExp(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// Tell the model what the whitespace-tolerant matcher replaced, so it can check it
+function describeFuzzy(result: EditResult, label = ''): string {
+  if (!result.fuzzy) return '';
+  const where = result.fuzzy.lines.includes('-') ? `lines ${result.fuzzy.lines}` : `line ${result.fuzzy.lines}`;
+  return `\n${label}No exact match; matched ignoring whitespace/line endings at ${where}:\n${result.fuzzy.matched}`;
 }
 
-export async function executeEdit(args: EditArgs): Promise<string> {
+export async function executeEdit(args: EditArgs, context: ToolContext = {}): Promise<string> {
   const { file_path, old_string, new_string, replace_all = false } = args;
 
   try {
-    const resolvedPath = path.resolve(file_path);
-    let content = await fs.readFile(resolvedPath, 'utf-8');
+    const resolvedPath = resolveToolPath(file_path, context);
+    const { text, format } = decodeText(await fs.readFile(resolvedPath, 'utf-8'));
 
-    // Check if old_string exists
-    if (!content.includes(old_string)) {
-      return `Error: Could not find the specified text in ${file_path}`;
+    const result = applyEdit(text, { old_string, new_string, replace_all }, format);
+    if ('error' in result) {
+      return `Error editing ${file_path}: ${result.error}`;
     }
 
-    // Count occurrences
-    const occurrences = (content.match(new RegExp(escapeRegExp(old_string), 'g')) || []).length;
+    // Write back with the original BOM and line endings, keeping the prior content for /undo and /rewind
+    getCheckpointManager().snapshot(resolvedPath);
+    await fs.writeFile(resolvedPath, encodeText(result.content, format), 'utf-8');
 
-    // Replace
-    if (replace_all) {
-      content = content.split(old_string).join(new_string);
-    } else {
-      content = content.replace(old_string, new_string);
+    return `File edited: ${file_path} (${plural(result.replacements, 'replacement')})${describeFuzzy(result)}`;
+  } catch (err) {
+    const error = err as NodeError;
+    if (error.code === 'ENOENT') {
+      return `File not found: ${file_path}`;
     }
+    return `Error editing file: ${error.message}`;
+  }
+}
+
+export async function executeMultiEdit(args: MultiEditArgs, context: ToolContext = {}): Promise<string> {
+  const { file_path, edits } = args;
+
+  try {
+    const resolvedPath = resolveToolPath(file_path, context);
+    const { text, format } = decodeText(await fs.readFile(resolvedPath, 'utf-8'));
 
-    // Write back
-    await fs.writeFile(resolvedPath, content, 'utf-8');
+    // All or nothing: the file is only written when every edit applies
+    const applied = applyEdits(text, edits, format);
+    if ('error' in applied) {
+      return `Error: Edit ${applied.index + 1} of ${edits.length} failed: ${applied.error}. No changes were made to ${file_path}`;
+    }
+
+    getCheckpointManager().snapshot(resolvedPath);
+    await fs.writeFile(resolvedPath, encodeText(applied.content, format), 'utf-8');
 
-    const replaced = replace_all ? occurrences : 1;
-    return `File edited: ${file_path} (${replaced} replacement${replaced > 1 ? 's' : ''})`;
+    const replacements = applied.results.reduce((sum, r) => sum + r.replacements, 0);
+    const notes = applied.results.map((r, i) => describeFuzzy(r, `Edit ${i + 1}: `)).join('');
+    return `File edited: ${file_path} (${plural(edits.length, 'edit')}, ${plural(replacements, 'replacement')})${notes}`;
   } catch (err) {
     const error = err as NodeError;
     if (error.code === 'ENOENT') {
@@ -82,3 +94,23 @@ export async function executeEdit(args: EditArgs): Promise<string> {
     return `Error editing file: ${error.message}`;
   }
 }
+
+export const editDefinition = defineTool({
+  name: 'edit',
+  description: `Edit a file by replacing text (search and replace).
+old_string must match exactly one place unless replace_all is set; include surrounding lines to make it unique.
+If there is no exact match, a match that differs only in whitespace or line endings is used and reported.`,
+  schema: EditSchema,
+  execute: executeEdit
+});
+
+export const multiEditDefinition = defineTool({
+  name: 'multi_edit',
+  description: `Make several edits to one file at once. Edits apply in order, each to the result of the previous one, with the same matching rules as edit.
+If any edit fails, none are applied.`,
+  schema: MultiEditSchema,
+  execute: executeMultiEdit
+});
+
+export const editTool: Tool = toOpenAITool(editDefinition);
+export const multiEditTool: Tool = toOpenAITool(multiEditDefinition);
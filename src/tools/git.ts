@@ -5,11 +5,22 @@
 
 import { simpleGit, SimpleGit, StatusResult, LogResult } from 'simple-git';
 import { z } from 'zod';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { defineTool, toOpenAITool, toolCwd, resolveToolPath } from './define.js';
+import type { ToolDefinition, ToolContext } from './define.js';
 import type { Tool } from '../types/index.js';
 
-// Initialize git instance
-function getGit(cwd?: string): SimpleGit {
-  return simpleGit(cwd || process.cwd());
+// Initialize git instance; a relative cwd starts from the shell's directory, like the default
+function getGit(cwd: string | undefined, context: ToolContext): SimpleGit {
+  return simpleGit(cwd ? resolveToolPath(cwd, context) : toolCwd(context));
+}
+
+// Refs and names go to git as positional arguments; one starting with "-" would be read as an option
+// (e.g. "--output=FILE" writes a file), so they are refused
+function optionLike(...values: Array<string | undefined>): string | undefined {
+  return values.find(value => value?.startsWith('-'));
 }
 
 // ============================================================================
@@ -58,6 +69,50 @@ export const GitStashSchema = z.object({
   cwd: z.string().optional().describe('Working directory path')
 });
 
+export const GitShowSchema = z.object({
+  ref: z.string().optional().default('HEAD').describe('Commit, tag or branch to show (default: HEAD)'),
+  file: z.string().optional().describe('Show this file as it was at ref'),
+  stat: z.boolean().optional().default(false).describe('Show only the changed-files summary'),
+  cwd: z.string().optional().describe('Working directory path')
+});
+
+export const GitBlameSchema = z.object({
+  file: z.string().describe('File to blame'),
+  startLine: z.number().optional().describe('First line to blame (1-based)'),
+  endLine: z.number().optional().describe('Last line to blame'),
+  ref: z.string().optional().describe('Blame the file as of this commit'),
+  cwd: z.string().optional().describe('Working directory path')
+});
+
+export const GitAddSchema = z.object({
+  files: z.array(z.string()).optional().describe('Files to stage'),
+  all: z.boolean().optional().default(false).describe('Stage all changes, including untracked files'),
+  hunks: z.array(z.number()).optional().describe('Stage only these hunks (1-based, requires exactly one file)'),
+  listHunks: z.boolean().optional().default(false).describe('List the numbered unstaged hunks of one file instead of staging'),
+  cwd: z.string().optional().describe('Working directory path')
+});
+
+export const GitResetSchema = z.object({
+  files: z.array(z.string()).optional().describe('Files to unstage (default: everything staged)'),
+  cwd: z.string().optional().describe('Working directory path')
+});
+
+export const GitRestoreSchema = z.object({
+  files: z.array(z.string()).min(1).describe('Files to restore'),
+  source: z.string().optional().describe('Restore from this commit (default: index, or HEAD with staged)'),
+  staged: z.boolean().optional().default(false).describe('Also restore the staged version'),
+  cwd: z.string().optional().describe('Working directory path')
+});
+
+export const GitWorktreeSchema = z.object({
+  action: z.enum(['list', 'add', 'remove', 'prune']).default('list').describe('Worktree action'),
+  path: z.string().optional().describe('Worktree path (for add/remove)'),
+  branch: z.string().optional().describe('Branch to check out in the new worktree (for add)'),
+  createBranch: z.boolean().optional().default(false).describe('Create the branch (for add)'),
+  force: z.boolean().optional().default(false).describe('Force removal of a dirty worktree (for remove)'),
+  cwd: z.string().optional().describe('Working directory path')
+});
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -69,14 +124,20 @@ export type GitCommitArgs = z.infer<typeof GitCommitSchema>;
 export type GitBranchArgs = z.infer<typeof GitBranchSchema>;
 export type GitCheckoutArgs = z.infer<typeof GitCheckoutSchema>;
 export type GitStashArgs = z.infer<typeof GitStashSchema>;
+export type GitShowArgs = z.infer<typeof GitShowSchema>;
+export type GitBlameArgs = z.infer<typeof GitBlameSchema>;
+export type GitAddArgs = z.infer<typeof GitAddSchema>;
+export type GitResetArgs = z.infer<typeof GitResetSchema>;
+export type GitRestoreArgs = z.infer<typeof GitRestoreSchema>;
+export type GitWorktreeArgs = z.infer<typeof GitWorktreeSchema>;
 
 // ============================================================================
 // TOOL EXECUTORS
 // ============================================================================
 
-export async function executeGitStatus(args: GitStatusArgs): Promise<string> {
+export async function executeGitStatus(args: GitStatusArgs, context: ToolContext = {}): Promise<string> {
   const validated = GitStatusSchema.parse(args);
-  const git = getGit(validated.cwd);
+  const git = getGit(validated.cwd, context);
 
   try {
     const status: StatusResult = await git.status();
@@ -126,17 +187,17 @@ export async function executeGitStatus(args: GitStatusArgs): Promise<string> {
   }
 }
 
-export async function executeGitDiff(args: GitDiffArgs): Promise<string> {
+export async function executeGitDiff(args: GitDiffArgs, context: ToolContext = {}): Promise<string> {
   const validated = GitDiffSchema.parse(args);
-  const git = getGit(validated.cwd);
+  const git = getGit(validated.cwd, context);
 
   try {
     let diff: string;
 
     if (validated.staged) {
-      diff = await git.diff(['--cached', ...(validated.file ? [validated.file] : [])]);
+      diff = await git.diff(['--cached', ...(validated.file ? ['--', validated.file] : [])]);
     } else {
-      diff = await git.diff([...(validated.file ? [validated.file] : [])]);
+      diff = await git.diff([...(validated.file ? ['--', validated.file] : [])]);
     }
 
     if (!diff) {
@@ -150,9 +211,9 @@ export async function executeGitDiff(args: GitDiffArgs): Promise<string> {
   }
 }
 
-export async function executeGitLog(args: GitLogArgs): Promise<string> {
+export async function executeGitLog(args: GitLogArgs, context: ToolContext = {}): Promise<string> {
   const validated = GitLogSchema.parse(args);
-  const git = getGit(validated.cwd);
+  const git = getGit(validated.cwd, context);
 
   try {
     const options: any = { maxCount: validated.maxCount };
@@ -176,14 +237,14 @@ export async function executeGitLog(args: GitLogArgs): Promise<string> {
   }
 }
 
-export async function executeGitCommit(args: GitCommitArgs): Promise<string> {
+export async function executeGitCommit(args: GitCommitArgs, context: ToolContext = {}): Promise<string> {
   const validated = GitCommitSchema.parse(args);
-  const git = getGit(validated.cwd);
+  const git = getGit(validated.cwd, context);
 
   try {
-    // Add files if specified
+    // Add files if specified; after "--" so a path like "-A" is not read as an option
     if (validated.files && validated.files.length > 0) {
-      await git.add(validated.files);
+      await git.raw(['add', '--', ...validated.files]);
     }
 
     // Commit
@@ -200,9 +261,14 @@ export async function executeGitCommit(args: GitCommitArgs): Promise<string> {
   }
 }
 
-export async function executeGitBranch(args: GitBranchArgs): Promise<string> {
+export async function executeGitBranch(args: GitBranchArgs, context: ToolContext = {}): Promise<string> {
   const validated = GitBranchSchema.parse(args);
-  const git = getGit(validated.cwd);
+  const git = getGit(validated.cwd, context);
+
+  const invalid = optionLike(validated.name);
+  if (invalid) {
+    return `Git branch error: invalid branch name: ${invalid}`;
+  }
 
   try {
     if (validated.delete && validated.name) {
@@ -229,9 +295,13 @@ export async function executeGitBranch(args: GitBranchArgs): Promise<string> {
   }
 }
 
-export async function executeGitCheckout(args: GitCheckoutArgs): Promise<string> {
+export async function executeGitCheckout(args: GitCheckoutArgs, context: ToolContext = {}): Promise<string> {
   const validated = GitCheckoutSchema.parse(args);
-  const git = getGit(validated.cwd);
+  const git = getGit(validated.cwd, context);
+
+  if (optionLike(validated.branch)) {
+    return `Git checkout error: invalid branch name: ${validated.branch}`;
+  }
 
   try {
     if (validated.create) {
@@ -247,9 +317,9 @@ export async function executeGitCheckout(args: GitCheckoutArgs): Promise<string>
   }
 }
 
-export async function executeGitStash(args: GitStashArgs): Promise<string> {
+export async function executeGitStash(args: GitStashArgs, context: ToolContext = {}): Promise<string> {
   const validated = GitStashSchema.parse(args);
-  const git = getGit(validated.cwd);
+  const git = getGit(validated.cwd, context);
 
   try {
     switch (validated.action) {
@@ -286,201 +356,309 @@ export async function executeGitStash(args: GitStashArgs): Promise<string> {
   }
 }
 
-// ============================================================================
-// TOOL DEFINITIONS
-// ============================================================================
+export async function executeGitShow(args: GitShowArgs, context: ToolContext = {}): Promise<string> {
+  const validated = GitShowSchema.parse(args);
+  const git = getGit(validated.cwd, context);
 
-export const gitStatusTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'git_status',
-    description: 'Get git repository status including staged, modified, untracked files and branch info',
-    parameters: {
-      type: 'object',
-      properties: {
-        cwd: {
-          type: 'string',
-          description: 'Working directory path'
-        }
-      },
-      required: []
-    }
+  if (optionLike(validated.ref)) {
+    return `Git show error: invalid ref: ${validated.ref}`;
   }
-};
-
-export const gitDiffTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'git_diff',
-    description: 'Show git diff for changes in the repository',
-    parameters: {
-      type: 'object',
-      properties: {
-        staged: {
-          type: 'string',
-          description: 'Show only staged changes (true/false)'
-        },
-        file: {
-          type: 'string',
-          description: 'Specific file to show diff for'
-        },
-        cwd: {
-          type: 'string',
-          description: 'Working directory path'
-        }
-      },
-      required: []
+
+  try {
+    if (validated.file) {
+      return await git.show([`${validated.ref}:${validated.file}`]);
     }
+    return await git.show([...(validated.stat ? ['--stat'] : []), validated.ref, '--']);
+  } catch (err) {
+    const error = err as Error;
+    return `Git show error: ${error.message}`;
   }
-};
-
-export const gitLogTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'git_log',
-    description: 'Show git commit history',
-    parameters: {
-      type: 'object',
-      properties: {
-        maxCount: {
-          type: 'string',
-          description: 'Maximum number of commits to show (default: 10)'
-        },
-        file: {
-          type: 'string',
-          description: 'Show commits for specific file'
-        },
-        cwd: {
-          type: 'string',
-          description: 'Working directory path'
-        }
-      },
-      required: []
-    }
+}
+
+export async function executeGitBlame(args: GitBlameArgs, context: ToolContext = {}): Promise<string> {
+  const validated = GitBlameSchema.parse(args);
+  const git = getGit(validated.cwd, context);
+
+  if (optionLike(validated.ref)) {
+    return `Git blame error: invalid ref: ${validated.ref}`;
   }
-};
-
-export const gitCommitTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'git_commit',
-    description: 'Create a git commit with staged changes',
-    parameters: {
-      type: 'object',
-      properties: {
-        message: {
-          type: 'string',
-          description: 'Commit message'
-        },
-        files: {
-          type: 'array',
-          description: 'Specific files to add and commit',
-          items: { type: 'string' }
-        },
-        cwd: {
-          type: 'string',
-          description: 'Working directory path'
-        }
-      },
-      required: ['message']
+
+  try {
+    const options: string[] = ['blame', '--date=short'];
+    if (validated.startLine) {
+      options.push('-L', `${validated.startLine},${validated.endLine || ''}`);
+    }
+    if (validated.ref) {
+      options.push(validated.ref);
     }
+    return (await git.raw([...options, '--', validated.file])) || 'No blame output';
+  } catch (err) {
+    const error = err as Error;
+    return `Git blame error: ${error.message}`;
   }
-};
-
-export const gitBranchTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'git_branch',
-    description: 'List, create, or delete git branches',
-    parameters: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Branch name to create or delete'
-        },
-        delete: {
-          type: 'string',
-          description: 'Delete the branch (true/false)'
-        },
-        list: {
-          type: 'string',
-          description: 'List all branches (true/false)'
-        },
-        cwd: {
-          type: 'string',
-          description: 'Working directory path'
-        }
-      },
-      required: []
+}
+
+// Split a single-file diff into its header and numbered hunks
+function splitHunks(diff: string): { header: string; hunks: string[] } {
+  const lines = diff.split('\n');
+  const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+  if (firstHunk === -1) {
+    return { header: diff, hunks: [] };
+  }
+
+  const hunks: string[] = [];
+  let current: string[] = [];
+  for (const line of lines.slice(firstHunk)) {
+    if (line.startsWith('@@') && current.length > 0) {
+      hunks.push(current.join('\n'));
+      current = [];
     }
+    current.push(line);
   }
-};
-
-export const gitCheckoutTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'git_checkout',
-    description: 'Switch to a different git branch',
-    parameters: {
-      type: 'object',
-      properties: {
-        branch: {
-          type: 'string',
-          description: 'Branch name to checkout'
-        },
-        create: {
-          type: 'string',
-          description: 'Create new branch (true/false)'
-        },
-        cwd: {
-          type: 'string',
-          description: 'Working directory path'
-        }
-      },
-      required: ['branch']
+  hunks.push(current.join('\n').replace(/\n$/, ''));
+
+  return { header: lines.slice(0, firstHunk).join('\n'), hunks };
+}
+
+export async function executeGitAdd(args: GitAddArgs, context: ToolContext = {}): Promise<string> {
+  const validated = GitAddSchema.parse(args);
+  const git = getGit(validated.cwd, context);
+
+  try {
+    if (validated.hunks || validated.listHunks) {
+      if (!validated.files || validated.files.length !== 1) {
+        return 'Git add error: hunk selection requires exactly one file';
+      }
+      const file = validated.files[0];
+      const { header, hunks } = splitHunks(await git.diff(['--', file]));
+      if (hunks.length === 0) {
+        return `No unstaged changes in ${file}`;
+      }
+
+      if (validated.listHunks) {
+        return hunks.map((hunk, i) => `Hunk ${i + 1}:\n${hunk}`).join('\n\n');
+      }
+
+      const selected = validated.hunks || [];
+      const invalid = selected.filter(n => n < 1 || n > hunks.length);
+      if (invalid.length > 0) {
+        return `Git add error: ${file} has ${hunks.length} hunk(s); invalid: ${invalid.join(', ')}`;
+      }
+
+      // Stage only the selected hunks by applying a partial patch to the index
+      const patch = [header, ...selected.map(n => hunks[n - 1])].join('\n') + '\n';
+      const patchFile = path.join(os.tmpdir(), `zesbe-add-${process.pid}-${Date.now()}.patch`);
+      await fs.writeFile(patchFile, patch, 'utf-8');
+      try {
+        await git.raw(['apply', '--cached', patchFile]);
+      } finally {
+        await fs.unlink(patchFile).catch(() => {});
+      }
+      return `Staged ${selected.length} of ${hunks.length} hunk(s) in ${file}`;
+    }
+
+    if (validated.all) {
+      await git.add(['-A']);
+      return 'Staged all changes';
+    }
+
+    if (!validated.files || validated.files.length === 0) {
+      return 'Git add error: specify files, or all: true';
     }
+
+    await git.raw(['add', '--', ...validated.files]);
+    return `Staged: ${validated.files.join(', ')}`;
+  } catch (err) {
+    const error = err as Error;
+    return `Git add error: ${error.message}`;
   }
-};
-
-export const gitStashTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'git_stash',
-    description: 'Stash changes in the working directory',
-    parameters: {
-      type: 'object',
-      properties: {
-        action: {
-          type: 'string',
-          description: 'Stash action: push, pop, list, drop, apply',
-          enum: ['push', 'pop', 'list', 'drop', 'apply']
-        },
-        message: {
-          type: 'string',
-          description: 'Stash message (for push action)'
-        },
-        index: {
-          type: 'string',
-          description: 'Stash index (for pop/drop/apply)'
-        },
-        cwd: {
-          type: 'string',
-          description: 'Working directory path'
+}
+
+export async function executeGitReset(args: GitResetArgs, context: ToolContext = {}): Promise<string> {
+  const validated = GitResetSchema.parse(args);
+  const git = getGit(validated.cwd, context);
+
+  try {
+    // Unstage only: the working tree is left untouched
+    await git.raw(['reset', '-q', 'HEAD', '--', ...(validated.files || [])]);
+    return validated.files?.length ? `Unstaged: ${validated.files.join(', ')}` : 'Unstaged all changes';
+  } catch (err) {
+    const error = err as Error;
+    return `Git reset error: ${error.message}`;
+  }
+}
+
+export async function executeGitRestore(args: GitRestoreArgs, context: ToolContext = {}): Promise<string> {
+  const validated = GitRestoreSchema.parse(args);
+  const git = getGit(validated.cwd, context);
+
+  try {
+    const options: string[] = ['restore', '--worktree'];
+    if (validated.staged) options.push('--staged');
+    if (validated.source) options.push(`--source=${validated.source}`);
+    await git.raw([...options, '--', ...validated.files]);
+    return `Restored: ${validated.files.join(', ')}`;
+  } catch (err) {
+    const error = err as Error;
+    return `Git restore error: ${error.message}`;
+  }
+}
+
+export async function executeGitWorktree(args: GitWorktreeArgs, context: ToolContext = {}): Promise<string> {
+  const validated = GitWorktreeSchema.parse(args);
+  const git = getGit(validated.cwd, context);
+
+  const invalid = optionLike(validated.path, validated.branch);
+  if (invalid) {
+    return `Git worktree error: invalid path or branch: ${invalid}`;
+  }
+
+  try {
+    switch (validated.action) {
+      case 'add': {
+        if (!validated.path) {
+          return 'Git worktree error: path is required for add';
+        }
+        const options: string[] = ['worktree', 'add'];
+        if (validated.createBranch && validated.branch) {
+          options.push('-b', validated.branch, validated.path);
+        } else {
+          options.push(validated.path, ...(validated.branch ? [validated.branch] : []));
+        }
+        await git.raw(options);
+        return `Worktree added: ${validated.path}${validated.branch ? ` (${validated.branch})` : ''}`;
+      }
+
+      case 'remove':
+        if (!validated.path) {
+          return 'Git worktree error: path is required for remove';
         }
-      },
-      required: []
+        await git.raw(['worktree', 'remove', ...(validated.force ? ['--force'] : []), validated.path]);
+        return `Worktree removed: ${validated.path}`;
+
+      case 'prune':
+        await git.raw(['worktree', 'prune']);
+        return 'Pruned stale worktrees';
+
+      case 'list':
+        return (await git.raw(['worktree', 'list'])).trim() || 'No worktrees';
     }
+  } catch (err) {
+    const error = err as Error;
+    return `Git worktree error: ${error.message}`;
   }
-};
-
-// Export all git tools
-export const gitTools: Tool[] = [
-  gitStatusTool,
-  gitDiffTool,
-  gitLogTool,
-  gitCommitTool,
-  gitBranchTool,
-  gitCheckoutTool,
-  gitStashTool
+}
+
+// ============================================================================
+// TOOL DEFINITIONS
+// ============================================================================
+
+export const gitStatusDefinition = defineTool({
+  name: 'git_status',
+  description: 'Get git repository status including staged, modified, untracked files and branch info',
+  schema: GitStatusSchema,
+  execute: executeGitStatus
+});
+
+export const gitDiffDefinition = defineTool({
+  name: 'git_diff',
+  description: 'Show git diff for changes in the repository',
+  schema: GitDiffSchema,
+  execute: executeGitDiff
+});
+
+export const gitLogDefinition = defineTool({
+  name: 'git_log',
+  description: 'Show git commit history',
+  schema: GitLogSchema,
+  execute: executeGitLog
+});
+
+export const gitCommitDefinition = defineTool({
+  name: 'git_commit',
+  description: 'Create a git commit with staged changes',
+  schema: GitCommitSchema,
+  execute: executeGitCommit
+});
+
+export const gitBranchDefinition = defineTool({
+  name: 'git_branch',
+  description: 'List, create, or delete git branches',
+  schema: GitBranchSchema,
+  execute: executeGitBranch
+});
+
+export const gitCheckoutDefinition = defineTool({
+  name: 'git_checkout',
+  description: 'Switch to a different git branch',
+  schema: GitCheckoutSchema,
+  execute: executeGitCheckout
+});
+
+export const gitStashDefinition = defineTool({
+  name: 'git_stash',
+  description: 'Stash changes in the working directory',
+  schema: GitStashSchema,
+  execute: executeGitStash
+});
+
+export const gitShowDefinition = defineTool({
+  name: 'git_show',
+  description: 'Show a commit (message and diff), its changed-files summary, or a file as it was at a given commit',
+  schema: GitShowSchema,
+  execute: executeGitShow
+});
+
+export const gitBlameDefinition = defineTool({
+  name: 'git_blame',
+  description: 'Show which commit and author last changed each line of a file, optionally for a line range',
+  schema: GitBlameSchema,
+  execute: executeGitBlame
+});
+
+export const gitAddDefinition = defineTool({
+  name: 'git_add',
+  description: 'Stage files, or selected hunks of one file. Use listHunks to see the numbered hunks first.',
+  schema: GitAddSchema,
+  execute: executeGitAdd
+});
+
+export const gitResetDefinition = defineTool({
+  name: 'git_reset',
+  description: 'Unstage files (keeps working tree changes)',
+  schema: GitResetSchema,
+  execute: executeGitReset
+});
+
+export const gitRestoreDefinition = defineTool({
+  name: 'git_restore',
+  description: 'Discard working tree changes to files by restoring them from the index or a commit',
+  schema: GitRestoreSchema,
+  execute: executeGitRestore
+});
+
+export const gitWorktreeDefinition = defineTool({
+  name: 'git_worktree',
+  description: 'List, add, remove or prune git worktrees',
+  schema: GitWorktreeSchema,
+  execute: executeGitWorktree
+});
+
+export const gitDefinitions: ToolDefinition[] = [
+  gitStatusDefinition,
+  gitDiffDefinition,
+  gitLogDefinition,
+  gitCommitDefinition,
+  gitBranchDefinition,
+  gitCheckoutDefinition,
+  gitStashDefinition,
+  gitShowDefinition,
+  gitBlameDefinition,
+  gitAddDefinition,
+  gitResetDefinition,
+  gitRestoreDefinition,
+  gitWorktreeDefinition
 ];
+
+// Export all git tools (OpenAI format)
+export const gitTools: Tool[] = gitDefinitions.map(toOpenAITool);
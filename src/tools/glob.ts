@@ -1,44 +1,27 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { z } from 'zod';
+import { defineTool, toOpenAITool, toolCwd } from './define.js';
+import type { ToolContext } from './define.js';
 import type { Tool } from '../types/index.js';
 
 const execAsync = promisify(exec);
 
-export const globTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'glob',
-    description: 'Find files matching a glob pattern',
-    parameters: {
-      type: 'object',
-      properties: {
-        pattern: {
-          type: 'string',
-          description: 'Glob pattern to match files (e.g., "**/*.js", "src/**/*.ts")'
-        },
-        path: {
-          type: 'string',
-          description: 'Directory to search in (default: current directory)'
-        }
-      },
-      required: ['pattern']
-    }
-  }
-};
+export const GlobSchema = z.object({
+  pattern: z.string().describe('Glob pattern to match files (e.g., "**/*.js", "src/**/*.ts")'),
+  path: z.string().optional().describe('Directory to search in (default: current directory)')
+});
 
-interface GlobArgs {
-  pattern: string;
-  path?: string;
-}
+type GlobArgs = z.infer<typeof GlobSchema>;
 
-export async function executeGlob(args: GlobArgs): Promise<string> {
+export async function executeGlob(args: GlobArgs, context: ToolContext = {}): Promise<string> {
   const { pattern, path: searchPath = '.' } = args;
 
   try {
     // Use find command for glob-like behavior
     const { stdout } = await execAsync(
       `find ${searchPath} -type f -name "${pattern.replace('**/', '')}" 2>/dev/null | head -100`,
-      { timeout: 10000 }
+      { timeout: 10000, cwd: toolCwd(context) }
     );
 
     const files = stdout.trim().split('\n').filter(f => f);
@@ -53,3 +36,12 @@ export async function executeGlob(args: GlobArgs): Promise<string> {
     return `Error searching files: ${error.message}`;
   }
 }
+
+export const globDefinition = defineTool({
+  name: 'glob',
+  description: 'Find files matching a glob pattern',
+  schema: GlobSchema,
+  execute: executeGlob
+});
+
+export const globTool: Tool = toOpenAITool(globDefinition);
@@ -1,71 +1,161 @@
-import { exec, ExecException } from 'child_process';
-import { promisify } from 'util';
+import path from 'path';
+import { z } from 'zod';
+import { defineTool, toOpenAITool, toolCwd, resolveToolPath } from './define.js';
+import type { ToolContext } from './define.js';
+import { searchFiles, MAX_FILES, MAX_FILE_BYTES } from '../utils/search.js';
+import type { FileMatches } from '../utils/search.js';
 import type { Tool } from '../types/index.js';
 
-const execAsync = promisify(exec);
-
-export const grepTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'grep',
-    description: 'Search for a pattern in files',
-    parameters: {
-      type: 'object',
-      properties: {
-        pattern: {
-          type: 'string',
-          description: 'Regular expression pattern to search for'
-        },
-        path: {
-          type: 'string',
-          description: 'File or directory to search in (default: current directory)'
-        },
-        include: {
-          type: 'string',
-          description: 'File pattern to include (e.g., "*.js")'
-        },
-        ignore_case: {
-          type: 'boolean',
-          description: 'Case insensitive search'
-        }
-      },
-      required: ['pattern']
-    }
-  }
-};
+// Results per call unless the model asks for a different limit
+const DEFAULT_LIMIT = 100;
 
-interface GrepArgs {
-  pattern: string;
-  path?: string;
-  include?: string;
-  ignore_case?: boolean;
-}
+const MAX_CONTEXT = 20;
 
-interface ExecError extends ExecException {
-  code?: number;
+// Longer lines (minified code, data) are cut when shown
+const MAX_LINE_CHARS = 500;
+
+export const GrepSchema = z.object({
+  pattern: z.string().describe('Regular expression to search for (JavaScript syntax)'),
+  path: z.string().optional().describe('File or directory to search in (default: current directory)'),
+  include: z.string().optional().describe('Only search files matching this glob, e.g. "*.ts", "*.{js,jsx}" or "src/**/*.test.ts"'),
+  ignore_case: z.boolean().optional().describe('Case insensitive search'),
+  output_mode: z.enum(['content', 'files_with_matches', 'count']).optional().describe(
+    'content: matching lines with line numbers (default); files_with_matches: only the paths of matching files; count: matching lines per file'
+  ),
+  context: z.number().int().min(0).max(MAX_CONTEXT).optional().describe('Lines to show before and after each match (content mode)'),
+  multiline: z.boolean().optional().describe('Let matches span lines; "." also matches newlines'),
+  offset: z.number().int().min(0).optional().describe('Skip this many results, to page through a long result list'),
+  limit: z.number().int().min(1).optional().describe(`Maximum results to return (default: ${DEFAULT_LIMIT}); results are matches in content mode, files otherwise`)
+});
+
+type GrepArgs = z.infer<typeof GrepSchema>;
+
+interface NodeError extends Error {
+  code?: string;
 }
 
-export async function executeGrep(args: GrepArgs): Promise<string> {
-  const { pattern, path: searchPath = '.', include, ignore_case = false } = args;
+function displayPath(file: string, cwd: string): string {
+  const relative = path.relative(cwd, file);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : file;
+}
 
-  try {
-    let cmd = 'grep -rn';
-    if (ignore_case) cmd += ' -i';
-    if (include) cmd += ` --include="${include}"`;
-    cmd += ` "${pattern}" ${searchPath} 2>/dev/null | head -50`;
+function clip(line: string): string {
+  return line.length > MAX_LINE_CHARS
+    ? `${line.slice(0, MAX_LINE_CHARS)}... [${line.length - MAX_LINE_CHARS} more characters]`
+    : line;
+}
 
-    const { stdout } = await execAsync(cmd, { timeout: 10000 });
+// grep -n style: "file:12:text" for matched lines, "file-11-text" for context, "--" between separate groups
+function formatContent(file: string, matches: FileMatches, hits: FileMatches['hits'], context: number): string[] {
+  const { lines } = matches;
+  const groups: Array<[number, number]> = [];
+  const matched = new Set<number>();
+  for (const hit of hits) {
+    for (let i = hit.line; i <= hit.endLine; i++) matched.add(i);
+    const from = Math.max(0, hit.line - context);
+    const to = Math.min(lines.length - 1, hit.endLine + context);
+    const previous = groups[groups.length - 1];
+    if (previous && from <= previous[1] + 1) previous[1] = Math.max(previous[1], to);
+    else groups.push([from, to]);
+  }
 
-    if (!stdout.trim()) {
-      return 'No matches found';
+  return groups.map(([from, to]) => {
+    const shown: string[] = [];
+    for (let i = from; i <= to; i++) {
+      const separator = matched.has(i) ? ':' : '-';
+      shown.push(`${file}${separator}${i + 1}${separator}${clip(lines[i])}`);
     }
+    return shown.join('\n');
+  });
+}
+
+export async function executeGrep(args: GrepArgs, context: ToolContext = {}): Promise<string> {
+  const {
+    pattern,
+    path: searchPath = '.',
+    include,
+    ignore_case = false,
+    output_mode = 'content',
+    context: contextLines = 0,
+    multiline = false,
+    offset = 0,
+    limit = DEFAULT_LIMIT
+  } = args;
+  const { signal } = context;
+
+  if (signal?.aborted) {
+    return 'Error: Search aborted by user';
+  }
 
-    return stdout.trim();
+  // Only the requested page is formatted; everything else is just counted
+  const end = offset + limit;
+  const results: string[] = [];
+  let totalMatches = 0;
+  let totalFiles = 0;
+
+  let stats;
+  try {
+    stats = await searchFiles(
+      { pattern, root: resolveToolPath(searchPath, context), include, ignoreCase: ignore_case, multiline, signal },
+      matches => {
+        const file = displayPath(matches.file, toolCwd(context));
+        if (output_mode === 'content') {
+          const from = Math.max(0, offset - totalMatches);
+          const to = Math.min(matches.hits.length, end - totalMatches);
+          if (from < to) results.push(...formatContent(file, matches, matches.hits.slice(from, to), contextLines));
+        } else if (totalFiles >= offset && totalFiles < end) {
+          results.push(output_mode === 'count' ? `${file}:${matches.hits.length}` : file);
+        }
+        totalMatches += matches.hits.length;
+        totalFiles++;
+      }
+    );
   } catch (err) {
-    const error = err as ExecError;
-    if (error.code === 1) {
-      return 'No matches found';
+    const error = err as NodeError;
+    if (error instanceof SyntaxError) {
+      return `Error: ${error.message}`;
+    }
+    if (error.code === 'ENOENT') {
+      return `Error: Path not found: ${searchPath}`;
     }
     return `Error searching: ${error.message}`;
   }
+
+  if (signal?.aborted) {
+    return 'Error: Search aborted by user';
+  }
+
+  const total = output_mode === 'content' ? totalMatches : totalFiles;
+  const unit = output_mode === 'content' ? 'matches' : 'files';
+  const notes: string[] = [];
+  if (end < total) {
+    notes.push(`[Truncated: showing ${unit} ${offset + 1}-${end} of ${total}; use offset=${end} to see more]`);
+  }
+  if (stats.stopped) {
+    notes.push(`[Search stopped after ${MAX_FILES} files, so results are incomplete; narrow path or include]`);
+  }
+  if (stats.skippedLarge > 0) {
+    notes.push(`[${stats.skippedLarge} file(s) over ${MAX_FILE_BYTES / 1024 / 1024} MB not searched]`);
+  }
+
+  let body: string;
+  if (total === 0) {
+    body = 'No matches found';
+  } else if (offset >= total) {
+    body = `No results at offset ${offset}; there are ${total} ${unit}`;
+  } else {
+    body = results.join(output_mode === 'content' && contextLines > 0 ? '\n--\n' : '\n');
+    if (output_mode === 'count') body += `\n\nTotal: ${totalMatches} in ${totalFiles} file${totalFiles === 1 ? '' : 's'}`;
+  }
+  return [body, ...notes].join('\n\n');
 }
+
+export const grepDefinition = defineTool({
+  name: 'grep',
+  description: `Search file contents with a regular expression. Skips files ignored by .gitignore/.zesbeignore, node_modules, .git and binary files.
+Use output_mode files_with_matches or count to survey first, context for surrounding lines, multiline for patterns across lines, and offset/limit to page through results.`,
+  schema: GrepSchema,
+  execute: executeGrep
+});
+
+export const grepTool: Tool = toOpenAITool(grepDefinition);
@@ -1,35 +1,91 @@
-import { bashTool, executeBash } from './bash.js';
-import { readTool, executeRead } from './read.js';
-import { writeTool, executeWrite } from './write.js';
-import { editTool, executeEdit } from './edit.js';
-import { globTool, executeGlob } from './glob.js';
-import { grepTool, executeGrep } from './grep.js';
-import { webTool, executeWebFetch } from './web.js';
+import {
+  bashTool,
+  bashDefinition,
+  executeBash,
+  bashOutputTool,
+  bashOutputDefinition,
+  executeBashOutput,
+  bashKillTool,
+  bashKillDefinition,
+  executeBashKill
+} from './bash.js';
+import { readTool, readDefinition, executeRead } from './read.js';
+import { writeTool, writeDefinition, executeWrite } from './write.js';
+import { editTool, editDefinition, executeEdit, multiEditTool, multiEditDefinition, executeMultiEdit } from './edit.js';
+import { applyPatchTool, applyPatchDefinition, executeApplyPatch } from './patch.js';
+import { globTool, globDefinition, executeGlob } from './glob.js';
+import { grepTool, grepDefinition, executeGrep } from './grep.js';
+import { webTool, webDefinition, executeWebFetch } from './web.js';
+import {
+  listMcpResourcesTool,
+  listMcpResourcesDefinition,
+  executeListMcpResources,
+  readMcpResourceTool,
+  readMcpResourceDefinition,
+  executeReadMcpResource
+} from './mcp-resources.js';
+import { taskTool, taskDefinition, executeTask, SUBAGENT_DEFAULT_TOOLS, SUBAGENT_MAX_STEPS } from './task.js';
+import {
+  submitPlanTool,
+  submitPlanDefinition,
+  executeSubmitPlan,
+  updatePlanTool,
+  updatePlanDefinition,
+  executeUpdatePlan,
+  PLAN_MODE_TOOLS
+} from './plan.js';
 import {
   gitTools,
+  gitDefinitions,
   executeGitStatus,
   executeGitDiff,
   executeGitLog,
   executeGitCommit,
   executeGitBranch,
   executeGitCheckout,
-  executeGitStash
+  executeGitStash,
+  executeGitShow,
+  executeGitBlame,
+  executeGitAdd,
+  executeGitReset,
+  executeGitRestore,
+  executeGitWorktree
 } from './git.js';
+import { toOpenAITool, runToolDefinition } from './define.js';
+import type { ToolDefinition, ToolContext, Planner } from './define.js';
 import { getMCPManager } from '../mcp/client.js';
-import type { Tool, ToolExecutor } from '../types/index.js';
+import type { Tool } from '../types/index.js';
 
-// Built-in tool definitions
-export const builtInTools: Tool[] = [
-  bashTool,
-  readTool,
-  writeTool,
-  editTool,
-  globTool,
-  grepTool,
-  webTool,
-  ...gitTools
+// Tool registry: single source of truth for built-in tool schemas, descriptions and executors
+export const toolDefinitions: ToolDefinition[] = [
+  bashDefinition,
+  bashOutputDefinition,
+  bashKillDefinition,
+  readDefinition,
+  writeDefinition,
+  editDefinition,
+  multiEditDefinition,
+  applyPatchDefinition,
+  globDefinition,
+  grepDefinition,
+  webDefinition,
+  listMcpResourcesDefinition,
+  readMcpResourceDefinition,
+  taskDefinition,
+  submitPlanDefinition,
+  updatePlanDefinition,
+  ...gitDefinitions
 ];
 
+const definitionsByName = new Map(toolDefinitions.map(def => [def.name, def]));
+
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return definitionsByName.get(name);
+}
+
+// Built-in tool definitions (OpenAI format)
+export const builtInTools: Tool[] = toolDefinitions.map(toOpenAITool);
+
 // Get all tools (built-in + MCP)
 export function getAllTools(): Tool[] {
   const mcpManager = getMCPManager();
@@ -40,31 +96,16 @@ export function getAllTools(): Tool[] {
 // For backward compatibility
 export const tools = builtInTools;
 
-// Tool executors map
-const executors: Record<string, ToolExecutor> = {
-  bash: executeBash as ToolExecutor,
-  read: executeRead as ToolExecutor,
-  write: executeWrite as ToolExecutor,
-  edit: executeEdit as ToolExecutor,
-  glob: executeGlob as ToolExecutor,
-  grep: executeGrep as ToolExecutor,
-  web_fetch: executeWebFetch as ToolExecutor,
-  // Git tools
-  git_status: executeGitStatus as ToolExecutor,
-  git_diff: executeGitDiff as ToolExecutor,
-  git_log: executeGitLog as ToolExecutor,
-  git_commit: executeGitCommit as ToolExecutor,
-  git_branch: executeGitBranch as ToolExecutor,
-  git_checkout: executeGitCheckout as ToolExecutor,
-  git_stash: executeGitStash as ToolExecutor
-};
-
-export async function executeTool(name: string, args: Record<string, unknown>): Promise<string | object> {
+export async function executeTool(
+  name: string,
+  args: Record<string, unknown>,
+  context: ToolContext = {}
+): Promise<string | object> {
   // Check if it's an MCP tool
   if (name.startsWith('mcp_')) {
     const mcpManager = getMCPManager();
     try {
-      return await mcpManager.executeTool(name, args);
+      return await mcpManager.executeTool(name, args, context.signal);
     } catch (err) {
       const error = err as Error;
       return `Error executing MCP tool ${name}: ${error.message}`;
@@ -72,13 +113,13 @@ export async function executeTool(name: string, args: Record<string, unknown>):
   }
 
   // Built-in tool
-  const executor = executors[name];
-  if (!executor) {
+  const definition = definitionsByName.get(name);
+  if (!definition) {
     return `Unknown tool: ${name}`;
   }
 
   try {
-    return await executor(args);
+    return await runToolDefinition(definition, args, context);
   } catch (err) {
     const error = err as Error;
     return `Error executing ${name}: ${error.message}`;
@@ -86,13 +127,17 @@ export async function executeTool(name: string, args: Record<string, unknown>):
 }
 
 // Re-export individual tools
-export { bashTool, executeBash };
+export { bashTool, executeBash, bashOutputTool, executeBashOutput, bashKillTool, executeBashKill };
 export { readTool, executeRead };
 export { writeTool, executeWrite };
-export { editTool, executeEdit };
+export { editTool, executeEdit, multiEditTool, executeMultiEdit };
+export { applyPatchTool, executeApplyPatch };
 export { globTool, executeGlob };
 export { grepTool, executeGrep };
 export { webTool, executeWebFetch };
+export { listMcpResourcesTool, executeListMcpResources, readMcpResourceTool, executeReadMcpResource };
+export { taskTool, executeTask, SUBAGENT_DEFAULT_TOOLS, SUBAGENT_MAX_STEPS };
+export { submitPlanTool, executeSubmitPlan, updatePlanTool, executeUpdatePlan, PLAN_MODE_TOOLS };
 export {
   gitTools,
   executeGitStatus,
@@ -101,5 +146,12 @@ export {
   executeGitCommit,
   executeGitBranch,
   executeGitCheckout,
-  executeGitStash
+  executeGitStash,
+  executeGitShow,
+  executeGitBlame,
+  executeGitAdd,
+  executeGitReset,
+  executeGitRestore,
+  executeGitWorktree
 };
+export type { ToolDefinition, ToolContext, Planner };
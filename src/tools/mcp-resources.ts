@@ -0,0 +1,64 @@
+// MCP Resource Tools - List and read resources exposed by connected MCP servers
+import { z } from 'zod';
+import { defineTool, toOpenAITool } from './define.js';
+import { getMCPManager } from '../mcp/client.js';
+import type { Tool } from '../types/index.js';
+
+const MAX_RESOURCE_CHARS = 50000;
+
+export const ListMcpResourcesSchema = z.object({
+  server: z.string().optional().describe('Only list resources from this MCP server')
+});
+
+export const ReadMcpResourceSchema = z.object({
+  uri: z.string().describe('Resource URI, as returned by list_mcp_resources'),
+  server: z.string().optional().describe('MCP server to read from (needed for URIs not in the list)')
+});
+
+type ListMcpResourcesArgs = z.infer<typeof ListMcpResourcesSchema>;
+type ReadMcpResourceArgs = z.infer<typeof ReadMcpResourceSchema>;
+
+export async function executeListMcpResources(args: ListMcpResourcesArgs): Promise<string> {
+  const resources = getMCPManager().listResources().filter(r => !args.server || r.server === args.server);
+  if (resources.length === 0) {
+    return args.server ? `No resources from MCP server ${args.server}` : 'No MCP resources available';
+  }
+
+  return resources
+    .map(r => {
+      const details = [r.mimeType, r.description].filter(Boolean).join(' - ');
+      return `[${r.server}] ${r.uri} (${r.name})${details ? `: ${details}` : ''}`;
+    })
+    .join('\n');
+}
+
+export async function executeReadMcpResource(args: ReadMcpResourceArgs): Promise<string> {
+  try {
+    const resource = await getMCPManager().readResource(args.uri, args.server);
+    if (resource.text.length > MAX_RESOURCE_CHARS) {
+      return resource.text.substring(0, MAX_RESOURCE_CHARS) +
+        `\n\n... (truncated, ${resource.text.length - MAX_RESOURCE_CHARS} more characters)`;
+    }
+    return resource.text || '(empty resource)';
+  } catch (e) {
+    const error = e as Error;
+    return `Error: ${error.message}`;
+  }
+}
+
+export const listMcpResourcesDefinition = defineTool({
+  name: 'list_mcp_resources',
+  description: 'List resources (files, records, documents) exposed by connected MCP servers, with their URIs.',
+  schema: ListMcpResourcesSchema,
+  execute: executeListMcpResources
+});
+
+export const readMcpResourceDefinition = defineTool({
+  name: 'read_mcp_resource',
+  description: 'Read an MCP resource by URI. Use list_mcp_resources to find available URIs.',
+  schema: ReadMcpResourceSchema,
+  execute: executeReadMcpResource
+});
+
+export const listMcpResourcesTool: Tool = toOpenAITool(listMcpResourcesDefinition);
+export const readMcpResourceTool: Tool = toOpenAITool(readMcpResourceDefinition);
@@ -0,0 +1,58 @@
+/**
+ * apply_patch deletions only go through when the patch removes the file's current content
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Checkpoints are kept under ~/.zesbe
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zesbe-patch-'));
+
+const { executeApplyPatch } = await import('./patch.js');
+
+const deletion = (file: string, lines: string[]) =>
+  `--- a/${file}\n+++ /dev/null\n@@ -1,${lines.length} +0,0 @@\n${lines.map(l => `-${l}`).join('\n')}\n`;
+
+describe('apply_patch deletions', () => {
+  before(() => process.chdir(dir));
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('deletes a file whose content the patch removes', async () => {
+    fs.writeFileSync('gone.txt', 'one\ntwo\n');
+    const result = await executeApplyPatch({ patch: deletion('gone.txt', ['one', 'two']) });
+    assert.match(result, /deleted gone\.txt/);
+    assert.ok(!fs.existsSync('gone.txt'));
+  });
+
+  it('refuses when the file has lines the patch does not remove', async () => {
+    fs.writeFileSync('kept.txt', 'one\ntwo\nadded later\n');
+    const result = await executeApplyPatch({ patch: deletion('kept.txt', ['one', 'two']) });
+    assert.match(result, /^Error: Patch not applied/);
+    assert.match(result, /kept\.txt: deleting it would drop 1 line/);
+    assert.equal(fs.readFileSync('kept.txt', 'utf-8'), 'one\ntwo\nadded later\n');
+  });
+
+  it('refuses when the removed lines do not match the file', async () => {
+    fs.writeFileSync('changed.txt', 'one\nTWO\n');
+    const result = await executeApplyPatch({ patch: deletion('changed.txt', ['one', 'two']) });
+    assert.match(result, /^Error: Patch not applied/);
+    assert.ok(fs.existsSync('changed.txt'));
+  });
+
+  it('changes nothing when one deletion in a multi-file patch fails', async () => {
+    fs.writeFileSync('a.txt', 'a\n');
+    fs.writeFileSync('b.txt', 'b\nextra\n');
+    const result = await executeApplyPatch({ patch: deletion('a.txt', ['a']) + deletion('b.txt', ['b']) });
+    assert.match(result, /^Error/);
+    assert.ok(fs.existsSync('a.txt') && fs.existsSync('b.txt'));
+  });
+});
@@ -0,0 +1,135 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { defineTool, toOpenAITool, resolveToolPath } from './define.js';
+import type { ToolContext } from './define.js';
+import { getCheckpointManager } from '../checkpoints/manager.js';
+import { decodeText, encodeText } from '../utils/text-edit.js';
+import { parseUnifiedDiff, applyHunks, formatRejection } from '../utils/patch.js';
+import type { Tool } from '../types/index.js';
+
+export const ApplyPatchSchema = z.object({
+  patch: z.string().describe(
+    'Unified diff (git diff or diff -u format). May change several files; --- /dev/null creates a file, +++ /dev/null deletes one (its hunks must remove all of its lines), different ---/+++ paths rename'
+  )
+});
+
+type ApplyPatchArgs = z.infer<typeof ApplyPatchSchema>;
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+export async function executeApplyPatch(args: ApplyPatchArgs, context: ToolContext = {}): Promise<string> {
+  let files;
+  try {
+    files = parseUnifiedDiff(args.patch);
+  } catch (e) {
+    const error = e as Error;
+    return `Error: ${error.message}`;
+  }
+
+  // Everything is worked out in memory first; null marks a deletion
+  const pending = new Map<string, string | null>();
+  const readFile = async (file: string): Promise<string | null> => {
+    if (pending.has(file)) return pending.get(file)!;
+    try {
+      return await fs.readFile(file, 'utf-8');
+    } catch (_e) {
+      return null;
+    }
+  };
+  const exists = async (file: string): Promise<boolean> => (await readFile(file)) !== null;
+
+  const errors: string[] = [];
+  const summary: string[] = [];
+  for (const file of files) {
+    if (file.oldPath === null) {
+      const target = resolveToolPath(file.newPath!, context);
+      if (await exists(target)) {
+        errors.push(`${file.newPath}: already exists; patch its current content instead of creating it`);
+        continue;
+      }
+      const created = applyHunks('', file.hunks).content;
+      pending.set(target, created);
+      summary.push(`created ${file.newPath} (${plural(created ? created.replace(/\n$/, '').split('\n').length : 0, 'line')})`);
+      continue;
+    }
+
+    const source = resolveToolPath(file.oldPath, context);
+    const raw = await readFile(source);
+    if (raw === null) {
+      errors.push(`${file.oldPath}: file not found`);
+      continue;
+    }
+    const { text, format } = decodeText(raw);
+    const applied = applyHunks(text, file.hunks);
+    if (applied.rejected.length > 0) {
+      errors.push(...applied.rejected.map(r => formatRejection(file.oldPath!, r)));
+      continue;
+    }
+
+    // A deletion's hunks must remove everything, so a stale patch can't delete lines it never saw
+    if (file.newPath === null) {
+      if (applied.content !== '') {
+        const left = applied.content.replace(/\n$/, '').split('\n').length;
+        errors.push(`${file.oldPath}: deleting it would drop ${plural(left, 'line')} the patch doesn't remove; patch its current content instead`);
+        continue;
+      }
+      pending.set(source, null);
+      summary.push(`deleted ${file.oldPath}`);
+      continue;
+    }
+
+    const target = resolveToolPath(file.newPath, context);
+    let action = `patched ${file.newPath}`;
+    if (target !== source) {
+      if (await exists(target)) {
+        errors.push(`${file.newPath}: already exists; can't rename ${file.oldPath} to it`);
+        continue;
+      }
+      pending.set(source, null);
+      action = `renamed ${file.oldPath} → ${file.newPath}`;
+    }
+    pending.set(target, encodeText(applied.content, format));
+
+    const notes = [plural(file.hunks.length, 'hunk')];
+    const moved = applied.offsets.filter(o => o !== 0).length;
+    if (moved > 0) notes.push(`${moved} at an offset`);
+    if (applied.fuzzed > 0) notes.push(`${applied.fuzzed} fuzzy`);
+    summary.push(file.hunks.length > 0 ? `${action} (${notes.join(', ')})` : action);
+  }
+
+  if (errors.length > 0) {
+    return `Error: Patch not applied, no files were changed. Fix these and send the whole patch again:\n\n${errors.join('\n\n')}`;
+  }
+
+  // Keep the prior content of every touched file for /undo and /rewind, then write
+  const checkpoints = getCheckpointManager();
+  for (const file of pending.keys()) checkpoints.snapshot(file);
+  try {
+    for (const [file, content] of pending) {
+      if (content === null) {
+        await fs.rm(file, { force: true });
+      } else {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, content, 'utf-8');
+      }
+    }
+  } catch (e) {
+    const error = e as Error;
+    return `Error applying patch: ${error.message} (files written before the error can be restored with /undo)`;
+  }
+
+  return `Patch applied:\n${summary.map(line => `  ${line}`).join('\n')}`;
+}
+
+export const applyPatchDefinition = defineTool({
+  name: 'apply_patch',
+  description: `Apply a unified diff that can change, create, delete and rename several files at once; use it instead of many write/edit calls.
+Hunks may be a few lines off or differ in whitespace. Nothing is written unless every hunk applies; rejected hunks are reported with the file's actual content.`,
+  schema: ApplyPatchSchema,
+  execute: executeApplyPatch
+});
+
+export const applyPatchTool: Tool = toOpenAITool(applyPatchDefinition);
@@ -0,0 +1,58 @@
+// Plan Tools - Submit a step plan in plan mode, then report progress against it while executing
+import { z } from 'zod';
+import { defineTool, toOpenAITool } from './define.js';
+import type { ToolContext } from './define.js';
+import type { Tool } from '../types/index.js';
+
+// The only tools offered in plan mode: nothing that changes files, the repository or the system
+export const PLAN_MODE_TOOLS = [
+  'read', 'glob', 'grep', 'git_status', 'git_diff', 'git_log', 'web_fetch', 'submit_plan'
+];
+
+export const SubmitPlanSchema = z.object({
+  summary: z.string().describe('One or two sentences: the goal and the approach'),
+  steps: z.array(z.object({
+    title: z.string().describe('What this step does, e.g. "Add retry option to config.ts"'),
+    details: z.string().optional().describe('Files, functions and checks involved')
+  })).min(1).describe('Ordered steps; each one small enough to verify on its own')
+});
+
+export const UpdatePlanSchema = z.object({
+  step: z.number().int().min(1).describe('Step number in the approved plan (1-based)'),
+  status: z.enum(['in_progress', 'done', 'skipped']).describe('New status of the step'),
+  note: z.string().optional().describe('Short note, e.g. why a step was skipped')
+});
+
+type SubmitPlanArgs = z.infer<typeof SubmitPlanSchema>;
+type UpdatePlanArgs = z.infer<typeof UpdatePlanSchema>;
+
+export async function executeSubmitPlan(args: SubmitPlanArgs, context: ToolContext): Promise<string> {
+  if (!context.planner) {
+    return 'Error: submit_plan is only available in plan mode';
+  }
+  return context.planner.submit(args.summary, args.steps);
+}
+
+export async function executeUpdatePlan(args: UpdatePlanArgs, context: ToolContext): Promise<string> {
+  if (!context.planner) {
+    return 'Error: There is no approved plan to update';
+  }
+  return context.planner.update(args.step, args.status, args.note);
+}
+
+export const submitPlanDefinition = defineTool({
+  name: 'submit_plan',
+  description: 'Plan mode only: submit the finished step plan for the user to approve. Call it once, after investigating, as your last action.',
+  schema: SubmitPlanSchema,
+  execute: executeSubmitPlan
+});
+
+export const updatePlanDefinition = defineTool({
+  name: 'update_plan',
+  description: 'Mark a step of the approved plan as in_progress when you start it and done (or skipped) when it is finished.',
+  schema: UpdatePlanSchema,
+  execute: executeUpdatePlan
+});
+
+export const submitPlanTool: Tool = toOpenAITool(submitPlanDefinition);
+export const updatePlanTool: Tool = toOpenAITool(updatePlanDefinition);
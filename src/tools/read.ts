@@ -1,48 +1,26 @@
 import fs from 'fs/promises';
-import path from 'path';
+import { z } from 'zod';
+import { defineTool, toOpenAITool, resolveToolPath } from './define.js';
+import type { ToolContext } from './define.js';
 import type { Tool } from '../types/index.js';
 
-export const readTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'read',
-    description: 'Read the contents of a file',
-    parameters: {
-      type: 'object',
-      properties: {
-        file_path: {
-          type: 'string',
-          description: 'Path to the file to read'
-        },
-        offset: {
-          type: 'number',
-          description: 'Line number to start reading from (1-based)'
-        },
-        limit: {
-          type: 'number',
-          description: 'Maximum number of lines to read'
-        }
-      },
-      required: ['file_path']
-    }
-  }
-};
+export const ReadSchema = z.object({
+  file_path: z.string().describe('Path to the file to read'),
+  offset: z.number().optional().describe('Line number to start reading from (1-based)'),
+  limit: z.number().optional().describe('Maximum number of lines to read')
+});
 
-interface ReadArgs {
-  file_path: string;
-  offset?: number;
-  limit?: number;
-}
+type ReadArgs = z.infer<typeof ReadSchema>;
 
 interface NodeError extends Error {
   code?: string;
 }
 
-export async function executeRead(args: ReadArgs): Promise<string> {
+export async function executeRead(args: ReadArgs, context: ToolContext = {}): Promise<string> {
   const { file_path, offset = 1, limit } = args;
 
   try {
-    const resolvedPath = path.resolve(file_path);
+    const resolvedPath = resolveToolPath(file_path, context);
     const content = await fs.readFile(resolvedPath, 'utf-8');
     const lines = content.split('\n');
 
@@ -66,3 +44,12 @@ export async function executeRead(args: ReadArgs): Promise<string> {
     return `Error reading file: ${error.message}`;
   }
 }
+
+export const readDefinition = defineTool({
+  name: 'read',
+  description: 'Read the contents of a file',
+  schema: ReadSchema,
+  execute: executeRead
+});
+
+export const readTool: Tool = toOpenAITool(readDefinition);
@@ -0,0 +1,48 @@
+// Task Tool - Delegate a focused job to a subagent with its own context
+import { z } from 'zod';
+import { defineTool, toOpenAITool } from './define.js';
+import type { ToolContext } from './define.js';
+import type { Tool } from '../types/index.js';
+
+// Tools a subagent gets when the task names none: enough to explore, nothing that changes files
+export const SUBAGENT_DEFAULT_TOOLS = [
+  'read', 'glob', 'grep', 'web_fetch', 'list_mcp_resources', 'read_mcp_resource',
+  'git_status', 'git_diff', 'git_log', 'git_show', 'git_blame'
+];
+
+export const SUBAGENT_MAX_STEPS = 25;
+
+export const TaskSchema = z.object({
+  description: z.string().describe('Short (3-6 words) label for the task, shown to the user'),
+  prompt: z.string().describe(
+    'Complete instructions for the subagent. It cannot see this conversation, so include every detail it needs and say what its report should contain'
+  ),
+  tools: z.array(z.string()).optional().describe(
+    `Tools the subagent may use (default: ${SUBAGENT_DEFAULT_TOOLS.join(', ')}). Subagents cannot start other tasks`
+  ),
+  max_steps: z.number().int().min(1).max(100).optional().describe(`Step limit for the subagent (default: ${SUBAGENT_MAX_STEPS})`)
+});
+
+type TaskArgs = z.infer<typeof TaskSchema>;
+
+export async function executeTask(args: TaskArgs, context: ToolContext): Promise<string> {
+  if (!context.runSubagent) {
+    return 'Error: Subagents are not available here';
+  }
+  return context.runSubagent({
+    description: args.description,
+    prompt: args.prompt,
+    tools: args.tools,
+    maxSteps: args.max_steps
+  });
+}
+
+export const taskDefinition = defineTool({
+  name: 'task',
+  description: `Start a subagent with its own context to carry out a focused job (research, auditing a module, searching a large codebase) and return only its final report.
+Use it to keep exploration noise out of the conversation. Several task calls in one step run in parallel.`,
+  schema: TaskSchema,
+  execute: executeTask
+});
+
+export const taskTool: Tool = toOpenAITool(taskDefinition);
@@ -0,0 +1,166 @@
+/**
+ * Tool contract test: every registered tool is called the way a model calls it, through
+ * Agent.chat, the AI SDK tools generated from the registry, the permission gate and the executor.
+ * A schema that drifts from its executor shows up as an invalid-arguments error or a wrong result.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { startFakeOpenAI, lastUserText } from '../testing/fake-openai.js';
+import type { FakeOpenAI } from '../testing/fake-openai.js';
+
+// Keep the user's ~/.zesbe (policy, hooks, sessions, MCP servers) out of the test
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'zesbe-contract-'));
+
+const { Agent } = await import('../agent.js');
+const { toolDefinitions } = await import('./index.js');
+
+interface Contract {
+  args: Record<string, unknown>;
+  expect: RegExp;                          // Matched against the tool result
+  check?: () => void;                      // Extra assertions on the working tree
+  agent?: { planMode?: boolean; approvedPlan?: boolean };
+}
+
+const read = (file: string) => fs.readFileSync(path.join(repo, file), 'utf-8');
+
+// In call order: later calls rely on files and commits made by earlier ones
+const contracts: Record<string, Contract> = {
+  write: {
+    args: { file_path: 'notes.txt', content: 'alpha\nbeta\n' },
+    expect: /notes\.txt/,
+    check: () => assert.equal(read('notes.txt'), 'alpha\nbeta\n')
+  },
+  read: { args: { file_path: 'notes.txt', offset: 2, limit: 1 }, expect: /^(?![\s\S]*alpha)[\s\S]*beta/ },
+  edit: {
+    args: { file_path: 'notes.txt', old_string: 'beta', new_string: 'gamma', replace_all: false },
+    expect: /1 replacement/,
+    check: () => assert.equal(read('notes.txt'), 'alpha\ngamma\n')
+  },
+  multi_edit: {
+    args: {
+      file_path: 'notes.txt',
+      edits: [{ old_string: 'alpha', new_string: 'one' }, { old_string: 'gamma', new_string: 'two' }]
+    },
+    expect: /2 edits/,
+    check: () => assert.equal(read('notes.txt'), 'one\ntwo\n')
+  },
+  apply_patch: {
+    args: { patch: '--- /dev/null\n+++ b/patched.txt\n@@ -0,0 +1 @@\n+patched\n' },
+    expect: /created patched\.txt/,
+    check: () => assert.equal(read('patched.txt'), 'patched\n')
+  },
+  glob: { args: { pattern: '*.txt' }, expect: /notes\.txt/ },
+  grep: { args: { pattern: 'tw[o]', output_mode: 'count' }, expect: /notes\.txt:1/ },
+  bash: { args: { command: 'echo contract-$((1 + 1))' }, expect: /contract-2/ },
+  bash_output: { args: { job_id: 'missing' }, expect: /missing/ },
+  bash_kill: { args: { job_id: 'missing' }, expect: /missing/ },
+  web_fetch: { args: { url: 'FAKE_SERVER/page' }, expect: /fake page/ },
+  list_mcp_resources: { args: {}, expect: /MCP/ },
+  read_mcp_resource: { args: { uri: 'file:///nowhere' }, expect: /file:\/\/\/nowhere|MCP/ },
+  task: { args: { description: 'Say done', prompt: 'Reply with done' }, expect: /done/ },
+  submit_plan: {
+    args: { summary: 'Contract plan', steps: [{ title: 'First step' }] },
+    expect: /plan/i,
+    agent: { planMode: true }
+  },
+  update_plan: { args: { step: 1, status: 'done' }, expect: /done/i, agent: { approvedPlan: true } },
+  git_status: { args: {}, expect: /notes\.txt|patched\.txt/ },
+  git_diff: { args: { staged: false }, expect: /No changes|diff/ },
+  git_add: { args: { files: ['notes.txt', 'patched.txt'] }, expect: /Staged: notes\.txt, patched\.txt/ },
+  git_reset: { args: { files: ['patched.txt'] }, expect: /Unstaged: patched\.txt/ },
+  git_commit: { args: { message: 'contract commit', files: ['notes.txt'] }, expect: /Committed/ },
+  git_log: { args: { maxCount: 1 }, expect: /contract commit/ },
+  git_show: { args: { ref: 'HEAD', stat: true }, expect: /notes\.txt/ },
+  git_blame: { args: { file: 'notes.txt', startLine: 2, endLine: 2 }, expect: /two/ },
+  git_restore: {
+    args: { files: ['notes.txt'] },
+    expect: /Restored: notes\.txt/,
+    check: () => assert.equal(read('notes.txt'), 'one\ntwo\n')
+  },
+  git_stash: { args: { action: 'list' }, expect: /stash/i },
+  git_branch: { args: { name: 'feature', list: false }, expect: /feature/ },
+  git_checkout: { args: { branch: 'main' }, expect: /main/ },
+  git_worktree: { args: { action: 'list' }, expect: new RegExp(path.basename(repo)) }
+};
+
+describe('tool contract', () => {
+  let server: FakeOpenAI;
+
+  before(async () => {
+    // "CALL {...}" makes the model call that tool; anything else (tool results, subagent prompts) gets "done"
+    server = await startFakeOpenAI(request => {
+      const text = lastUserText(request);
+      return text.startsWith('CALL ') ? { toolCalls: [JSON.parse(text.slice(5))] } : { text: 'done' };
+    });
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, stdio: 'pipe' });
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    fs.writeFileSync(path.join(repo, 'README.md'), 'contract\n');
+    git('add', 'README.md');
+    git('commit', '-q', '-m', 'init');
+    process.chdir(repo);
+  });
+
+  after(async () => {
+    await server.close();
+    fs.rmSync(repo, { recursive: true, force: true });
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('has a contract for every registered tool', () => {
+    assert.deepEqual(toolDefinitions.map(d => d.name).sort(), Object.keys(contracts).sort());
+  });
+
+  for (const [name, contract] of Object.entries(contracts)) {
+    it(`runs ${name} through the agent`, async () => {
+      const agent = new Agent({
+        provider: 'openai',
+        model: 'gpt-4o',
+        apiKey: 'test',
+        baseUrl: server.url,
+        cwd: repo,
+        yolo: true,
+        planMode: contract.agent?.planMode
+      });
+      if (contract.agent?.approvedPlan) {
+        agent.plan = { summary: 'Plan', steps: [{ title: 'First step', status: 'pending' }], approved: true };
+      }
+
+      const args = JSON.parse(JSON.stringify(contract.args).replace('FAKE_SERVER', server.url.replace(/\/v1$/, '')));
+      const results: Array<string | object> = [];
+      let error: Error | null = null;
+      const sent = server.requests.length;
+      try {
+        await agent.chat(`CALL ${JSON.stringify({ name, args })}`, {
+          onToolResult: (tool, result) => {
+            if (tool === name) results.push(result);
+          },
+          onError: (e) => { error = e; }
+        });
+      } finally {
+        agent.closeShell();
+      }
+
+      assert.equal(error, null);
+      // The schema the model saw has the same fields the executor reads
+      const offered = server.requests[sent].tools?.find(t => t.function.name === name);
+      assert.ok(offered, `${name} was not offered to the model`);
+      const definition = toolDefinitions.find(d => d.name === name)!;
+      assert.deepEqual(Object.keys(offered.function.parameters.properties || {}).sort(), Object.keys(definition.schema.shape).sort());
+
+      assert.equal(results.length, 1, `${name} produced no result`);
+      const result = typeof results[0] === 'string' ? results[0] : JSON.stringify(results[0]);
+      assert.doesNotMatch(result, /Invalid arguments|"status":"denied"/);
+      assert.match(result, contract.expect);
+      contract.check?.();
+    });
+  }
+});
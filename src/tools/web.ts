@@ -1,32 +1,19 @@
 // Web Fetch Tool - Fetch content from URLs
 import https from 'https';
 import http from 'http';
+import { z } from 'zod';
+import { defineTool, toOpenAITool } from './define.js';
+import type { ToolContext } from './define.js';
 import type { Tool } from '../types/index.js';
 import type { IncomingMessage, ClientRequest } from 'http';
 
-export const webTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'web_fetch',
-    description: 'Fetch content from a URL. Returns the text content of the webpage.',
-    parameters: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The URL to fetch'
-        }
-      },
-      required: ['url']
-    }
-  }
-};
+export const WebFetchSchema = z.object({
+  url: z.string().describe('The URL to fetch')
+});
 
-interface WebFetchArgs {
-  url: string;
-}
+type WebFetchArgs = z.infer<typeof WebFetchSchema>;
 
-export async function executeWebFetch(args: WebFetchArgs): Promise<string> {
+export async function executeWebFetch(args: WebFetchArgs, context: ToolContext = {}): Promise<string> {
   const { url } = args;
 
   return new Promise((resolve) => {
@@ -35,13 +22,14 @@ export async function executeWebFetch(args: WebFetchArgs): Promise<string> {
 
       const req: ClientRequest = protocol.get(url, {
         timeout: 10000,
+        signal: context.signal,
         headers: {
           'User-Agent': 'Mozilla/5.0 (compatible; ZesbeCLI/1.0)'
         }
       }, (res: IncomingMessage) => {
         // Handle redirects
         if (res.statusCode && res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
-          executeWebFetch({ url: res.headers.location }).then(resolve);
+          executeWebFetch({ url: res.headers.location }, context).then(resolve);
           return;
         }
 
@@ -66,7 +54,7 @@ export async function executeWebFetch(args: WebFetchArgs): Promise<string> {
         });
       });
 
-      req.on('error', (e: Error) => resolve(`Error: ${e.message}`));
+      req.on('error', (e: Error) => resolve(context.signal?.aborted ? 'Error: Request aborted by user' : `Error: ${e.message}`));
       req.on('timeout', () => {
         req.destroy();
         resolve('Error: Request timeout');
@@ -77,3 +65,12 @@ export async function executeWebFetch(args: WebFetchArgs): Promise<string> {
     }
   });
 }
+
+export const webDefinition = defineTool({
+  name: 'web_fetch',
+  description: 'Fetch content from a URL. Returns the text content of the webpage.',
+  schema: WebFetchSchema,
+  execute: executeWebFetch
+});
+
+export const webTool: Tool = toOpenAITool(webDefinition);
@@ -1,44 +1,31 @@
 import fs from 'fs/promises';
 import path from 'path';
+import { z } from 'zod';
+import { defineTool, toOpenAITool, resolveToolPath } from './define.js';
+import type { ToolContext } from './define.js';
+import { getCheckpointManager } from '../checkpoints/manager.js';
 import type { Tool } from '../types/index.js';
 
-export const writeTool: Tool = {
-  type: 'function',
-  function: {
-    name: 'write',
-    description: 'Write content to a file (creates or overwrites)',
-    parameters: {
-      type: 'object',
-      properties: {
-        file_path: {
-          type: 'string',
-          description: 'Path to the file to write'
-        },
-        content: {
-          type: 'string',
-          description: 'Content to write to the file'
-        }
-      },
-      required: ['file_path', 'content']
-    }
-  }
-};
+export const WriteSchema = z.object({
+  file_path: z.string().describe('Path to the file to write'),
+  content: z.string().describe('Content to write to the file')
+});
 
-interface WriteArgs {
-  file_path: string;
-  content: string;
-}
+type WriteArgs = z.infer<typeof WriteSchema>;
 
-export async function executeWrite(args: WriteArgs): Promise<string> {
+export async function executeWrite(args: WriteArgs, context: ToolContext = {}): Promise<string> {
   const { file_path, content } = args;
 
   try {
-    const resolvedPath = path.resolve(file_path);
+    const resolvedPath = resolveToolPath(file_path, context);
     const dir = path.dirname(resolvedPath);
 
     // Create directory if it doesn't exist
     await fs.mkdir(dir, { recursive: true });
 
+    // Keep the prior content for /undo and /rewind
+    getCheckpointManager().snapshot(resolvedPath);
+
     // Write file
     await fs.writeFile(resolvedPath, content, 'utf-8');
 
@@ -49,3 +36,12 @@ export async function executeWrite(args: WriteArgs): Promise<string> {
     return `Error writing file: ${error.message}`;
   }
 }
+
+export const writeDefinition = defineTool({
+  name: 'write',
+  description: 'Write content to a file (creates or overwrites)',
+  schema: WriteSchema,
+  execute: executeWrite
+});
+
+export const writeTool: Tool = toOpenAITool(writeDefinition);
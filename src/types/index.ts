@@ -44,23 +44,130 @@ export interface AgentOptions {
   stream?: boolean;
   cwd?: string;
   maxSteps?: number; // 0 = unlimited
+  retryPolicies?: Record<string, Partial<RetryPolicy>>; // Per provider, over the defaults
+  failover?: ProviderEndpoint[];   // Tried in order when the primary keeps failing
+  tools?: string[];                // Only offer these tools (built-in or mcp_ names); default all
+  planMode?: boolean;              // Start in read-only plan mode
+  checkpoints?: boolean;           // Snapshot files before each turn changes them (default true)
+  sessionHooks?: boolean;          // Run SessionStart, UserPromptSubmit and Stop hooks (default true; off for subagents)
+  reasoning?: Record<string, ReasoningSetting>; // Per model id
+  bashOutputTokens?: number;       // Cap on bash output sent to the model; the full log goes to a temp file
 }
 
-export interface AgentStats {
+export interface ReasoningSetting {
+  effort?: 'low' | 'medium' | 'high';  // Models that take a reasoning effort (OpenAI o-series, Gemini 2.5+, Grok mini)
+  budgetTokens?: number;               // Models that take a thinking budget (Claude 4); unset means no thinking
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;       // Attempts per provider, including the first
+  baseDelayMs: number;       // Backoff before the first retry; doubles on each retry
+  maxDelayMs: number;        // Backoff cap; a longer Retry-After skips to the next provider
+  timeoutMs: number;         // No response within this time fails the attempt (0 = no limit)
+}
+
+export interface ProviderEndpoint {
+  provider: string;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  retry?: Partial<RetryPolicy>;
+}
+
+export interface RetryInfo {
+  provider: string;
+  model: string;
+  attempt: number;           // Attempt that failed
+  maxAttempts: number;
+  delayMs: number;           // Wait before the next attempt
+  error: string;
+  failoverTo?: { provider: string; model: string }; // Set when moving on to the next provider
+}
+
+export interface TokenUsage {
   totalTokens: number;
-  promptTokens: number;
-  completionTokens: number;
-  requests: number;
+  promptTokens: number;      // All input tokens, cached ones included
+  completionTokens: number;  // Reasoning tokens included
+  cachedInputTokens: number; // Read from the provider's prompt cache
+  cacheWriteTokens: number;  // Written to the provider's prompt cache
+  reasoningTokens: number;
+  cost: number;              // USD, for requests to models with known pricing
+  modelRequests: number;     // One per step, plus compaction and suggestion requests
+  estimatedRequests: number; // Provider reported no usage; counted with tiktoken
+  unpricedRequests: number;  // Model has no pricing; left out of cost
+}
+
+export interface AgentStats extends TokenUsage {
+  requests: number;          // Chat turns
   toolCalls: number;
   startTime: number;
+  retries: number;
+  failovers: number;
+  answeredBy?: { provider: string; model: string }; // Provider that answered the last turn
+  lastTurn?: TokenUsage;
 }
 
 export interface Message {
   role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
   timestamp?: Date;
-  tool_calls?: ToolCall[];
-  tool_call_id?: string;
+  tool_calls?: ToolCall[];   // Assistant: tool calls made in this step
+  tool_call_id?: string;     // Tool: id of the call this result answers
+  name?: string;             // Tool: name of the tool that produced the result
+  is_error?: boolean;        // Tool: result is an error output
+  pinned?: boolean;          // Assistant: compaction summary of earlier turns
+  images?: ImageRef[];       // User: attached images, stored by reference
+  checkpointId?: string;     // User: checkpoint taken when this turn started
+}
+
+export interface ImageRef {
+  path: string;              // Image file on disk; read when the message is sent
+  mediaType: string;         // image/png, image/jpeg or image/webp
+  name: string;
+}
+
+export interface CompactResult {
+  compacted: boolean;
+  tokensBefore: number;
+  tokensAfter: number;
+  summarizedMessages: number;
+  reason?: string;           // Why nothing was compacted
+}
+
+export interface ChatOptions {
+  signal?: AbortSignal;      // Cancels the model request and running tools
+  images?: ImageRef[];       // Sent with the message as image parts (vision models only)
+}
+
+export interface SubagentTask {
+  description: string;       // Short label shown while the subagent runs
+  prompt: string;            // Everything the subagent knows about the job
+  tools?: string[];          // Tools the subagent may use; defaults to read-only tools
+  maxSteps?: number;
+}
+
+export interface SubagentProgress {
+  id: string;                // Tool call id of the task call that started the subagent
+  description: string;
+  status: 'running' | 'completed' | 'error' | 'cancelled';
+  currentTool?: string;      // Tool the subagent is running right now
+  toolCalls: number;
+  tokens: number;
+}
+
+export type PlanStepStatus = 'pending' | 'in_progress' | 'done' | 'skipped';
+
+export interface PlanStep {
+  title: string;
+  details?: string;
+  status: PlanStepStatus;
+  note?: string;             // Left by the model when it updates the step
+}
+
+export interface Plan {
+  summary: string;
+  steps: PlanStep[];
+  approved: boolean;         // false while waiting for the user
 }
 
 export interface ToolCall {
@@ -75,12 +182,125 @@ export interface ToolCall {
 export interface ChatCallbacks {
   onStart?: () => void;
   onToken?: (token: string) => void;
-  onToolCall?: (toolName: string, args: Record<string, any>) => Promise<boolean>;
-  onToolResult?: (toolName: string, result: string | object) => void;
+  onReasoning?: (token: string) => void;  // Model reasoning ("thinking"), streamed apart from the answer
+  onToolCall?: (toolName: string, args: Record<string, any>, toolCallId?: string) => Promise<boolean>;
+  onToolResult?: (toolName: string, result: string | object, toolCallId?: string) => void;
+  onToolOutput?: (toolCallId: string, chunk: string) => void;  // Live stdout/stderr of a running bash call
+  onPermissionRequest?: (request: PermissionRequest) => Promise<PermissionAnswer>;
+  onCompact?: (result: CompactResult) => void;
+  onRetry?: (info: RetryInfo) => void;  // A provider request failed and will be retried or failed over
+  onSubagent?: (progress: SubagentProgress) => void; // A task subagent started, used a tool or finished
+  onPlan?: (plan: Plan) => void;        // Plan mode produced a plan for the user to approve
+  onPlanUpdate?: (plan: Plan) => void;  // A step of the approved plan changed status
+  onHookError?: (event: HookEvent, command: string, error: string) => void; // A hook failed or timed out; the turn goes on
+  onHookTrustRequest?: (request: HookTrustRequest) => Promise<boolean>; // Ask before running a repository's own hooks
+  onWarning?: (message: string) => void;  // A non-fatal problem, e.g. a policy file that failed to load
+  onAbort?: () => void;      // Turn was cancelled through ChatOptions.signal
   onEnd?: () => void;
   onError?: (error: Error) => void;
 }
 
+// ============================================================================
+// PERMISSION TYPES
+// ============================================================================
+
+export type PermissionAction = 'allow' | 'ask' | 'deny';
+
+export interface PermissionRule {
+  tool: string;          // Tool name or glob (e.g. "bash", "git_*", "mcp_*")
+  action: PermissionAction;
+  command?: string;      // Glob matched against bash commands (e.g. "rm -rf*")
+  path?: string;         // Glob matched against file_path/path arguments
+  outsideCwd?: boolean;  // Match when the path argument resolves outside cwd
+  args?: Record<string, string | number | boolean>; // Match other arguments (strings are globs)
+  reason?: string;
+}
+
+export interface PermissionPolicy {
+  defaultAction: PermissionAction;
+  tools: Record<string, PermissionAction>;
+  rules: PermissionRule[];
+}
+
+export interface PermissionDecision {
+  action: PermissionAction;
+  reason: string;
+  rule?: PermissionRule;
+}
+
+export interface PermissionRequest {
+  toolName: string;
+  args: Record<string, any>;
+  reason: string;
+  signal?: AbortSignal;   // Aborted when the turn is interrupted; close the prompt and answer 'deny'
+}
+
+export type PermissionAnswer = 'allow' | 'always' | 'deny';
+
+export interface ToolRefusal {
+  status: 'denied';
+  tool: string;
+  reason: string;
+  message: string;
+}
+
+// ============================================================================
+// HOOK TYPES
+// ============================================================================
+
+export type HookEvent = 'PreToolUse' | 'PostToolUse' | 'UserPromptSubmit' | 'Stop' | 'SessionStart';
+
+export interface HookConfig {
+  command: string;       // Shell command; gets a HookInput as JSON on stdin
+  matcher?: string;      // Tool events: tool name glob, alternatives split by | (e.g. "write|edit", "mcp_*")
+  timeout?: number;      // Milliseconds (default 60000)
+}
+
+export interface HooksConfig {
+  hooks: Partial<Record<HookEvent, HookConfig[]>>;
+}
+
+export interface HookInput {
+  event: HookEvent;
+  sessionId: string;
+  cwd: string;
+  toolName?: string;                 // PreToolUse, PostToolUse
+  args?: Record<string, any>;        // PreToolUse, PostToolUse
+  result?: string;                   // PostToolUse
+  prompt?: string;                   // UserPromptSubmit
+  response?: string;                 // Stop: the final answer
+  stopHookActive?: boolean;          // Stop: the turn already continued because of a Stop hook
+  source?: 'startup' | 'resume' | 'clear'; // SessionStart
+}
+
+// JSON a hook prints on stdout; no output (or exit code 0 without JSON) means no opinion
+export interface HookDecision {
+  decision?: 'allow' | 'deny' | 'modify' | 'add-context';
+  reason?: string;                   // deny: shown to the model (tools, Stop) or the user (prompts)
+  args?: Record<string, any>;        // modify, PreToolUse: replacement tool arguments
+  prompt?: string;                   // modify, UserPromptSubmit: replacement prompt
+  result?: string;                   // modify, PostToolUse: replacement tool result
+  context?: string;                  // Added for the model (any decision)
+}
+
+// Combined outcome of every hook that matched an event
+export interface HookOutcome {
+  denied?: string;                   // Reason of the first hook that denied
+  allowed: boolean;                  // A hook approved the tool call, skipping the approval prompt
+  args?: Record<string, any>;
+  prompt?: string;
+  result?: string;
+  context: string[];
+}
+
+// A project hooks file the user hasn't trusted yet; its hooks are skipped until they do
+export interface HookTrustRequest {
+  dir: string;                       // Project directory
+  file: string;                      // Its .zesbe/hooks.json
+  hash: string;                      // sha256 of the file; any edit asks again
+  commands: string[];                // Every command the file would run
+}
+
 // ============================================================================
 // PROVIDER TYPES
 // ============================================================================
@@ -110,10 +330,15 @@ export interface ModelInfo {
 // MCP TYPES
 // ============================================================================
 
+export type MCPTransportType = 'stdio' | 'sse' | 'http';
+
 export interface MCPServerConfig {
-  command: string;
-  args: string[];
+  command?: string;                  // stdio: executable to spawn
+  args?: string[];
   env?: Record<string, string>;
+  url?: string;                      // Remote server endpoint (sse / http)
+  headers?: Record<string, string>;  // Extra HTTP headers, e.g. Authorization
+  transport?: MCPTransportType;      // Defaults to 'http' when url is set, else 'stdio'
 }
 
 export interface MCPConfig {
@@ -124,6 +349,38 @@ export interface MCPServer {
   name: string;
   tools: number;
   toolNames: string[];
+  resources: number;
+  prompts: number;
+  transport: MCPTransportType;
+  status: 'connected' | 'reconnecting';
+}
+
+export interface MCPResourceInfo {
+  server: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContent {
+  server: string;
+  uri: string;
+  mimeType?: string;
+  text: string;              // Text contents joined; binary parts summarized
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPromptInfo {
+  server: string;
+  name: string;
+  description?: string;
+  arguments: MCPPromptArgument[];
 }
 
 export interface MCPMarketplaceServer {
@@ -181,6 +438,33 @@ export interface Session {
   history: Message[];
   stats: AgentStats;
   summary: string;
+  plan?: Plan | null;
+  sessionId?: string;        // Names the checkpoint directory
+}
+
+// ============================================================================
+// CHECKPOINT TYPES
+// ============================================================================
+
+export interface CheckpointFile {
+  path: string;              // Absolute path
+  existed: boolean;          // false: the turn created the file; restoring deletes it
+  blob?: string;             // sha256 of the prior content, stored in the blob directory
+}
+
+export interface Checkpoint {
+  id: string;
+  turn: number;              // 1-based turn number within the session
+  prompt: string;            // First line of the user message, for listing
+  createdAt: string;
+  files: CheckpointFile[];   // Prior state of every file the turn changed
+}
+
+export interface RestoreResult {
+  checkpoint: Checkpoint;
+  restored: string[];        // Files written back to their prior content
+  deleted: string[];         // Files the reverted turns had created
+  failed: string[];          // "path: error"
 }
 
 // ============================================================================
@@ -218,6 +502,42 @@ export interface PipedInput {
   context?: Record<string, any>;
 }
 
+export type OutputFormat = 'text' | 'json' | 'stream-json';
+
+export interface HeadlessToolCall {
+  id?: string;               // Tool call id; pairs a result with its call when one tool runs in parallel
+  tool: string;
+  args?: Record<string, any>;
+  result?: string | object;
+  isError: boolean;
+}
+
+export interface HeadlessResult {
+  type: 'result';
+  success: boolean;
+  exitCode: number;
+  provider: string;
+  model: string;
+  result: string;
+  toolCalls: HeadlessToolCall[];
+  stats: AgentStats & { durationMs: number };
+  plan?: Plan;               // Set in plan mode when the model produced a plan
+  error?: string;
+}
+
+// Events written one per line in stream-json output
+export type HeadlessEvent =
+  | { type: 'start'; provider: string; model: string; cwd: string }
+  | { type: 'token'; text: string }
+  | { type: 'tool_call'; id?: string; tool: string; args: Record<string, any> }
+  | { type: 'tool_result'; id?: string; tool: string; result: string | object; isError: boolean }
+  | { type: 'error'; message: string }
+  | ({ type: 'retry' } & RetryInfo)
+  | ({ type: 'subagent' } & SubagentProgress)
+  | { type: 'hook_error'; event: HookEvent; command: string; error: string }
+  | { type: 'warning'; message: string }
+  | HeadlessResult;
+
 // ============================================================================
 // GITHUB ACTIONS TYPES (Phase 3)
 // ============================================================================
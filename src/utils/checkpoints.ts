@@ -0,0 +1,29 @@
+/**
+ * Checkpoint Utilities
+ * Formatting for /undo and /rewind
+ */
+
+import path from 'path';
+import type { Checkpoint, RestoreResult } from '../types/index.js';
+
+/**
+ * One line per turn, e.g. "3. fix the parser (2 files) · 14:02"
+ */
+export function formatCheckpoint(checkpoint: Checkpoint): string {
+  const files = checkpoint.files.length === 1 ? '1 file' : `${checkpoint.files.length} files`;
+  const time = new Date(checkpoint.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `${checkpoint.turn}. ${checkpoint.prompt} (${files}) · ${time}`;
+}
+
+/**
+ * Summary of a restore, with paths relative to cwd
+ */
+export function formatRestoreResult(result: RestoreResult, cwd: string): string {
+  const rel = (p: string) => path.relative(cwd, p) || p;
+  const lines: string[] = [];
+  if (result.restored.length > 0) lines.push(`Restored: ${result.restored.map(rel).join(', ')}`);
+  if (result.deleted.length > 0) lines.push(`Deleted: ${result.deleted.map(rel).join(', ')}`);
+  if (result.failed.length > 0) lines.push(`Failed: ${result.failed.join('; ')}`);
+  if (lines.length === 0) lines.push('No file changes to restore');
+  return lines.join('\n');
+}
@@ -135,6 +135,59 @@ export async function readFromClipboard(): Promise<string | null> {
   }
 }
 
+/**
+ * Read an image (PNG, JPEG or WebP) from the clipboard; null when it holds none
+ */
+export async function readImageFromClipboard(): Promise<Buffer | null> {
+  try {
+    switch (clipboardTool) {
+      case 'xclip': {
+        const targets = execSync('xclip -selection clipboard -t TARGETS -o', { stdio: ['ignore', 'pipe', 'ignore'] }).toString();
+        const type = ['image/png', 'image/jpeg', 'image/webp'].find(t => targets.includes(t));
+        if (!type) return null;
+        return execSync(`xclip -selection clipboard -t ${type} -o`, { stdio: ['ignore', 'pipe', 'ignore'], maxBuffer: 50 * 1024 * 1024 });
+      }
+
+      case 'pbcopy': {
+        // pbpaste only handles text; AppleScript can write the clipboard's PNG data to a file
+        const tempFile = path.join(os.tmpdir(), `ai-cli-clipboard-${Date.now()}.png`);
+        try {
+          execSync(
+            `osascript -e 'set f to open for access POSIX file "${tempFile}" with write permission' ` +
+            `-e 'write (the clipboard as «class PNGf») to f' -e 'close access f'`,
+            { stdio: 'ignore' }
+          );
+          return fs.readFileSync(tempFile);
+        } finally {
+          fs.rmSync(tempFile, { force: true });
+        }
+      }
+
+      case 'clip': {
+        const tempFile = path.join(os.tmpdir(), `ai-cli-clipboard-${Date.now()}.png`);
+        try {
+          execSync(
+            'powershell.exe -NoProfile -Command "Add-Type -AssemblyName System.Windows.Forms; ' +
+            '$img = [System.Windows.Forms.Clipboard]::GetImage(); ' +
+            `if ($img) { $img.Save('${tempFile}', [System.Drawing.Imaging.ImageFormat]::Png) }"`,
+            { stdio: 'ignore' }
+          );
+          return fs.existsSync(tempFile) ? fs.readFileSync(tempFile) : null;
+        } finally {
+          fs.rmSync(tempFile, { force: true });
+        }
+      }
+
+      default:
+        // termux-api and xsel only expose text
+        return null;
+    }
+  } catch {
+    // Clipboard holds no image (or the tool failed)
+    return null;
+  }
+}
+
 /**
  * Add text to clipboard history
  */
@@ -325,6 +378,7 @@ export function getShortcutsByCategory(): Record<string, KeyboardShortcut[]> {
 export default {
   copyToClipboard,
   readFromClipboard,
+  readImageFromClipboard,
   getClipboardHistory,
   clearClipboardHistory,
   isClipboardAvailable,
@@ -20,6 +20,7 @@ export interface CommandContext {
   onProviderChange?: (provider: string) => void;
   onModelChange?: (model: string) => void;
   onClear?: () => void;
+  onCompact?: () => Promise<void>;
   onExit?: () => void;
   onAttach?: (file: string) => void;
   onDetach?: (file: string) => void;
@@ -30,7 +31,7 @@ export interface CommandResult {
   success: boolean;
   message?: string;
   prompt?: string;  // Optional prompt to send to AI
-  action?: 'clear' | 'exit' | 'provider' | 'model' | 'attach' | 'detach' | 'none';
+  action?: 'clear' | 'compact' | 'exit' | 'provider' | 'model' | 'attach' | 'detach' | 'none';
   data?: any;
 }
 
@@ -505,14 +506,12 @@ registerCommand({
 registerCommand({
   name: 'compact',
   aliases: ['sum', 'summarize'],
-  description: 'Ask AI to summarize the conversation',
+  description: 'Summarize older turns to free context',
   usage: '/compact',
   examples: ['/compact'],
-  handler: () => {
-    return {
-      success: true,
-      prompt: 'Please provide a brief summary of our conversation so far. What have we discussed and accomplished?'
-    };
+  handler: async (_args, context) => {
+    if (context.onCompact) await context.onCompact();
+    return { success: true, action: 'compact' };
   }
 });
 
@@ -8,6 +8,7 @@ import path from 'path';
 import chalk from 'chalk';
 import { countTokens } from './tokens.js';
 import { highlightCode } from './syntax.js';
+import type { MCPResourceContent, ImageRef } from '../types/index.js';
 
 // File attachment
 export interface AttachedFile {
@@ -18,6 +19,7 @@ export interface AttachedFile {
   tokens: number;
   size: number;
   lastModified: Date;
+  mcpServer?: string; // Set for MCP resources; path holds the resource URI
 }
 
 // Context window info
@@ -26,6 +28,7 @@ export interface ContextInfo {
   maxTokens: number;
   usedPercent: number;
   attachedFiles: AttachedFile[];
+  attachedImages: ImageRef[];
   historyTokens: number;
   systemTokens: number;
 }
@@ -72,9 +75,20 @@ const LANGUAGE_EXTENSIONS: Record<string, string> = {
   '.dockerfile': 'dockerfile',
 };
 
+const MIME_LANGUAGES: Record<string, string> = {
+  'application/json': 'json',
+  'text/markdown': 'markdown',
+  'text/html': 'html',
+  'text/css': 'css',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'application/sql': 'sql',
+};
+
 // Context manager class
 export class ContextManager {
   private attachedFiles: Map<string, AttachedFile> = new Map();
+  private attachedImages: Map<string, ImageRef> = new Map(); // Sent with the next message only
   private maxTokens: number;
   private reservedTokens: number; // For system prompt and response
 
@@ -128,18 +142,64 @@ export class ContextManager {
   }
 
   /**
-   * Detach a file
+   * Attach an MCP resource (already read from its server)
+   */
+  attachResource(resource: MCPResourceContent, name?: string): AttachedFile {
+    const ext = path.extname(resource.uri.split(/[?#]/)[0]).toLowerCase();
+    const file: AttachedFile = {
+      path: resource.uri,
+      name: name || resource.uri,
+      content: resource.text,
+      language: (resource.mimeType && MIME_LANGUAGES[resource.mimeType]) || LANGUAGE_EXTENSIONS[ext] || 'text',
+      tokens: countTokens(resource.text),
+      size: Buffer.byteLength(resource.text),
+      lastModified: new Date(),
+      mcpServer: resource.server,
+    };
+
+    this.attachedFiles.set(resource.uri, file);
+    return file;
+  }
+
+  /**
+   * Attach an image (already validated with loadImage); it goes out with the next message
+   */
+  attachImage(image: ImageRef): ImageRef {
+    this.attachedImages.set(image.path, image);
+    return image;
+  }
+
+  /**
+   * Get images waiting to be sent
+   */
+  getAttachedImages(): ImageRef[] {
+    return Array.from(this.attachedImages.values());
+  }
+
+  /**
+   * Hand over the pending images for a message and clear them
+   */
+  takeImages(): ImageRef[] {
+    const images = this.getAttachedImages();
+    this.attachedImages.clear();
+    return images;
+  }
+
+  /**
+   * Detach a file, MCP resource or image
    */
   detachFile(filePath: string): boolean {
+    if (this.attachedFiles.delete(filePath)) return true;
     const absolutePath = path.resolve(filePath);
-    return this.attachedFiles.delete(absolutePath);
+    return this.attachedFiles.delete(absolutePath) || this.attachedImages.delete(absolutePath);
   }
 
   /**
-   * Detach all files
+   * Detach all files and images
    */
   detachAll(): void {
     this.attachedFiles.clear();
+    this.attachedImages.clear();
   }
 
   /**
@@ -170,6 +230,7 @@ export class ContextManager {
       maxTokens: this.maxTokens,
       usedPercent: (totalTokens / this.maxTokens) * 100,
       attachedFiles: files,
+      attachedImages: this.getAttachedImages(),
       historyTokens,
       systemTokens,
     };
@@ -193,8 +254,13 @@ export class ContextManager {
     const parts: string[] = ['Here are the attached files for context:\n'];
 
     for (const file of files) {
-      parts.push(`\n### File: ${file.name}`);
-      parts.push(`Path: ${file.path}`);
+      if (file.mcpServer) {
+        parts.push(`\n### MCP Resource: ${file.name}`);
+        parts.push(`URI: ${file.path} (server: ${file.mcpServer})`);
+      } else {
+        parts.push(`\n### File: ${file.name}`);
+        parts.push(`Path: ${file.path}`);
+      }
       parts.push(`Language: ${file.language}`);
       parts.push('```' + file.language);
       parts.push(file.content);
@@ -209,6 +275,7 @@ export class ContextManager {
    */
   refreshFile(filePath: string): AttachedFile | null {
     const absolutePath = path.resolve(filePath);
+    // MCP resources are keyed by URI and re-read through /attach, not from disk
     if (!this.attachedFiles.has(absolutePath)) {
       return null;
     }
@@ -337,6 +404,15 @@ export function formatContextInfo(info: ContextInfo): string {
     }
   }
 
+  // Pending images
+  if (info.attachedImages.length > 0) {
+    lines.push('');
+    lines.push(chalk.yellow('Images (sent with next message):'));
+    for (const image of info.attachedImages) {
+      lines.push(`  ${chalk.green('✓')} ${image.name} (${image.mediaType})`);
+    }
+  }
+
   return lines.join('\n');
 }
 
@@ -0,0 +1,32 @@
+/**
+ * IgnoreMatcher.forRoot loads parent ignore files only inside a git repository
+ */
+
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IgnoreMatcher } from './ignore.js';
+
+const outer = fs.mkdtempSync(path.join(os.tmpdir(), 'zesbe-ignore-'));
+const root = path.join(outer, 'project');
+fs.mkdirSync(root);
+fs.writeFileSync(path.join(outer, '.gitignore'), '*.log\n');
+
+describe('IgnoreMatcher.forRoot', () => {
+  after(() => fs.rmSync(outer, { recursive: true, force: true }));
+
+  it('ignores parent ignore files when the search root is not in a repository', () => {
+    assert.equal(IgnoreMatcher.forRoot(root).isIgnored(path.join(root, 'app.log'), false), false);
+  });
+
+  it('applies parent ignore files up to the repository root', () => {
+    fs.mkdirSync(path.join(outer, '.git'));
+    try {
+      assert.equal(IgnoreMatcher.forRoot(root).isIgnored(path.join(root, 'app.log'), false), true);
+    } finally {
+      fs.rmSync(path.join(outer, '.git'), { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Ignore Rules
+ * .gitignore and .zesbeignore matching for file search: nested ignore files,
+ * negation, directory-only and anchored patterns, ** wildcards
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export const IGNORE_FILES = ['.gitignore', '.zesbeignore'];
+
+// Never searched, whatever the ignore files say
+const ALWAYS_IGNORED = new Set(['.git', 'node_modules']);
+
+interface IgnoreRule {
+  base: string;         // Directory of the ignore file
+  regex: RegExp;        // Matches the path relative to base
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Glob to RegExp with gitignore semantics: * and ? stay within a path segment, ** crosses them.
+ * {a,b} alternatives are supported for include filters.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const slashAfter = glob[i + 2] === '/';
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        if (atSegmentStart && slashAfter) {
+          source += '(?:.*/)?';     // "**/" - any number of directories
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        source += `(?:${glob.slice(i + 1, end).split(',').map(part => globToRegExp(part).source.slice(1, -1)).join('|')})`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function parseRule(line: string, base: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  const negate = pattern.startsWith('!');
+  if (negate) pattern = pattern.slice(1);
+  if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) pattern = pattern.slice(1);
+
+  const dirOnly = pattern.endsWith('/');
+  if (dirOnly) pattern = pattern.slice(0, -1);
+  if (!pattern) return null;
+
+  // A slash anywhere but the end anchors the pattern to the ignore file's directory
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) pattern = pattern.slice(1);
+  return { base, regex: globToRegExp(anchored ? pattern : `**/${pattern}`), negate, dirOnly };
+}
+
+export class IgnoreMatcher {
+  private rules: IgnoreRule[] = [];
+  private loaded = new Set<string>();
+
+  /**
+   * Rules for searching `root`: ignore files of its parent directories up to the repository root.
+   * Outside a repository none are loaded, so a stray ignore file in $HOME or / can't hide files.
+   */
+  static forRoot(root: string): IgnoreMatcher {
+    const matcher = new IgnoreMatcher();
+    if (fs.existsSync(path.join(root, '.git'))) return matcher;
+
+    const ancestors: string[] = [];
+    for (let dir = path.dirname(root); ; dir = path.dirname(dir)) {
+      ancestors.unshift(dir);
+      if (fs.existsSync(path.join(dir, '.git'))) break;
+      if (path.dirname(dir) === dir) return matcher;
+    }
+    for (const dir of ancestors) matcher.loadDirectory(dir);
+    return matcher;
+  }
+
+  /**
+   * Add the ignore files of a directory; deeper files take precedence over earlier ones
+   */
+  loadDirectory(dir: string): void {
+    if (this.loaded.has(dir)) return;
+    this.loaded.add(dir);
+    for (const name of IGNORE_FILES) {
+      try {
+        const content = fs.readFileSync(path.join(dir, name), 'utf-8');
+        for (const line of content.split(/\r?\n/)) {
+          const rule = parseRule(line, dir);
+          if (rule) this.rules.push(rule);
+        }
+      } catch (_e) {
+        // No ignore file here
+      }
+    }
+  }
+
+  isIgnored(absolutePath: string, isDirectory: boolean): boolean {
+    if (ALWAYS_IGNORED.has(path.basename(absolutePath)) && isDirectory) return true;
+
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.dirOnly && !isDirectory) continue;
+      if (ignored !== rule.negate) continue;   // Only a rule of the other kind can change the outcome
+      const relative = path.relative(rule.base, absolutePath);
+      if (relative.startsWith('..') || path.isAbsolute(relative)) continue;
+      if (rule.regex.test(relative.split(path.sep).join('/'))) ignored = !rule.negate;
+    }
+    return ignored;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Image Module
+ * Loads and validates image attachments (PNG, JPEG, WebP) for vision models
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import type { ImageRef } from '../types/index.js';
+
+// Clipboard images are saved here so sessions can refer to them by path
+const IMAGE_DIR = path.join(os.homedir(), '.zesbe', 'images');
+
+// Most providers reject larger images
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Check whether a path looks like a supported image
+ */
+export function isImagePath(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() in IMAGE_EXTENSIONS;
+}
+
+/**
+ * Detect the media type from the file signature
+ */
+export function detectImageType(data: Buffer): string | null {
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * Validate an image file and return a reference to it
+ */
+export function loadImage(filePath: string): ImageRef {
+  const absolutePath = path.resolve(filePath);
+
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const stats = fs.statSync(absolutePath);
+  if (stats.size > MAX_IMAGE_BYTES) {
+    throw new Error(`Image too large (max ${MAX_IMAGE_BYTES / (1024 * 1024)}MB): ${filePath}`);
+  }
+
+  const mediaType = detectImageType(fs.readFileSync(absolutePath));
+  if (!mediaType) {
+    throw new Error(`Not a PNG, JPEG or WebP image: ${filePath}`);
+  }
+
+  return { path: absolutePath, mediaType, name: path.basename(absolutePath) };
+}
+
+/**
+ * Save image bytes (e.g. from the clipboard) and return a reference to the file
+ */
+export function saveImage(data: Buffer, prefix: string = 'clipboard'): ImageRef {
+  const mediaType = detectImageType(data);
+  if (!mediaType) {
+    throw new Error('Clipboard content is not a PNG, JPEG or WebP image');
+  }
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new Error(`Image too large (max ${MAX_IMAGE_BYTES / (1024 * 1024)}MB)`);
+  }
+
+  if (!fs.existsSync(IMAGE_DIR)) {
+    fs.mkdirSync(IMAGE_DIR, { recursive: true });
+  }
+
+  const ext = mediaType === 'image/jpeg' ? 'jpg' : mediaType.split('/')[1];
+  const filePath = path.join(IMAGE_DIR, `${prefix}-${Date.now()}.${ext}`);
+  fs.writeFileSync(filePath, data);
+  return { path: filePath, mediaType, name: path.basename(filePath) };
+}
+
+/**
+ * Read the bytes behind an image reference, or null if the file is gone
+ */
+export function readImage(image: ImageRef): Buffer | null {
+  try {
+    return fs.readFileSync(image.path);
+  } catch {
+    return null;
+  }
+}
+
+export { IMAGE_DIR };
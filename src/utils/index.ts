@@ -56,6 +56,7 @@ export type {
 export {
   copyToClipboard,
   readFromClipboard,
+  readImageFromClipboard,
   getClipboardHistory,
   clearClipboardHistory,
   isClipboardAvailable,
@@ -101,6 +102,44 @@ export type {
   ContextInfo,
 } from './context.js';
 
+// Image attachments
+export {
+  isImagePath,
+  detectImageType,
+  loadImage,
+  saveImage,
+  readImage,
+  MAX_IMAGE_BYTES,
+} from './images.js';
+
+// Plan mode
+export {
+  formatPlanSteps,
+  getPlanProgress,
+  parsePlanFromText,
+} from './plan.js';
+
+// Reasoning
+export {
+  fetchWithReasoningContent,
+  parseReasoningSetting,
+  formatReasoningSetting,
+} from './reasoning.js';
+
+// Checkpoints
+export {
+  formatCheckpoint,
+  formatRestoreResult,
+} from './checkpoints.js';
+
+// File edits
+export {
+  decodeText,
+  encodeText,
+  applyEdit,
+  applyEdits,
+} from './text-edit.js';
+
 // Export and history
 export {
   saveConversation,
@@ -122,4 +161,4 @@ export type {
 } from './export.js';
 
 // Token counting (from existing)
-export { countTokens, countMessagesTokens, truncateToTokenLimit, getContextWindow, getRemainingTokens, formatTokenCount, estimateCost } from './tokens.js';
+export { countTokens, countMessagesTokens, truncateToTokenLimit, getContextWindow, getRemainingTokens, formatTokenCount, formatCost, formatUsage, estimateCost } from './tokens.js';
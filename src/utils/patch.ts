@@ -0,0 +1,281 @@
+/**
+ * Patch Utilities
+ * Parse multi-file unified diffs (git or plain diff -u) and apply their hunks
+ * with offset search, whitespace tolerance and context fuzz
+ */
+
+export interface PatchHunk {
+  header: string;           // "@@ -12,7 +12,8 @@ ..."
+  oldStart: number;
+  lines: string[];          // Each starts with ' ', '-' or '+'
+  noNewlineOld: boolean;    // "\ No newline at end of file" after the old side's last line
+  noNewlineNew: boolean;
+}
+
+export interface FilePatch {
+  oldPath: string | null;   // null for a created file (/dev/null)
+  newPath: string | null;   // null for a deleted file
+  hunks: PatchHunk[];
+}
+
+export interface HunkRejection {
+  hunk: PatchHunk;
+  actual: string;           // File content around where the hunk should apply, with line numbers
+}
+
+export interface HunkApplyResult {
+  content: string;
+  offsets: number[];        // Per applied hunk: lines away from the header's position (0 = exact)
+  fuzzed: number;           // Hunks that needed whitespace tolerance or dropped context lines
+  rejected: HunkRejection[];
+}
+
+interface Placement {
+  at: number;               // Index of the first file line the hunk replaces
+  remove: number;
+  kept: string[];           // Hunk lines used, after dropping fuzzed context
+  offset: number;
+  fuzzed: boolean;
+}
+
+// Context lines that may be dropped from each end of a hunk that doesn't match as is
+const MAX_FUZZ = 2;
+
+// Lines of actual content shown around a rejected hunk
+const REJECT_CONTEXT_LINES = 4;
+
+// Strip the "a/" or "b/" prefix and any timestamp; /dev/null becomes null
+function parsePath(raw: string, prefix: string): string | null {
+  let value = raw.replace(/\t.*$/, '').trim();
+  if (value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1);
+  if (value === '/dev/null') return null;
+  return prefix && value.startsWith(prefix) ? value.slice(prefix.length) : value;
+}
+
+/**
+ * Split a unified diff into per-file patches. Throws on text that isn't a diff.
+ */
+export function parseUnifiedDiff(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let hunk: PatchHunk | null = null;
+  let gitSection = false;   // A "diff --git" line started the file and its ---/+++ haven't come yet
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const git = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+    if (git) {
+      current = { oldPath: git[1], newPath: git[2], hunks: [] };
+      patches.push(current);
+      hunk = null;
+      gitSection = true;
+      continue;
+    }
+
+    // "--- x" is a removed "-- x" line inside a hunk unless "+++ y" follows
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const next = lines[i + 1];
+      if (!gitSection || !current) {
+        current = { oldPath: null, newPath: null, hunks: [] };
+        patches.push(current);
+      }
+      const oldRaw = line.slice(4);
+      const newRaw = next.slice(4);
+      const prefixed = gitSection ||
+        ((oldRaw.startsWith('a/') || parsePath(oldRaw, '') === null) && (newRaw.startsWith('b/') || parsePath(newRaw, '') === null));
+      current.oldPath = parsePath(oldRaw, prefixed ? 'a/' : '');
+      current.newPath = parsePath(newRaw, prefixed ? 'b/' : '');
+      hunk = null;
+      gitSection = false;
+      i++;
+      continue;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      if (!current) throw new Error(`Hunk without a file header: ${line}`);
+      hunk = { header: line, oldStart: parseInt(header[1], 10), lines: [], noNewlineOld: false, noNewlineNew: false };
+      current.hunks.push(hunk);
+      gitSection = false;
+      continue;
+    }
+
+    if (hunk) {
+      if (line.startsWith('\\')) {
+        const previous = hunk.lines[hunk.lines.length - 1]?.[0];
+        if (previous !== '+') hunk.noNewlineOld = true;
+        if (previous !== '-') hunk.noNewlineNew = true;
+      } else if (line === '') {
+        hunk.lines.push(' ');   // Blank context line whose leading space was trimmed
+      } else if (' -+'.includes(line[0])) {
+        hunk.lines.push(line);
+      } else {
+        hunk = null;            // Text after the hunk
+      }
+      continue;
+    }
+
+    if (current && gitSection) {
+      if (line.startsWith('new file mode')) current.oldPath = null;
+      else if (line.startsWith('deleted file mode')) current.newPath = null;
+      else if (line.startsWith('rename from ')) current.oldPath = line.slice('rename from '.length);
+      else if (line.startsWith('rename to ')) current.newPath = line.slice('rename to '.length);
+    }
+  }
+
+  // Blank lines after a hunk are the end of the patch, not context
+  for (const file of patches) {
+    for (const h of file.hunks) {
+      while (h.lines.length > 0 && h.lines[h.lines.length - 1] === ' ') h.lines.pop();
+    }
+  }
+
+  const changes = patches.filter(p => p.hunks.length > 0 || p.oldPath !== p.newPath);
+  if (changes.length === 0) {
+    throw new Error('No file changes found; expected a unified diff with ---/+++ headers and @@ hunks');
+  }
+  return changes;
+}
+
+/**
+ * Paths a patch reads or writes, for permission checks
+ */
+export function getPatchPaths(text: string): string[] {
+  try {
+    const paths = parseUnifiedDiff(text).flatMap(p => [p.oldPath, p.newPath]);
+    return [...new Set(paths.filter((p): p is string => !!p))];
+  } catch {
+    return [];
+  }
+}
+
+const normalizeLine = (line: string) => line.trim().replace(/\s+/g, ' ');
+
+function matchesAt(lines: string[], at: number, expected: string[], loose: boolean): boolean {
+  if (at < 0 || at + expected.length > lines.length) return false;
+  return expected.every((line, j) => (loose ? normalizeLine(lines[at + j]) === normalizeLine(line) : lines[at + j] === line));
+}
+
+// Position nearest to `around`, and not before `from`, where the lines match
+function findNearest(lines: string[], expected: string[], around: number, from: number, loose: boolean): number {
+  const last = lines.length - expected.length;
+  for (let distance = 0; around - distance >= from || around + distance <= last; distance++) {
+    const before = around - distance;
+    const after = around + distance;
+    if (before >= from && before <= last && matchesAt(lines, before, expected, loose)) return before;
+    if (distance > 0 && after >= from && after <= last && matchesAt(lines, after, expected, loose)) return after;
+  }
+  return -1;
+}
+
+// Context lines to drop from the start and end of a hunk, fewest first
+function fuzzSteps(leadingContext: number, trailingContext: number): Array<[number, number]> {
+  const steps: Array<[number, number]> = [];
+  for (let total = 0; total <= MAX_FUZZ * 2; total++) {
+    for (let leading = Math.min(total, MAX_FUZZ); leading >= 0 && total - leading <= MAX_FUZZ; leading--) {
+      if (leading <= leadingContext && total - leading <= trailingContext) steps.push([leading, total - leading]);
+    }
+  }
+  return steps;
+}
+
+// Exact first, then ignoring whitespace, then with up to MAX_FUZZ context lines dropped from each end
+function placeHunk(lines: string[], hunk: PatchHunk, delta: number, minStart: number): Placement | null {
+  const firstChange = hunk.lines.findIndex(l => l[0] !== ' ');
+  let lastChange = hunk.lines.length - 1;
+  while (lastChange >= 0 && hunk.lines[lastChange][0] === ' ') lastChange--;
+  const leadingContext = firstChange === -1 ? 0 : firstChange;
+  const trailingContext = firstChange === -1 ? 0 : hunk.lines.length - 1 - lastChange;
+
+  const oldSide = hunk.lines.filter(l => l[0] !== '+');
+  if (oldSide.length === 0) {
+    // Pure insertion (or a new file): goes after the header's old line
+    const at = Math.max(minStart, Math.min(lines.length, hunk.oldStart + delta));
+    return { at, remove: 0, kept: hunk.lines, offset: at - (hunk.oldStart + delta), fuzzed: false };
+  }
+
+  const expected = hunk.oldStart - 1 + delta;
+  for (const [leading, trailing] of fuzzSteps(leadingContext, trailingContext)) {
+    const kept = hunk.lines.slice(leading, hunk.lines.length - trailing);
+    const oldLines = kept.filter(l => l[0] !== '+').map(l => l.slice(1));
+    if (oldLines.length === 0) continue;
+
+    for (const loose of [false, true]) {
+      const at = findNearest(lines, oldLines, Math.max(0, expected + leading), minStart, loose);
+      if (at !== -1) {
+        return { at, remove: oldLines.length, kept, offset: at - leading - expected, fuzzed: leading + trailing > 0 || loose };
+      }
+    }
+  }
+  return null;
+}
+
+function numbered(lines: string[], start: number, end: number): string {
+  const from = Math.max(0, start);
+  const to = Math.min(lines.length, end);
+  if (from >= to) return `(file has ${lines.length} lines)`;
+  return lines.slice(from, to).map((line, i) => `${String(from + i + 1).padStart(5)}| ${line}`).join('\n');
+}
+
+/**
+ * Apply a file's hunks in order to its content ("\n" line endings).
+ * Hunks that can't be placed are rejected and the rest still applied, so callers can report them all.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): HunkApplyResult {
+  const lines = content === '' ? [] : content.replace(/\n$/, '').split('\n');
+  const original = [...lines];   // Rejections show the file as it is on disk
+  let newlineAtEnd = content === '' || content.endsWith('\n');
+  const result: HunkApplyResult = { content, offsets: [], fuzzed: 0, rejected: [] };
+
+  let delta = 0;       // Lines added minus removed by the hunks applied so far
+  let minStart = 0;    // Hunks apply in order without overlapping
+  for (const hunk of hunks) {
+    const placement = placeHunk(lines, hunk, delta, minStart);
+    if (!placement) {
+      const start = hunk.oldStart - 1;
+      const oldLength = hunk.lines.filter(l => l[0] !== '+').length;
+      result.rejected.push({
+        hunk,
+        actual: numbered(original, start - REJECT_CONTEXT_LINES, start + oldLength + REJECT_CONTEXT_LINES)
+      });
+      continue;
+    }
+
+    // Context lines keep the file's text, which may differ in whitespace from the hunk's
+    const { at, remove, kept } = placement;
+    const replacement: string[] = [];
+    let oldIndex = at;
+    for (const line of kept) {
+      if (line[0] === ' ') replacement.push(lines[oldIndex++] ?? line.slice(1));
+      else if (line[0] === '-') oldIndex++;
+      else replacement.push(line.slice(1));
+    }
+    lines.splice(at, remove, ...replacement);
+
+    if (at + replacement.length === lines.length && (hunk.noNewlineOld || hunk.noNewlineNew)) {
+      newlineAtEnd = !hunk.noNewlineNew;
+    }
+    result.offsets.push(placement.offset);
+    if (placement.fuzzed) result.fuzzed++;
+    delta += replacement.length - remove;
+    minStart = at + replacement.length;
+  }
+
+  result.content = lines.length === 0 ? '' : lines.join('\n') + (newlineAtEnd ? '\n' : '');
+  return result;
+}
+
+/**
+ * Describe a rejected hunk with the file's actual content, so the model can fix the hunk and retry
+ */
+export function formatRejection(file: string, rejection: HunkRejection): string {
+  return [
+    `${file}: hunk rejected, its context and removed lines were not found`,
+    rejection.hunk.header,
+    ...rejection.hunk.lines,
+    'Actual content near that location:',
+    rejection.actual
+  ].join('\n');
+}
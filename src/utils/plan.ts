@@ -0,0 +1,54 @@
+/**
+ * Plan Utilities
+ * Formatting and text parsing for plan mode step plans
+ */
+
+import type { Plan, PlanStep, PlanStepStatus } from '../types/index.js';
+
+const STATUS_MARKS: Record<PlanStepStatus, string> = {
+  pending: '[ ]',
+  in_progress: '[~]',
+  done: '[x]',
+  skipped: '[-]'
+};
+
+/**
+ * Numbered step list with status marks, e.g. "2. [x] Add config option"
+ */
+export function formatPlanSteps(plan: Plan, options: { details?: boolean } = {}): string {
+  return plan.steps.map((step, i) => {
+    let line = `${i + 1}. ${STATUS_MARKS[step.status]} ${step.title}`;
+    if (options.details && step.details) line += ` - ${step.details}`;
+    if (step.note) line += ` (${step.note})`;
+    return line;
+  }).join('\n');
+}
+
+/**
+ * Count of finished (done or skipped) steps
+ */
+export function getPlanProgress(plan: Plan): { finished: number; total: number } {
+  const finished = plan.steps.filter(s => s.status === 'done' || s.status === 'skipped').length;
+  return { finished, total: plan.steps.length };
+}
+
+/**
+ * Build a plan from a numbered list in the model's answer, for models that skip submit_plan
+ */
+export function parsePlanFromText(text: string): Plan | null {
+  const steps: PlanStep[] = [];
+  const intro: string[] = [];
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*(?:\d+[.)]|-\s*\[ \])\s+(.+)$/);
+    if (match) {
+      const [title, ...details] = match[1].replace(/\*\*/g, '').split(/\s+[-–:]\s+/);
+      steps.push({ title: title.trim(), details: details.join(' - ').trim() || undefined, status: 'pending' });
+    } else if (steps.length === 0 && line.trim() && !line.trim().startsWith('#')) {
+      intro.push(line.trim());
+    }
+  }
+
+  if (steps.length === 0) return null;
+  return { summary: intro.join(' ').slice(0, 300), steps, approved: false };
+}
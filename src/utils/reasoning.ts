@@ -0,0 +1,130 @@
+/**
+ * Reasoning Utilities
+ * Model reasoning ("thinking") for OpenAI-compatible providers, and the per-model reasoning setting
+ */
+
+import type { ReasoningSetting } from '../types/index.js';
+
+const THINK_OPEN = '<think>';
+const THINK_CLOSE = '</think>';
+
+// DeepSeek and GLM send reasoning_content, OpenRouter sends reasoning
+function takeReasoning(message: Record<string, any>): string {
+  const reasoning = message.reasoning_content ?? message.reasoning;
+  delete message.reasoning_content;
+  delete message.reasoning;
+  return typeof reasoning === 'string' ? reasoning : '';
+}
+
+// Rewrite one streamed chunk in place; `open` tracks choices whose <think> block is still open
+function rewriteChunk(chunk: Record<string, any>, open: Set<number>): boolean {
+  let changed = false;
+  for (const choice of chunk.choices || []) {
+    const delta = choice.delta || {};
+    const index = choice.index ?? 0;
+    const reasoning = takeReasoning(delta);
+    const text = typeof delta.content === 'string' ? delta.content : '';
+
+    let prefix = '';
+    if (reasoning) {
+      prefix = open.has(index) ? reasoning : THINK_OPEN + reasoning;
+      open.add(index);
+    }
+    if (open.has(index) && (text || delta.tool_calls || choice.finish_reason)) {
+      prefix += THINK_CLOSE;
+      open.delete(index);
+    }
+    if (prefix) {
+      delta.content = prefix + text;
+      choice.delta = delta;
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+function transformEventStream(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const open = new Set<number>();
+  let buffer = '';
+
+  const rewriteLine = (line: string): string => {
+    if (!line.startsWith('data:')) return line;
+    const data = line.slice(5).trim();
+    if (!data.startsWith('{')) return line;
+    try {
+      const chunk = JSON.parse(data) as Record<string, any>;
+      return rewriteChunk(chunk, open) ? `data: ${JSON.stringify(chunk)}` : line;
+    } catch (_e) {
+      return line;
+    }
+  };
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(bytes, controller) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      if (lines.length > 0) controller.enqueue(encoder.encode(lines.map(rewriteLine).join('\n') + '\n'));
+    },
+    flush(controller) {
+      buffer += decoder.decode();
+      if (buffer) controller.enqueue(encoder.encode(rewriteLine(buffer)));
+    }
+  }));
+}
+
+/**
+ * Fetch for OpenAI-compatible providers that moves reasoning_content into the answer as a
+ * <think> block, which the reasoning middleware then turns into reasoning parts.
+ * The OpenAI chat provider would drop the field otherwise.
+ */
+export function fetchWithReasoningContent(baseFetch: typeof fetch = fetch): typeof fetch {
+  return async (input, init) => {
+    const response = await baseFetch(input, init);
+    const type = response.headers.get('content-type') || '';
+    if (!response.ok || !response.body) return response;
+
+    const headers = new Headers(response.headers);
+    headers.delete('content-length');
+    headers.delete('content-encoding');
+    const rewrap = (body: ReadableStream<Uint8Array> | string) => new Response(body, { status: response.status, statusText: response.statusText, headers });
+
+    if (type.includes('text/event-stream')) {
+      return rewrap(transformEventStream(response.body));
+    }
+    if (type.includes('application/json')) {
+      const json = await response.json() as Record<string, any>;
+      for (const choice of json.choices || []) {
+        const message = choice.message || {};
+        const reasoning = takeReasoning(message);
+        if (reasoning) message.content = `${THINK_OPEN}${reasoning}${THINK_CLOSE}${message.content ?? ''}`;
+      }
+      return rewrap(JSON.stringify(json));
+    }
+    return response;
+  };
+}
+
+/**
+ * Parse a /reasoning argument: low, medium, high, a thinking budget in tokens, or off.
+ * Returns null when the argument is none of these.
+ */
+export function parseReasoningSetting(arg: string): ReasoningSetting | 'off' | null {
+  const value = arg.trim().toLowerCase();
+  if (value === 'off') return 'off';
+  if (value === 'low' || value === 'medium' || value === 'high') return { effort: value };
+  const budget = Number(value.replace(/k$/, '000'));
+  if (Number.isInteger(budget) && budget >= 1024) return { budgetTokens: budget };
+  return null;
+}
+
+/**
+ * Short description, e.g. "effort high" or "budget 8000 tokens"
+ */
+export function formatReasoningSetting(setting?: ReasoningSetting): string {
+  if (setting?.effort) return `effort ${setting.effort}`;
+  if (setting?.budgetTokens) return `budget ${setting.budgetTokens} tokens`;
+  return 'model default';
+}
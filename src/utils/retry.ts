@@ -0,0 +1,147 @@
+/**
+ * Retry Utility
+ * Classifies provider errors and computes backoff delays for retries
+ */
+
+import { APICallError } from 'ai';
+import type { RetryPolicy, RetryInfo } from '../types/index.js';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  timeoutMs: 120000
+};
+
+// Statuses worth retrying: timeout, conflict, rate limit, server errors
+const RETRYABLE_STATUS = new Set([408, 409, 429]);
+
+/**
+ * Raised when a provider sends nothing back within the policy's timeout
+ */
+export class ProviderTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`No response from provider within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+/**
+ * Merge a partial policy over the defaults
+ */
+export function resolveRetryPolicy(...overrides: Array<Partial<RetryPolicy> | undefined>): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  for (const override of overrides) {
+    if (!override) continue;
+    for (const [key, value] of Object.entries(override)) {
+      if (typeof value === 'number' && value >= 0) {
+        policy[key as keyof RetryPolicy] = value;
+      }
+    }
+  }
+  policy.maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  return policy;
+}
+
+/**
+ * Rate limits, server errors, timeouts and connection failures are transient
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderTimeoutError) return true;
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode;
+    if (status !== undefined) {
+      return RETRYABLE_STATUS.has(status) || status >= 500;
+    }
+    return error.isRetryable;
+  }
+  // fetch() rejects with a TypeError when the connection fails
+  return error instanceof TypeError && /fetch failed|network/i.test(error.message);
+}
+
+/**
+ * Delay requested by the provider through Retry-After / retry-after-ms, in ms
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  if (!APICallError.isInstance(error) || !error.responseHeaders) return null;
+  const headers = Object.fromEntries(
+    Object.entries(error.responseHeaders).map(([key, value]) => [key.toLowerCase(), value])
+  );
+
+  const ms = parseFloat(headers['retry-after-ms'] ?? '');
+  if (!isNaN(ms) && ms >= 0) return ms;
+
+  const value = headers['retry-after'];
+  if (!value) return null;
+  const seconds = parseFloat(value);
+  if (!isNaN(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with jitter: half the delay is fixed, half random
+ */
+export function computeBackoff(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * fetch() that fails with ProviderTimeoutError when response headers take longer than timeoutMs
+ */
+export function fetchWithTimeout(timeoutMs: number): typeof fetch {
+  return async (input, init) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new ProviderTimeoutError(timeoutMs)), timeoutMs);
+    const signal = init?.signal ? AbortSignal.any([init.signal, controller.signal]) : controller.signal;
+    try {
+      return await fetch(input, { ...init, signal });
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Short, user-facing description of a provider error
+ */
+export function describeError(error: unknown): string {
+  if (APICallError.isInstance(error) && error.statusCode) {
+    return `HTTP ${error.statusCode}: ${error.message}`;
+  }
+  return (error as Error)?.message || String(error);
+}
+
+/**
+ * One-line description of a retry or failover, for the UI
+ */
+export function formatRetryInfo(info: RetryInfo): string {
+  const source = `${info.provider}/${info.model}`;
+  if (info.failoverTo) {
+    return `${source} failed (${info.error}), switching to ${info.failoverTo.provider}/${info.failoverTo.model}`;
+  }
+  const delay = (info.delayMs / 1000).toFixed(1);
+  return `${source}: ${info.error}, retrying in ${delay}s (attempt ${info.attempt + 1}/${info.maxAttempts})`;
+}
+
+/**
+ * Wait for ms, rejecting early when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * File Search
+ * In-process regex search over a directory tree for the grep tool. Respects
+ * .gitignore/.zesbeignore, skips binary and very large files, no shell involved.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { IgnoreMatcher, globToRegExp } from './ignore.js';
+
+export interface SearchOptions {
+  pattern: string;
+  root: string;             // File or directory to search
+  include?: string;         // Glob on the file name, or on the path under root if it contains "/"
+  ignoreCase?: boolean;
+  multiline?: boolean;      // Matches may span lines and "." matches newlines
+  signal?: AbortSignal;
+}
+
+export interface SearchHit {
+  line: number;             // 0-based first line of the match
+  endLine: number;          // 0-based last line (same as line unless multiline)
+}
+
+export interface FileMatches {
+  file: string;             // Absolute path
+  lines: string[];
+  hits: SearchHit[];
+}
+
+export interface SearchStats {
+  filesSearched: number;
+  skippedLarge: number;     // Files over MAX_FILE_BYTES
+  stopped: boolean;         // MAX_FILES reached before the whole tree was searched
+}
+
+// Files larger than this are not read
+export const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// Upper bound on files read in one search
+export const MAX_FILES = 20000;
+
+// Bytes checked for NUL when deciding whether a file is binary
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Compile the search pattern; throws SyntaxError for an invalid regular expression
+ */
+export function compilePattern(pattern: string, options: { ignoreCase?: boolean; multiline?: boolean }): RegExp {
+  let flags = options.ignoreCase ? 'i' : '';
+  if (options.multiline) flags += 'gms';
+  return new RegExp(pattern, flags);
+}
+
+function findHits(content: string, lines: string[], regex: RegExp, multiline: boolean): SearchHit[] {
+  if (!multiline) {
+    const hits: SearchHit[] = [];
+    lines.forEach((line, i) => {
+      if (regex.test(line)) hits.push({ line: i, endLine: i });
+    });
+    return hits;
+  }
+
+  const lineStarts = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) lineStarts.push(i + 1);
+  const lineOf = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  };
+
+  const hits: SearchHit[] = [];
+  for (const match of content.matchAll(regex)) {
+    const start = match.index!;
+    // A match ending with its newline belongs to the line it ends, not the next one
+    const end = Math.max(start, start + match[0].length - 1);
+    const last = lines.length - 1;
+    const hit = { line: Math.min(lineOf(start), last), endLine: Math.min(lineOf(end), last) };
+    const previous = hits[hits.length - 1];
+    if (previous && previous.line === hit.line && previous.endLine >= hit.endLine) continue;
+    hits.push(hit);
+  }
+  return hits;
+}
+
+/**
+ * Search every file under options.root in path order, calling onFile for each file with matches.
+ * An explicitly named file is searched even if an ignore file lists it.
+ */
+export async function searchFiles(
+  options: SearchOptions,
+  onFile: (matches: FileMatches) => void
+): Promise<SearchStats> {
+  const regex = compilePattern(options.pattern, options);
+  const root = path.resolve(options.root);
+  const include = options.include ? globToRegExp(options.include) : null;
+  const includeByPath = !!options.include?.includes('/');
+  const stats: SearchStats = { filesSearched: 0, skippedLarge: 0, stopped: false };
+
+  const searchFile = async (file: string) => {
+    if (stats.filesSearched >= MAX_FILES) {
+      stats.stopped = true;
+      return;
+    }
+    let data: Buffer;
+    try {
+      const info = await fs.stat(file);
+      if (info.size > MAX_FILE_BYTES) {
+        stats.skippedLarge++;
+        return;
+      }
+      data = await fs.readFile(file);
+    } catch (_e) {
+      return;   // Unreadable or gone
+    }
+    stats.filesSearched++;
+    if (data.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return;
+
+    const content = data.toString('utf-8');
+    const lines = content.replace(/\n$/, '').split('\n').map(line => line.replace(/\r$/, ''));
+    const hits = findHits(options.multiline ? content.replace(/\r\n/g, '\n') : content, lines, regex, !!options.multiline);
+    if (hits.length > 0) onFile({ file, lines, hits });
+  };
+
+  const info = await fs.stat(root);
+  if (!info.isDirectory()) {
+    await searchFile(root);
+    return stats;
+  }
+
+  const ignore = IgnoreMatcher.forRoot(root);
+  const walk = async (dir: string): Promise<void> => {
+    ignore.loadDirectory(dir);
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (_e) {
+      return;
+    }
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const entry of entries) {
+      if (options.signal?.aborted || stats.stopped) return;
+      const full = path.join(dir, entry.name);
+      // Symlinks are skipped so a link can't loop the walk or leave the tree
+      if (entry.isDirectory()) {
+        if (!ignore.isIgnored(full, true)) await walk(full);
+      } else if (entry.isFile() && !ignore.isIgnored(full, false)) {
+        const name = includeByPath ? path.relative(root, full).split(path.sep).join('/') : entry.name;
+        if (!include || include.test(name)) await searchFile(full);
+      }
+    }
+  };
+  await walk(root);
+  return stats;
+}
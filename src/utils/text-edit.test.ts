@@ -0,0 +1,115 @@
+/**
+ * Edit matching: exact and whitespace-tolerant matches, re-indentation, and BOM/CRLF round trips
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyEdit, applyEdits, decodeText, encodeText } from './text-edit.js';
+import type { EditResult } from './text-edit.js';
+
+const LF = { bom: false, eol: '\n' as const };
+
+function applied(result: EditResult | { error: string }): EditResult {
+  assert.ok(!('error' in result), 'error' in result ? result.error : '');
+  return result;
+}
+
+describe('applyEdit', () => {
+  const source = [
+    'function greet(name) {',
+    '    if (name) {',
+    '        console.log("hi",   name);',
+    '    }',
+    '}',
+    ''
+  ].join('\n');
+
+  it('matches lines ignoring indentation and spacing when there is no exact match', () => {
+    const result = applied(applyEdit(source, {
+      old_string: 'if (name) {\n  console.log("hi", name);\n}',
+      new_string: 'if (name) {\n  console.log("hello", name);\n}'
+    }, LF));
+
+    assert.deepEqual(result.fuzzy, {
+      lines: '2-4',
+      matched: '    if (name) {\n        console.log("hi",   name);\n    }'
+    });
+    assert.equal(result.replacements, 1);
+    // old_string's own nesting is kept, shifted to where the block sits in the file
+    assert.match(result.content, /^ {6}console\.log\("hello", name\);$/m);
+  });
+
+  it('shifts every replacement line by the difference from the file\'s indentation', () => {
+    const result = applied(applyEdit(source, {
+      old_string: '  if (name) {\n    console.log("hi", name);\n  }\n',
+      new_string: '  if (name) {\n    for (const n of name) {\n      console.log(n);\n    }\n  }\n'
+    }, LF));
+
+    assert.equal(result.content, [
+      'function greet(name) {',
+      '    if (name) {',
+      '      for (const n of name) {',
+      '        console.log(n);',
+      '      }',
+      '    }',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('matches text inside a line when only whitespace differs', () => {
+    const result = applied(applyEdit(source, { old_string: '"hi", name', new_string: '"hi", name.trim()' }, LF));
+    assert.equal(result.fuzzy?.lines, '3');
+    assert.match(result.content, /console\.log\("hi", name\.trim\(\)\);/);
+  });
+
+  it('reports every line of an ambiguous fuzzy match', () => {
+    const text = 'a();\n  retry(  1);\nb();\n\tretry(\t1);\n';
+    const result = applyEdit(text, { old_string: 'retry( 1);', new_string: 'stop();' }, LF);
+    assert.ok('error' in result);
+    assert.match(result.error, /matches 2 places \(lines 2, 4\) ignoring whitespace/);
+
+    const all = applied(applyEdit(text, { old_string: 'retry( 1);', new_string: 'stop();', replace_all: true }, LF));
+    assert.equal(all.content, 'a();\n  stop();\nb();\n\tstop();\n');
+  });
+
+  it('applies nothing when one edit of several fails', () => {
+    const result = applyEdits(source, [
+      { old_string: 'greet', new_string: 'welcome' },
+      { old_string: 'missing', new_string: 'x' }
+    ], LF);
+    assert.ok('error' in result);
+    assert.equal(result.index, 1);
+  });
+});
+
+describe('decodeText / encodeText', () => {
+  it('edits a CRLF file with "\\n" strings and writes CRLF back', () => {
+    const raw = 'one\r\ntwo\r\nthree\r\n';
+    const { text, format } = decodeText(raw);
+    assert.equal(text, 'one\ntwo\nthree\n');
+    assert.deepEqual(format, { bom: false, eol: '\r\n' });
+
+    const result = applied(applyEdit(text, { old_string: 'two\nthree', new_string: '2\n3\n4' }, format));
+    assert.equal(result.fuzzy, undefined);
+    assert.equal(encodeText(result.content, format), 'one\r\n2\r\n3\r\n4\r\n');
+  });
+
+  it('leaves a file with mixed line endings as it is', () => {
+    const raw = 'one\r\ntwo\nthree\n';
+    const { text, format } = decodeText(raw);
+    assert.equal(text, raw);
+    assert.equal(format.eol, '\n');
+    assert.equal(encodeText(text, format), raw);
+  });
+
+  it('keeps a byte order mark', () => {
+    const raw = '\uFEFFname,value\r\na,1\r\n';
+    const { text, format } = decodeText(raw);
+    assert.equal(text, 'name,value\na,1\n');
+    assert.deepEqual(format, { bom: true, eol: '\r\n' });
+
+    const result = applied(applyEdit(text, { old_string: 'a,1', new_string: 'a,2' }, format));
+    assert.equal(encodeText(result.content, format), '\uFEFFname,value\r\na,2\r\n');
+  });
+});
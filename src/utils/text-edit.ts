@@ -0,0 +1,199 @@
+/**
+ * Text Edit Utilities
+ * Search-and-replace for the edit tools: unique-match checks, a whitespace-tolerant
+ * fallback matcher, and keeping a file's BOM and line endings
+ */
+
+export interface TextFormat {
+  bom: boolean;
+  eol: '\n' | '\r\n';   // '\r\n' only when every line ends with it; mixed files are edited as they are
+}
+
+export interface TextEdit {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+export interface EditResult {
+  content: string;
+  replacements: number;
+  fuzzy?: {                // Set when only the whitespace-tolerant matcher found old_string
+    lines: string;         // e.g. "12-15"
+    matched: string;       // The file's text that was replaced
+  };
+}
+
+interface Match {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+const BOM = '\uFEFF';
+
+// Lines of matched text shown back to the model after a fuzzy match
+const MAX_MATCH_PREVIEW_LINES = 20;
+
+/**
+ * Strip the BOM and CRLF line endings so edits work on plain "\n" text
+ */
+export function decodeText(raw: string): { text: string; format: TextFormat } {
+  const bom = raw.startsWith(BOM);
+  const text = bom ? raw.slice(1) : raw;
+  const crlf = (text.match(/\r\n/g) || []).length;
+  const lf = (text.match(/\n/g) || []).length;
+  const eol = crlf > 0 && crlf === lf ? '\r\n' : '\n';
+  return { text: eol === '\r\n' ? text.replace(/\r\n/g, '\n') : text, format: { bom, eol } };
+}
+
+/**
+ * Restore the BOM and line endings taken off by decodeText
+ */
+export function encodeText(text: string, format: TextFormat): string {
+  const body = format.eol === '\r\n' ? text.replace(/\r?\n/g, '\r\n') : text;
+  return format.bom ? BOM + body : body;
+}
+
+/**
+ * 1-based line number of an offset
+ */
+export function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = text.indexOf('\n'); i !== -1 && i < offset; i = text.indexOf('\n', i + 1)) line++;
+  return line;
+}
+
+/**
+ * Apply one replacement to decoded text. Without replace_all, old_string must match exactly once.
+ * Returns an error message instead of throwing.
+ */
+export function applyEdit(text: string, edit: TextEdit, format: TextFormat): EditResult | { error: string } {
+  // The model writes "\n"; a file that isn't consistently CRLF keeps whatever it has
+  const normalize = (s: string) => (format.eol === '\r\n' || !text.includes('\r') ? s.replace(/\r\n/g, '\n') : s);
+  const oldString = normalize(edit.old_string);
+  const newString = normalize(edit.new_string);
+
+  if (!oldString) {
+    return { error: 'old_string is empty' };
+  }
+  if (oldString === newString) {
+    return { error: 'old_string and new_string are the same' };
+  }
+
+  let matches = findExact(text, oldString, newString);
+  let fuzzy = false;
+  if (matches.length === 0) {
+    matches = findByLines(text, oldString, newString);
+    if (matches.length === 0) matches = findByWhitespace(text, oldString, newString);
+    fuzzy = matches.length > 0;
+  }
+
+  if (matches.length === 0) {
+    return { error: 'Could not find old_string (also tried ignoring whitespace and line ending differences)' };
+  }
+  if (matches.length > 1 && !edit.replace_all) {
+    const lines = matches.map(m => lineAt(text, m.start));
+    const shown = lines.slice(0, 10).join(', ') + (lines.length > 10 ? ', ...' : '');
+    return {
+      error: `old_string matches ${matches.length} places (lines ${shown})${fuzzy ? ' ignoring whitespace' : ''}. ` +
+        'Include more surrounding lines to make it unique, or set replace_all to change every one.'
+    };
+  }
+
+  // Replace back to front so earlier offsets stay valid; slicing also avoids replace()'s "$" patterns
+  let content = text;
+  for (const match of [...matches].reverse()) {
+    content = content.slice(0, match.start) + match.replacement + content.slice(match.end);
+  }
+
+  const result: EditResult = { content, replacements: matches.length };
+  if (fuzzy) {
+    const first = matches[0];
+    const startLine = lineAt(text, first.start);
+    const endLine = lineAt(text, Math.max(first.start, first.end - 1));
+    const matchedLines = text.slice(first.start, first.end).split('\n');
+    const preview = matchedLines.slice(0, MAX_MATCH_PREVIEW_LINES).join('\n') +
+      (matchedLines.length > MAX_MATCH_PREVIEW_LINES ? `\n... (${matchedLines.length - MAX_MATCH_PREVIEW_LINES} more lines)` : '');
+    result.fuzzy = { lines: startLine === endLine ? `${startLine}` : `${startLine}-${endLine}`, matched: preview };
+  }
+  return result;
+}
+
+/**
+ * Apply edits in order; the first failure stops with nothing applied
+ */
+export function applyEdits(
+  text: string,
+  edits: TextEdit[],
+  format: TextFormat
+): { content: string; results: EditResult[] } | { error: string; index: number } {
+  let content = text;
+  const results: EditResult[] = [];
+  for (let i = 0; i < edits.length; i++) {
+    const result = applyEdit(content, edits[i], format);
+    if ('error' in result) return { error: result.error, index: i };
+    content = result.content;
+    results.push(result);
+  }
+  return { content, results };
+}
+
+function findExact(text: string, oldString: string, newString: string): Match[] {
+  const matches: Match[] = [];
+  for (let i = text.indexOf(oldString); i !== -1; i = text.indexOf(oldString, i + oldString.length)) {
+    matches.push({ start: i, end: i + oldString.length, replacement: newString });
+  }
+  return matches;
+}
+
+const normalizeLine = (line: string) => line.trim().replace(/\s+/g, ' ');
+
+const indentOf = (line: string) => line.match(/^[ \t]*/)![0];
+
+// Whole lines that are equal once indentation and runs of whitespace are ignored.
+// The replacement is re-indented by the difference between old_string's and the file's indentation.
+function findByLines(text: string, oldString: string, newString: string): Match[] {
+  const oldLines = oldString.replace(/\n+$/, '').split('\n');
+  while (oldLines.length > 0 && !oldLines[0].trim()) oldLines.shift();
+  if (oldLines.length === 0) return [];
+
+  const wanted = oldLines.map(normalizeLine);
+  const lines = text.split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+
+  const matches: Match[] = [];
+  for (let i = 0; i + wanted.length <= lines.length; i++) {
+    if (!wanted.every((w, j) => normalizeLine(lines[i + j]) === w)) continue;
+
+    const last = i + wanted.length - 1;
+    const start = lineStarts[i];
+    const end = lineStarts[last] + lines[last].replace(/\r$/, '').length;
+    const fileIndent = indentOf(lines[i]);
+    const oldIndent = indentOf(oldLines[0]);
+    const replacement = newString.replace(/\n+$/, '').replace(/^\n+/, '').split('\n')
+      .map(line => (line.startsWith(oldIndent) ? fileIndent + line.slice(oldIndent.length) : line))
+      .join('\n');
+    matches.push({ start, end, replacement });
+    i = last;
+  }
+  return matches;
+}
+
+// Part of a line, or text spanning lines, where any run of whitespace (including "\r\n") may differ
+function findByWhitespace(text: string, oldString: string, newString: string): Match[] {
+  const words = oldString.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const pattern = new RegExp(words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'), 'g');
+  const matches: Match[] = [];
+  for (const found of text.matchAll(pattern)) {
+    matches.push({ start: found.index!, end: found.index! + found[0].length, replacement: newString.trim() });
+  }
+  return matches;
+}
@@ -0,0 +1,52 @@
+/**
+ * splitHeadTail keeps bash output within its token cap
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { countTokens, splitHeadTail } from './tokens.js';
+
+const within = (text: string, maxTokens: number) => {
+  const split = splitHeadTail(text, maxTokens);
+  assert.ok(split, 'expected the text to be cut');
+  const sent = countTokens(split.head) + countTokens(split.tail);
+  assert.ok(sent <= maxTokens, `${sent} tokens sent for a cap of ${maxTokens}`);
+  return split;
+};
+
+describe('splitHeadTail', () => {
+  it('returns null when the text fits', () => {
+    assert.equal(splitHeadTail('one\ntwo\nthree\n', 100), null);
+  });
+
+  it('keeps whole lines from both ends of long output', () => {
+    const text = Array.from({ length: 5000 }, (_, i) => `line ${i}: ${'x'.repeat(i % 50)}`).join('\n') + '\n';
+    const split = within(text, 400);
+    assert.match(split.head, /^line 0: \n/);
+    assert.match(split.tail, /line 4999: .*\n$/);
+    assert.ok(split.head.endsWith('\n'));
+    assert.ok(split.omittedLines > 4000);
+  });
+
+  it('measures tokens for dense text longer than the cap', () => {
+    // CJK and emoji take several tokens per character, so a character window overshoots
+    const text = Array.from({ length: 300 }, (_, i) => `第${i}行 数据处理完成 🚀✅🔥 ${'错误'.repeat(i % 7)}`).join('\n');
+    const split = within(text, 300);
+    assert.ok(!split.head.includes('\uFFFD') && !split.tail.includes('\uFFFD'));
+
+    // One long line without breaks
+    within('🚀'.repeat(5000), 200);
+  });
+
+  it('does not cut text that compresses into few tokens', () => {
+    const text = '='.repeat(12000);
+    assert.ok(countTokens(text) <= 2000);
+    assert.equal(splitHeadTail(text, 2000), null);
+  });
+
+  it('cuts long runs without whitespace by characters instead of encoding them whole', { timeout: 5000 }, () => {
+    const split = within('='.repeat(100000) + '\n' + 'a'.repeat(200000), 3000);
+    assert.match(split.head, /^=+$/);
+    assert.match(split.tail, /^a+$/);
+  });
+});
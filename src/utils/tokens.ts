@@ -4,6 +4,8 @@
  */
 
 import { get_encoding, encoding_for_model, Tiktoken } from 'tiktoken';
+import { getModelContextWindow, getModelPricing, calculateCost } from '../models-db.js';
+import type { TokenUsage } from '../types/index.js';
 
 // Cache encodings for performance
 const encodingCache: Map<string, Tiktoken> = new Map();
@@ -90,37 +92,80 @@ export function truncateToTokenLimit(text: string, maxTokens: number, model?: st
   return new TextDecoder().decode(decoded);
 }
 
+// tiktoken slows down sharply on long runs without whitespace (a minified line takes seconds),
+// so at most this many characters per token are encoded from either end of long text
+const MAX_CHARS_PER_TOKEN = 8;
+
 /**
- * Get context window size for a model
+ * Keep the start and end of text within a token limit, cut at line breaks.
+ * Returns null when the whole text fits.
  */
-export function getContextWindow(model: string): number {
-  const contextWindows: Record<string, number> = {
-    // OpenAI
-    'gpt-4o': 128000,
-    'gpt-4o-mini': 128000,
-    'gpt-4-turbo': 128000,
-    'gpt-4': 8192,
-    'gpt-3.5-turbo': 16385,
-    // Anthropic
-    'claude-3-opus': 200000,
-    'claude-3-sonnet': 200000,
-    'claude-3-haiku': 200000,
-    'claude-3.5-sonnet': 200000,
-    // GLM
-    'glm-4-plus': 128000,
-    'glm-4-flash': 128000,
-    'glm-4-long': 1000000,
-    // MiniMax
-    'minimax-m2.1': 128000,
-    // Gemini
-    'gemini-pro': 32000,
-    'gemini-1.5-pro': 1000000,
-    'gemini-1.5-flash': 1000000,
-    // Default
-    'default': 8192
-  };
+export function splitHeadTail(
+  text: string,
+  maxTokens: number,
+  model?: string
+): { head: string; tail: string; omittedLines: number } | null {
+  const encoding = getEncoding(model);
+  const half = Math.floor(maxTokens / 2);
+
+  // Text longer than the character limit is cut without measuring the middle
+  if (text.length <= maxTokens * MAX_CHARS_PER_TOKEN && encoding.encode(text).length <= maxTokens) return null;
+
+  let head = decodeTokens(encoding, endTokens(encoding, text, half, 'head'));
+  let tail = decodeTokens(encoding, endTokens(encoding, text, maxTokens - half, 'tail'));
+  // Whole lines, unless one line alone is over the limit
+  const headEnd = head.lastIndexOf('\n');
+  if (headEnd > 0) head = head.slice(0, headEnd + 1);
+  const tailStart = tail.indexOf('\n');
+  if (tailStart !== -1 && tailStart < tail.length - 1) tail = tail.slice(tailStart + 1);
+
+  // The pieces can tokenize differently on their own than inside the text; measure what is sent
+  head = capTokens(encoding, head, half, 'head');
+  tail = capTokens(encoding, tail, maxTokens - half, 'tail');
+
+  const omittedLines = countLines(text) - countLines(head) - countLines(tail);
+  return { head, tail, omittedLines: Math.max(0, omittedLines) };
+}
+
+// Up to `count` tokens from one end of the text. The window starts at 4 characters per token and
+// doubles once if it holds no more than `count` tokens (its cut edge may split a token).
+function endTokens(encoding: Tiktoken, text: string, count: number, end: 'head' | 'tail'): Uint32Array {
+  const limit = count * MAX_CHARS_PER_TOKEN;
+  for (let window = count * 4; ; window = Math.min(window * 2, limit)) {
+    const whole = window >= text.length;
+    const tokens = encoding.encode(whole ? text : end === 'head' ? text.slice(0, window) : text.slice(-window));
+    if (whole || window >= limit || tokens.length > count) {
+      return end === 'head' ? tokens.slice(0, count) : tokens.slice(Math.max(0, tokens.length - count));
+    }
+  }
+}
+
+// Decode a token slice; a multi-byte character split at either edge is dropped, not turned into U+FFFD
+function decodeTokens(encoding: Tiktoken, tokens: Uint32Array): string {
+  return new TextDecoder().decode(encoding.decode(tokens)).replace(/^\uFFFD+|\uFFFD+$/g, '');
+}
+
+// Re-encode a piece on its own and cut it from the far end until it is within the limit
+function capTokens(encoding: Tiktoken, piece: string, limit: number, end: 'head' | 'tail'): string {
+  let tokens = encoding.encode(piece);
+  while (tokens.length > limit) {
+    piece = decodeTokens(encoding, end === 'head' ? tokens.slice(0, limit) : tokens.slice(tokens.length - limit));
+    tokens = encoding.encode(piece);
+  }
+  return piece;
+}
 
-  return contextWindows[model] || contextWindows['default'];
+function countLines(text: string): number {
+  let lines = text && !text.endsWith('\n') ? 1 : 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) lines++;
+  return lines;
+}
+
+/**
+ * Get context window size for a model (from the model database)
+ */
+export function getContextWindow(model: string): number {
+  return getModelContextWindow(model);
 }
 
 /**
@@ -145,28 +190,20 @@ export function formatTokenCount(count: number): string {
 }
 
 /**
- * Estimate cost based on tokens (rough estimates in USD)
+ * Estimate cost in USD from the model database pricing (zero when the model has no pricing)
  */
 export function estimateCost(
   inputTokens: number,
   outputTokens: number,
   model: string
 ): { input: number; output: number; total: number } {
-  // Pricing per 1M tokens (as of late 2024)
-  const pricing: Record<string, { input: number; output: number }> = {
-    'gpt-4o': { input: 2.5, output: 10 },
-    'gpt-4o-mini': { input: 0.15, output: 0.6 },
-    'gpt-4-turbo': { input: 10, output: 30 },
-    'claude-3.5-sonnet': { input: 3, output: 15 },
-    'claude-3-opus': { input: 15, output: 75 },
-    'glm-4-plus': { input: 0.5, output: 0.5 },
-    'glm-4-flash': { input: 0.01, output: 0.01 },
-    'default': { input: 1, output: 2 }
-  };
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    return { input: 0, output: 0, total: 0 };
+  }
 
-  const price = pricing[model] || pricing['default'];
-  const inputCost = (inputTokens / 1000000) * price.input;
-  const outputCost = (outputTokens / 1000000) * price.output;
+  const inputCost = calculateCost({ inputTokens, outputTokens: 0 }, pricing);
+  const outputCost = calculateCost({ inputTokens: 0, outputTokens }, pricing);
 
   return {
     input: inputCost,
@@ -175,6 +212,37 @@ export function estimateCost(
   };
 }
 
+/**
+ * Format a USD cost for display
+ */
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Summarize token usage and cost on one line; "~" marks counts that include tiktoken estimates
+ */
+export function formatUsage(usage: TokenUsage): string {
+  if (usage.modelRequests === 0) return 'no requests';
+
+  const approx = usage.estimatedRequests > 0 ? '~' : '';
+  const input = `${approx}${formatTokenCount(usage.promptTokens)} in` +
+    (usage.cachedInputTokens ? ` (${formatTokenCount(usage.cachedInputTokens)} cached)` : '');
+  const output = `${approx}${formatTokenCount(usage.completionTokens)} out` +
+    (usage.reasoningTokens ? ` (${formatTokenCount(usage.reasoningTokens)} reasoning)` : '');
+
+  let cost: string;
+  if (usage.unpricedRequests === usage.modelRequests) {
+    cost = 'cost n/a (no pricing for model)';
+  } else {
+    cost = `${approx}${formatCost(usage.cost)}` + (usage.unpricedRequests ? ' + unpriced requests' : '');
+  }
+
+  return `${input} · ${output} · ${cost}`;
+}
+
 // Cleanup function to free encoding resources
 export function cleanup(): void {
   for (const encoding of encodingCache.values()) {